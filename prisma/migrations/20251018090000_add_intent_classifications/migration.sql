@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "intent_classifications" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "intent" TEXT NOT NULL,
+    "confidence" REAL NOT NULL,
+    "source" TEXT NOT NULL,
+    "shouldUseQloo" BOOLEAN NOT NULL,
+    "classifierIntent" TEXT,
+    "classifierConfidence" REAL,
+    "reasoning" TEXT NOT NULL,
+    "alternatives" JSONB NOT NULL,
+    "fallbackReason" TEXT,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "intent_classifications_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "chat_sessions" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
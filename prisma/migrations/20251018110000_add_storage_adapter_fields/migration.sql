@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "chat_sessions" ADD COLUMN "metadata" JSONB;
+
+-- AlterTable
+ALTER TABLE "personas" ADD COLUMN "metadata" JSONB;
+
+-- CreateTable
+CREATE TABLE "qloo_responses" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "qloo_responses_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "chat_sessions" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "chat_sessions" ADD COLUMN "title" TEXT;
+ALTER TABLE "chat_sessions" ADD COLUMN "lastMessagePreview" TEXT;
+
+-- CreateIndex
+CREATE INDEX "chat_sessions_updatedAt_idx" ON "chat_sessions"("updatedAt");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "chat_sessions" ADD COLUMN "summary" TEXT;
+ALTER TABLE "chat_sessions" ADD COLUMN "summaryMessageCount" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "embedding_vectors" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "vector" JSONB NOT NULL,
+    "updatedAt" DATETIME NOT NULL,
+
+    PRIMARY KEY ("sessionId", "id"),
+    CONSTRAINT "embedding_vectors_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "chat_sessions" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "users" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "profile" JSONB NOT NULL,
+    "mergedInto" TEXT,
+    "forkedFrom" TEXT,
+    "metadata" JSONB
+);
+
+-- AlterTable
+ALTER TABLE "chat_sessions" ADD COLUMN "userId" TEXT REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE INDEX "chat_sessions_userId_updatedAt_idx" ON "chat_sessions"("userId", "updatedAt");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "library_personas" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "tags" JSONB NOT NULL,
+    "profile" JSONB NOT NULL,
+    "interests" JSONB NOT NULL,
+    "audiences" JSONB NOT NULL,
+    "duplicatedFrom" TEXT,
+    "createdBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "library_personas_updatedAt_idx" ON "library_personas"("updatedAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "personal_interests" ADD COLUMN "sentiment" TEXT NOT NULL DEFAULT 'like';
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { config, EntityType } from '@/lib/config';
+import { AudienceReport } from '@/lib/agents/audience-report';
+import { normalizeEntityType } from '@/lib/qloo/entity-types';
+
+const AudienceReportRequestSchema = z.object({
+  audienceId: z.string().startsWith('urn:audience:'),
+  // Older spellings such as urn:entity:tvshow are accepted and normalized
+  entityTypes: z.array(z.preprocess(value => normalizeEntityType(value as string) || value, z.enum(config.entityTypes))).min(1).max(config.entityTypes.length).optional(),
+  location: z.string().min(1).optional(),
+  limit: z.number().int().min(1).max(10).optional()
+});
+
+// Cross-domain taste report: what one audience likes across brands, places, artists, movies...
+export async function POST(request: NextRequest) {
+  try {
+    const { audienceId, ...options } = AudienceReportRequestSchema.parse(await request.json());
+
+    const report = await new AudienceReport().generate(audienceId as string, {
+      entityTypes: options.entityTypes as EntityType[] | undefined,
+      location: options.location,
+      limit: options.limit
+    });
+    return NextResponse.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    console.error('❌ Audience report error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '),
+      }, { status: 400 });
+    }
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabaseService } from '@/lib/database/database';
+import { AudienceDiscovery } from '@/lib/agents/audience-discovery';
+import { currentUserOwnsSession } from '@/lib/utils/user-identity';
+
+// Audience taxonomy to browse, plus the audiences behind a session's persona when ?sessionId= is given
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get('sessionId');
+    if (sessionId && !(await currentUserOwnsSession(sessionId, { allowUnowned: true }))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Session not found',
+      }, { status: 404 });
+    }
+
+    const [categories, personaAudiences] = await Promise.all([
+      new AudienceDiscovery().getAvailableAudienceCategories(),
+      sessionId ? getDatabaseService().getAudienceCharacteristics(sessionId) : Promise.resolve([])
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        categories,
+        // Only audiences with a real Qloo ID can drive a report
+        personaAudiences: personaAudiences
+          .filter(audience => String(audience.audienceId || '').startsWith('urn:audience:'))
+          .map(audience => ({
+            audienceType: audience.audienceType,
+            audienceId: audience.audienceId,
+            name: audience.name,
+            confidence: audience.confidence
+          })),
+      },
+    });
+  } catch (error) {
+    console.error('❌ Audience listing error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
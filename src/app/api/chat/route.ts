@@ -1,10 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { streamText } from 'ai';
-import { google } from '@ai-sdk/google';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { MainAgent } from '@/lib/agents/main-agent';
+import { SessionSummarizer } from '@/lib/agents/session-summarizer';
 import { validateConfig } from '@/lib/config';
 import { getDatabaseService } from '@/lib/database/database';
 import { broadcastDebugMessage, trackTokenUsage } from '@/lib/utils/debug';
+import { encodeSSE, SSE_HEADERS } from '@/lib/utils/sse';
+import { runWithTrace } from '@/lib/utils/trace';
+import { resolveCurrentUser } from '@/lib/utils/user-identity';
 import { z } from 'zod';
 import { AgentContext, ChatMessage } from '@/types';
 import { config } from '@/lib/config';
@@ -37,25 +39,32 @@ export async function POST(request: NextRequest) {
     // Session Management: Get existing session or create new one
     let currentSessionId: string;
     let isNewSession = false;
+    const user = await resolveCurrentUser();
     
     if (existingSessionId) {
       // Check if session exists
       const databaseService = getDatabaseService();
       const existingSession = await databaseService.getChatSession(existingSessionId);
+      if (existingSession?.userId && existingSession.userId !== user.id) {
+        return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+      }
       if (existingSession) {
+        if (!existingSession.userId) {
+          await databaseService.claimSession(existingSessionId, user.id);
+        }
         currentSessionId = existingSessionId;
         console.log('📝 Using existing chat session:', currentSessionId);
               } else {
           // Session doesn't exist, create new one
           const databaseService = getDatabaseService();
-          const session = await databaseService.createChatSession();
+          const session = await databaseService.createChatSession(undefined, false, user.id);
         currentSessionId = session.id;
         isNewSession = true;
         console.log('📝 Created new chat session (invalid sessionId provided):', currentSessionId);
       }
     } else {
       // No session provided, create new one
-      const session = await databaseService.createChatSession();
+      const session = await databaseService.createChatSession(undefined, false, user.id);
       currentSessionId = session.id;
       isNewSession = true;
       console.log('📝 Created new chat session:', currentSessionId);
@@ -183,7 +192,8 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Streaming chat endpoint
+// Streaming chat endpoint (server-sent events)
+// Events: session, step, text ({ delta }), entities, metadata, done, error
 export async function PUT(request: NextRequest) {
   try {
     // Validate configuration
@@ -202,29 +212,119 @@ export async function PUT(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Create agent context
-    const agentContext: AgentContext = {
-      sessionId: existingSessionId,
-      conversationHistory: messages as ChatMessage[],
-      debugMode: true,
-    };
+    const databaseService = getDatabaseService();
+    const user = await resolveCurrentUser();
 
-    // Initialize main agent
-    const mainAgent = new MainAgent(agentContext);
+    // Session Management: reuse the given session or start a new one for this user
+    let currentSessionId = existingSessionId;
+    let isNewSession = false;
+    const existingSession = currentSessionId ? await databaseService.getChatSession(currentSessionId) : null;
+    // Someone else's session reads as missing
+    if (existingSession?.userId && existingSession.userId !== user.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Session not found',
+      }, { status: 404 });
+    }
+    if (!existingSession) {
+      const session = await databaseService.createChatSession(undefined, false, user.id);
+      currentSessionId = session.id;
+      isNewSession = true;
+      console.log('📝 Created new chat session for stream:', currentSessionId);
+    } else if (!existingSession.userId) {
+      await databaseService.claimSession(currentSessionId, user.id);
+    }
 
-    // Process query
-    const response = await mainAgent.processQuery(
-      latestMessage.content,
-      existingSessionId
-    );
+    const storedUserMessage = await databaseService.addMessage(currentSessionId, {
+      role: 'user',
+      content: latestMessage.content,
+    });
 
-    // Return the response as plain text
-    return new Response(response, {
-      headers: {
-        'Content-Type': 'text/plain; charset=utf-8',
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let closed = false;
+        const send = (event: string, data: unknown) => {
+          if (closed) return;
+          try {
+            controller.enqueue(encodeSSE(event, data));
+          } catch {
+            // Client went away; keep processing so the reply is still persisted
+            closed = true;
+          }
+        };
+
+        send('session', { sessionId: currentSessionId, isNewSession, userMessageId: storedUserMessage.id });
+
+        try {
+          const agentContext: AgentContext = {
+            sessionId: currentSessionId,
+            conversationHistory: messages as ChatMessage[],
+            debugMode: true,
+            isNewSession,
+          };
+          const mainAgent = new MainAgent(agentContext);
+
+          let streamedText = false;
+          const { result: response, traceId, events } = await runWithTrace(currentSessionId, () =>
+            mainAgent.processQuery(
+              latestMessage.content,
+              currentSessionId,
+              (step, details) => {
+                send('step', { step, details, timestamp: new Date().toISOString() });
+                broadcastDebugMessage('agent-step', { step, details });
+              },
+              messages as ChatMessage[],
+              (delta) => {
+                streamedText = true;
+                send('text', { delta });
+              }
+            )
+          );
+
+          const responseMetadata = mainAgent.getLastResponseMetadata();
+          if (responseMetadata?.entities?.length) {
+            send('entities', { entities: responseMetadata.entities });
+          }
+
+          // Paths that don't stream tokens (Qloo results, chat history) arrive as one chunk
+          if (!streamedText) {
+            send('text', { delta: response });
+          }
+
+          send('metadata', responseMetadata || {});
+
+          const assistantMessage = await databaseService.addMessage(currentSessionId, {
+            role: 'assistant',
+            content: response,
+            metadata: responseMetadata ? { lastResponseMetadata: responseMetadata, entities: responseMetadata.entities } : undefined,
+          });
+
+          try {
+            await databaseService.saveMessageTrace(currentSessionId, assistantMessage.id, { traceId, events });
+          } catch (traceError) {
+            console.error('❌ Failed to persist agent trace:', traceError);
+          }
+
+          send('done', { sessionId: currentSessionId, messageId: assistantMessage.id, traceId, text: response });
+        } catch (error) {
+          console.error('❌ Streaming chat error:', error);
+          send('error', { message: error instanceof Error ? error.message : 'Unknown error' });
+        } finally {
+          if (!closed) {
+            closed = true;
+            controller.close();
+          }
+        }
       },
     });
 
+    // Runs once the stream has closed, so the reply is already stored and the client isn't kept waiting
+    after(() => new SessionSummarizer().summarizeIfDue(currentSessionId).catch(error => {
+      console.error('❌ Failed to summarize session:', error);
+    }));
+
+    return new Response(stream, { headers: SSE_HEADERS });
+
   } catch (error) {
     console.error('Streaming chat API error:', error);
     
@@ -233,4 +333,4 @@ export async function PUT(request: NextRequest) {
       error: error instanceof Error ? error.message : 'Unknown error',
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ComparedPersonaRef, PersonaComparison } from '@/lib/agents/persona-comparison';
+import { resolveCurrentUser } from '@/lib/utils/user-identity';
+
+const MAX_PERSONAS = 4;
+
+const CompareRequestSchema = z.object({
+  query: z.string().min(1),
+  personas: z.array(z.object({
+    type: z.enum(['library', 'session']),
+    id: z.string().min(1)
+  })).min(2).max(MAX_PERSONAS)
+});
+
+// Run one recommendation query for several personas and return the results side by side
+export async function POST(request: NextRequest) {
+  try {
+    const { query, personas } = CompareRequestSchema.parse(await request.json());
+
+    const user = await resolveCurrentUser();
+    const result = await new PersonaComparison().compare(query as string, personas as ComparedPersonaRef[], user.id);
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('❌ Persona comparison error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
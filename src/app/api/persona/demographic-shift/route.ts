@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PersonaManager } from '@/lib/agents/persona-manager';
+import { currentUserOwnsSession } from '@/lib/utils/user-identity';
+
+// Measure how the persona's demographics changed their latest recommendation (one extra Insights call, cached)
+export async function POST(request: NextRequest) {
+  try {
+    const { sessionId } = await request.json();
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Missing sessionId' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await currentUserOwnsSession(sessionId, { allowUnowned: true }))) {
+      return NextResponse.json(
+        { success: false, error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const shift = await new PersonaManager(sessionId).measureDemographicShift();
+    if (!shift) {
+      return NextResponse.json(
+        { success: false, error: 'No recommendation with demographic signals to measure' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: shift,
+    });
+  } catch (error) {
+    console.error('❌ Demographic shift error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
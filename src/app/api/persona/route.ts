@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDatabaseService } from '@/lib/database/database';
-import { PersonaManager } from '@/lib/agents/persona-manager';
+import { DemographicQuery, DemographicShift, PersonaManager, toDemographicSignals } from '@/lib/agents/persona-manager';
 import { AudienceDiscovery } from '@/lib/agents/audience-discovery';
 import { FeedbackSystem } from '@/lib/agents/feedback-system';
 import { BioGenerator } from '@/lib/agents/bio-generator';
@@ -69,17 +69,39 @@ export async function GET(request: NextRequest) {
     
     const bio = await bioGenerator.generateBio(personaData, 'michelin');
 
+    const activePersona = await databaseService.getActivePersona(sessionId);
+
+    // A shift measured for an older query is stale once a newer one has been sent
+    const demographicQuery: DemographicQuery | undefined = persona?.demographicQuery;
+    const lastShift: DemographicShift | null = persona?.demographicShift &&
+      (!demographicQuery || persona.demographicShift.askedAt === demographicQuery.askedAt) ? persona.demographicShift : null;
+
     const dashboardData = {
       sessionId,
+      activePersona: {
+        source: activePersona.source,
+        libraryPersona: activePersona.libraryPersona && {
+          id: activePersona.libraryPersona.id,
+          name: activePersona.libraryPersona.name,
+          description: activePersona.libraryPersona.description,
+          tags: activePersona.libraryPersona.tags
+        }
+      },
       persona: {
         id: persona?.id,
         name: persona?.name,
         location: persona?.location,
+        gender: persona?.gender,
         confidence: persona?.confidence || 0,
         demographics: persona?.demographics,
         createdAt: persona?.createdAt,
         updatedAt: persona?.updatedAt
       },
+      demographicSignals: {
+        signals: toDemographicSignals(persona || {}) || null,
+        lastShift,
+        unmeasuredQuery: !lastShift && demographicQuery ? demographicQuery.parameters.query : null
+      },
       interests: {
         total: interests.length,
         categories: personaSummary.topCategories,
@@ -90,6 +112,7 @@ export async function GET(request: NextRequest) {
           name: interest.name,
           confidence: interest.confidence,
           source: interest.source,
+          sentiment: interest.sentiment,
           entityId: interest.entityId,
           timestamp: interest.timestamp
         }))
@@ -173,6 +196,18 @@ export async function POST(request: NextRequest) {
         await feedbackSystem.trackInteraction(recommendationName, interactionType);
         return NextResponse.json({ success: true, message: 'Interaction tracked successfully' });
 
+      case 'addDislike':
+        await personaManager.addExplicitInterest(data.category || 'other', data.name, data.confidence ?? 0.9, 'dislike');
+        return NextResponse.json({ success: true, message: 'Dislike added successfully' });
+
+      case 'rejectRecommendation':
+        await feedbackSystem.rejectRecommendation(data.recommendationName, data.entityId, data.metadata);
+        return NextResponse.json({ success: true, message: 'Recommendation rejected' });
+
+      case 'rateRecommendation':
+        await feedbackSystem.recordRating(data.recommendationName, data.rating, data.comment, data.metadata);
+        return NextResponse.json({ success: true, message: 'Rating recorded successfully' });
+
                    case 'updateDemographics':
                                const { demographics } = data;
                 const databaseService = getDatabaseService();
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabaseService } from '@/lib/database/database';
+import { resolveCurrentUser } from '@/lib/utils/user-identity';
+
+// Copy a library persona, e.g. to tweak one variable of a taste profile
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ personaId: string }> }
+) {
+  try {
+    const { personaId } = await params;
+    const { name } = await request.json().catch(() => ({}));
+
+    const databaseService = getDatabaseService();
+    if (!(await databaseService.getLibraryPersona(personaId))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Persona not found',
+      }, { status: 404 });
+    }
+
+    const user = await resolveCurrentUser();
+    const persona = await databaseService.duplicateLibraryPersona(personaId, typeof name === 'string' ? name : undefined, user.id);
+    return NextResponse.json({
+      success: true,
+      data: persona,
+    });
+  } catch (error) {
+    console.error('❌ Library persona duplication error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getDatabaseService } from '@/lib/database/database';
+import { LibraryPersona } from '@/lib/database/storage';
+
+const UpdatePersonaSchema = z.object({
+  name: z.string().min(1).optional(),
+  description: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  profile: z.record(z.any()).optional(),
+  interests: z.array(z.object({
+    category: z.string(),
+    name: z.string(),
+    confidence: z.number().min(0).max(1).default(0.8),
+    entityId: z.string().optional(),
+    sentiment: z.enum(['like', 'dislike']).optional()
+  })).optional(),
+  audiences: z.array(z.object({
+    audienceType: z.string(),
+    audienceId: z.string(),
+    name: z.string(),
+    confidence: z.number().min(0).max(1).optional()
+  })).optional()
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ personaId: string }> }
+) {
+  try {
+    const { personaId } = await params;
+    const persona = await getDatabaseService().getLibraryPersona(personaId);
+
+    if (!persona) {
+      return NextResponse.json({
+        success: false,
+        error: 'Persona not found',
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: persona,
+    });
+  } catch (error) {
+    console.error('❌ Library persona retrieval error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ personaId: string }> }
+) {
+  try {
+    const { personaId } = await params;
+    const updates = UpdatePersonaSchema.parse(await request.json()) as Partial<LibraryPersona>;
+
+    const databaseService = getDatabaseService();
+    if (!(await databaseService.getLibraryPersona(personaId))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Persona not found',
+      }, { status: 404 });
+    }
+
+    const persona = await databaseService.updateLibraryPersona(personaId, updates);
+    return NextResponse.json({
+      success: true,
+      data: persona,
+    });
+  } catch (error) {
+    console.error('❌ Library persona update error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ personaId: string }> }
+) {
+  try {
+    const { personaId } = await params;
+    await getDatabaseService().deleteLibraryPersona(personaId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Persona deleted successfully',
+    });
+  } catch (error) {
+    console.error('❌ Library persona deletion error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
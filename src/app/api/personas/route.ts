@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getDatabaseService } from '@/lib/database/database';
+import { LibraryPersona } from '@/lib/database/storage';
+import { currentUserOwnsSession, resolveCurrentUser } from '@/lib/utils/user-identity';
+
+const CreatePersonaSchema = z.object({
+  name: z.string().min(1).optional(),
+  description: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  profile: z.record(z.any()).optional(),
+  interests: z.array(z.object({
+    category: z.string(),
+    name: z.string(),
+    confidence: z.number().min(0).max(1).default(0.8),
+    entityId: z.string().optional(),
+    sentiment: z.enum(['like', 'dislike']).optional()
+  })).optional(),
+  audiences: z.array(z.object({
+    audienceType: z.string(),
+    audienceId: z.string(),
+    name: z.string(),
+    confidence: z.number().min(0).max(1).optional()
+  })).optional(),
+  fromSessionId: z.string().optional() // Save the persona currently driving this session instead
+}).refine(body => body.name || body.fromSessionId, { message: 'name or fromSessionId is required' });
+
+// Persona library, newest first; ?tag= and ?q= narrow it down
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const personas = await getDatabaseService().listLibraryPersonas({
+      tag: searchParams.get('tag') || undefined,
+      search: searchParams.get('q') || undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        personas,
+        tags: Array.from(new Set(personas.flatMap(persona => persona.tags))).sort(),
+      },
+    });
+  } catch (error) {
+    console.error('❌ Persona library retrieval error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { fromSessionId, ...data } = CreatePersonaSchema.parse(await request.json());
+    const databaseService = getDatabaseService();
+    const user = await resolveCurrentUser();
+    if (fromSessionId && !(await currentUserOwnsSession(fromSessionId))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Session not found',
+      }, { status: 404 });
+    }
+
+    const persona = fromSessionId
+      ? await databaseService.savePersonaToLibrary(fromSessionId, data, user.id)
+      : await databaseService.createLibraryPersona({ ...data, name: data.name } as Partial<LibraryPersona> & { name: string }, user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: persona,
+    });
+  } catch (error) {
+    console.error('❌ Persona library creation error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getDatabaseService } from '@/lib/database/database';
+import { currentUserOwnsSession } from '@/lib/utils/user-identity';
+
+const AttachPersonaSchema = z.object({
+  personaId: z.string().min(1)
+});
+
+// Which persona drives this session: an attached library persona or the one learned in chat
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    if (!(await currentUserOwnsSession(sessionId, { allowUnowned: true }))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Session not found',
+      }, { status: 404 });
+    }
+
+    const databaseService = getDatabaseService();
+    const [active, persona] = await Promise.all([
+      databaseService.getActivePersona(sessionId),
+      databaseService.getPersona(sessionId)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: { ...active, persona },
+    });
+  } catch (error) {
+    console.error('❌ Active persona retrieval error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+// Switch the session to a library persona, mid-conversation if need be
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    const { personaId } = AttachPersonaSchema.parse(await request.json());
+
+    const databaseService = getDatabaseService();
+    if (!(await currentUserOwnsSession(sessionId, { allowUnowned: true }))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Session not found',
+      }, { status: 404 });
+    }
+    if (!(await databaseService.getLibraryPersona(personaId))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Persona not found',
+      }, { status: 404 });
+    }
+
+    const persona = await databaseService.attachPersona(sessionId, personaId);
+    return NextResponse.json({
+      success: true,
+      data: persona,
+    });
+  } catch (error) {
+    console.error('❌ Persona attach error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+// Back to the persona learned in this conversation
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    if (!(await currentUserOwnsSession(sessionId, { allowUnowned: true }))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Session not found',
+      }, { status: 404 });
+    }
+
+    const persona = await getDatabaseService().detachPersona(sessionId);
+
+    return NextResponse.json({
+      success: true,
+      data: persona,
+    });
+  } catch (error) {
+    console.error('❌ Persona detach error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDatabaseService } from '@/lib/database/database';
+import { currentUserOwnsSession } from '@/lib/utils/user-identity';
 
 export async function GET(
   request: NextRequest,
@@ -16,7 +17,9 @@ export async function GET(
     }
 
     const databaseService = getDatabaseService();
-    const session = await databaseService.getSessionWithDetails(sessionId);
+    const session = await currentUserOwnsSession(sessionId, { allowUnowned: true })
+      ? await databaseService.getSessionWithDetails(sessionId)
+      : null;
     
     if (!session) {
       return NextResponse.json({
@@ -33,6 +36,7 @@ export async function GET(
         apiCallCount: session.apiCalls.length,
         tokenUsageCount: session.tokenUsage.length,
         extractionCount: session.structuredExtractions.length,
+        intentClassificationCount: session.intentClassifications?.length || 0,
       },
     });
 
@@ -59,6 +63,13 @@ export async function DELETE(
       }, { status: 400 });
     }
 
+    if (!(await currentUserOwnsSession(sessionId, { allowUnowned: true }))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Session not found',
+      }, { status: 404 });
+    }
+
     const databaseService = getDatabaseService();
     await databaseService.deleteChatSession(sessionId);
 
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getDatabaseService } from '@/lib/database/database';
+
+// POST /api/sessions/migrate - one-shot upgrade of sessions stored in an older storage layout.
+// Safe to re-run: already migrated sessions are skipped.
+export async function POST() {
+  try {
+    const databaseService = getDatabaseService();
+    const result = await databaseService.migrateStorage();
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('❌ Storage migration error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
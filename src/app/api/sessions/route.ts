@@ -1,32 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDatabaseService } from '../../../lib/database/database';
+import { resolveCurrentUser } from '../../../lib/utils/user-identity';
+
+const MAX_PAGE_SIZE = 100;
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const limit = parseInt(searchParams.get('limit') || '10');
-    const offset = parseInt(searchParams.get('offset') || '0');
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), MAX_PAGE_SIZE);
+    const cursor = searchParams.get('cursor');
+    const sort = searchParams.get('sort') === 'activity' ? 'activity' : 'recent';
+    const search = searchParams.get('q') || undefined;
+    // Only ever the current user's own sessions
+    const userId = (await resolveCurrentUser()).id;
 
-          // Get sessions with entity counts
-      const databaseService = getDatabaseService();
-      const sessions = await databaseService.getSessionsWithEntityCounts();
-    
-    // Apply pagination
-    const paginatedSessions = sessions.slice(offset, offset + limit);
+    const databaseService = getDatabaseService();
+    const page = await databaseService.getSessionSummaries({ limit, cursor, sort, search, userId });
     
     return NextResponse.json({
       success: true,
       data: {
-        sessions: paginatedSessions,
+        sessions: page.sessions,
         pagination: {
-          total: sessions.length,
+          total: page.total,
           limit,
-          offset,
-          hasMore: offset + limit < sessions.length,
+          sort,
+          nextCursor: page.nextCursor,
+          hasMore: page.nextCursor !== null,
         },
       },
     });
-
   } catch (error) {
     console.error('❌ Sessions retrieval error:', error);
     return NextResponse.json({
@@ -39,11 +42,12 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { personaId, debugMode = false, personaData } = body;
+    const { personaId, debugMode = false, personaData, saveToLibrary = false, tags } = body;
 
-          // Create new session
+          // Create new session, owned by the current user
             const databaseService = getDatabaseService();
-            const session = await databaseService.createChatSession(personaId, debugMode);
+            const user = await resolveCurrentUser();
+            const session = await databaseService.createChatSession(personaId, debugMode, user.id);
 
     // If persona data is provided, create a persona with interests
     if (personaData) {
@@ -58,13 +62,11 @@ export async function POST(request: NextRequest) {
         };
         
                   const databaseService = getDatabaseService();
-          const persona = await databaseService.createPersona(
-          session.id,
-          demographics,
-          personaData.name,
-          personaData.city,
-          undefined // gender will be inferred
-        );
+          const persona = await databaseService.createPersona(session.id, {
+          name: personaData.name,
+          location: personaData.city,
+          demographics // gender will be inferred
+        });
         
         // Create initial persona message and process it through chat
         if (personaData.bio) {
@@ -107,6 +109,7 @@ export async function POST(request: NextRequest) {
                   name: interest.name,
                   confidence: interest.confidence || 0.8,
                   source: 'persona-creation',
+                  sentiment: interest.sentiment,
                   metadata: { extractedFrom: 'persona-data' }
                 });
                 console.log(`✅ Stored interest: ${interest.name} (${interest.category})`);
@@ -131,6 +134,16 @@ export async function POST(request: NextRequest) {
         }
         
         console.log('✅ Persona created successfully');
+
+        // Keep the new persona in the library so other sessions can use it too
+        if (saveToLibrary) {
+          const libraryPersona = await databaseService.savePersonaToLibrary(session.id, {
+            name: personaData.name,
+            description: personaData.bio,
+            tags: Array.isArray(tags) ? tags : []
+          }, user.id);
+          await databaseService.attachPersona(session.id, libraryPersona.id);
+        }
       } catch (error) {
         console.error('❌ Error creating persona:', error);
         // Continue with session creation even if persona creation fails
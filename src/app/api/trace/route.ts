@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabaseService } from '@/lib/database/database';
+import { encodeSSE, SSE_HEADERS } from '@/lib/utils/sse';
+import { subscribeToTrace, TraceEvent } from '@/lib/utils/trace';
+import { currentUserOwnsSession } from '@/lib/utils/user-identity';
+
+const KEEP_ALIVE_MS = 15000;
+
+// GET /api/trace?sessionId=...            live agent trace events for a session (SSE)
+// GET /api/trace?sessionId=...&messageId=... replay the trace persisted with one message, then close
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const sessionId = searchParams.get('sessionId');
+  const messageId = searchParams.get('messageId');
+
+  if (!sessionId) {
+    return NextResponse.json({
+      success: false,
+      error: 'sessionId is required',
+    }, { status: 400 });
+  }
+
+  // Traces carry prompts, persona data and tool payloads, so only the session's owner sees them
+  if (!(await currentUserOwnsSession(sessionId))) {
+    return NextResponse.json({
+      success: false,
+      error: 'Session not found',
+    }, { status: 404 });
+  }
+
+  if (messageId) {
+    const databaseService = getDatabaseService();
+    const trace = await databaseService.getMessageTrace(messageId);
+
+    if (!trace || trace.sessionId !== sessionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Trace not found',
+      }, { status: 404 });
+    }
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encodeSSE('ready', { sessionId, messageId, traceId: trace.traceId, replay: true }));
+        (trace.events || []).forEach((event: TraceEvent) => controller.enqueue(encodeSSE('trace', event)));
+        controller.enqueue(encodeSSE('end', { count: trace.events?.length || 0 }));
+        controller.close();
+      },
+    });
+
+    return new Response(stream, { headers: SSE_HEADERS });
+  }
+
+  let cleanup = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        try {
+          controller.enqueue(encodeSSE(event, data));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const unsubscribe = subscribeToTrace(sessionId, event => send('trace', event));
+      const keepAlive = setInterval(() => send('ping', { timestamp: new Date().toISOString() }), KEEP_ALIVE_MS);
+
+      cleanup = () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+      };
+
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      send('ready', { sessionId, replay: false });
+      console.log('📡 Trace subscriber connected for session:', sessionId);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
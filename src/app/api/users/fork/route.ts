@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getDatabaseService } from '@/lib/database/database';
+import { resolveCurrentUser, setCurrentUser } from '@/lib/utils/user-identity';
+
+const ForkRequestSchema = z.object({
+  copyProfile: z.boolean().optional() // Keep name, location, ... but none of the learned interests
+});
+
+// Start over with a fresh persona; the previous user and its sessions are kept
+export async function POST(request: NextRequest) {
+  try {
+    const { copyProfile = false } = ForkRequestSchema.parse(await request.json().catch(() => ({})));
+
+    const current = await resolveCurrentUser();
+    const fork = await getDatabaseService().forkUser(current.id, copyProfile);
+    await setCurrentUser(fork.id);
+
+    return NextResponse.json({
+      success: true,
+      data: fork,
+    });
+  } catch (error) {
+    console.error('❌ User fork error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
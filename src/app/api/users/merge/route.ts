@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getDatabaseService } from '@/lib/database/database';
+import { resolveCurrentUser } from '@/lib/utils/user-identity';
+
+const MergeRequestSchema = z.object({
+  sourceUserId: z.string().min(1),
+  token: z.string().min(1) // From POST /api/users/merge/token in the source user's browser
+});
+
+// Fold another user (e.g. one from a different browser) into the current one
+export async function POST(request: NextRequest) {
+  try {
+    const { sourceUserId, token } = MergeRequestSchema.parse(await request.json());
+
+    const databaseService = getDatabaseService();
+    const current = await resolveCurrentUser();
+    if (!(await databaseService.redeemMergeToken(sourceUserId, token))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid or expired merge token',
+      }, { status: 403 });
+    }
+
+    const result = await databaseService.mergeUsers(sourceUserId, current.id);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('❌ User merge error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
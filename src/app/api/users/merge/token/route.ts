@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getDatabaseService } from '@/lib/database/database';
+import { resolveCurrentUser } from '@/lib/utils/user-identity';
+
+// Issue a merge token for the current user; paste it (with the user id) into the other browser to merge this user there
+export async function POST() {
+  try {
+    const user = await resolveCurrentUser();
+    const { token, expiresAt } = await getDatabaseService().issueMergeToken(user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { userId: user.id, token, expiresAt },
+    });
+  } catch (error) {
+    console.error('❌ Merge token error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
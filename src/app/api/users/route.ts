@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getDatabaseService } from '@/lib/database/database';
+import { resolveCurrentUser } from '@/lib/utils/user-identity';
+
+// The current user with everything their sessions have learned
+export async function GET() {
+  try {
+    const user = await resolveCurrentUser();
+    const profile = await getDatabaseService().getUserProfile(user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: profile,
+    });
+  } catch (error) {
+    console.error('❌ User retrieval error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
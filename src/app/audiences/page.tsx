@@ -0,0 +1,258 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { AudienceCategory, AudienceMapping } from '@/lib/agents/audience-discovery';
+import type { AudienceReportResult } from '@/lib/agents/audience-report';
+import { ENTITY_TYPE_DEFINITIONS, EntityType } from '@/lib/qloo/entity-types';
+
+const DEFAULT_ENTITY_TYPES: EntityType[] = ['urn:entity:brand', 'urn:entity:place', 'urn:entity:artist', 'urn:entity:movie'];
+
+const formatScore = (score: number | null) => score === null ? '—' : `${Math.round(score * 100)}%`;
+
+// Plain Markdown so the report can be pasted straight into a brief or deck
+function reportToMarkdown(report: AudienceReportResult): string {
+  const lines = [
+    `# What ${report.audience.name} like${report.location ? ` in ${report.location}` : ''}`,
+    '',
+    report.themes.length ? `**Themes:** ${report.themes.map(theme => theme.name).join(', ')}` : '',
+    ''
+  ];
+  report.sections.forEach(section => {
+    lines.push(`## ${section.label}`);
+    section.entities.forEach((entity, index) => lines.push(`${index + 1}. ${entity.name} (${formatScore(entity.score)})`));
+    lines.push('');
+  });
+  return lines.join('\n');
+}
+
+export default function AudiencesPage() {
+  const [categories, setCategories] = useState<AudienceCategory[]>([]);
+  const [personaAudiences, setPersonaAudiences] = useState<AudienceMapping[]>([]);
+  const [activeCategory, setActiveCategory] = useState<string>('');
+  const [filter, setFilter] = useState('');
+  const [selected, setSelected] = useState<AudienceMapping | null>(null);
+  const [entityTypes, setEntityTypes] = useState<string[]>(DEFAULT_ENTITY_TYPES);
+  const [location, setLocation] = useState('');
+  const [report, setReport] = useState<AudienceReportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const loadAudiences = async () => {
+      try {
+        const sessionId = new URLSearchParams(window.location.search).get('sessionId');
+        const response = await fetch(`/api/audiences${sessionId ? `?sessionId=${encodeURIComponent(sessionId)}` : ''}`);
+        const data = await response.json();
+        if (data.success) {
+          setCategories(data.data.categories);
+          setPersonaAudiences(data.data.personaAudiences);
+          setActiveCategory(data.data.categories.find((category: AudienceCategory) => category.audiences.length > 0)?.type || '');
+        }
+      } catch (err) {
+        console.error('Failed to load audiences:', err);
+      }
+    };
+    loadAudiences();
+  }, []);
+
+  const toggleEntityType = (value: string) => {
+    setEntityTypes(prev => prev.includes(value) ? prev.filter(other => other !== value) : [...prev, value]);
+  };
+
+  const handleGenerate = async () => {
+    if (!selected || entityTypes.length === 0) return;
+
+    setIsGenerating(true);
+    setError(null);
+    setCopied(false);
+    try {
+      const response = await fetch('/api/audiences/report', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          audienceId: selected.audienceId,
+          entityTypes,
+          location: location.trim() || undefined
+        })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setReport(data.data);
+      } else {
+        setError(data.error || 'Report failed');
+      }
+    } catch (err) {
+      console.error('Audience report failed:', err);
+      setError('Report failed. Please try again.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const copyMarkdown = async () => {
+    if (!report) return;
+    await navigator.clipboard.writeText(reportToMarkdown(report));
+    setCopied(true);
+  };
+
+  const visibleAudiences = (categories.find(category => category.type === activeCategory)?.audiences || [])
+    .filter(audience => !filter.trim() || audience.name.toLowerCase().includes(filter.trim().toLowerCase()));
+
+  const audienceButton = (audience: AudienceMapping, detail?: string) => (
+    <button
+      key={audience.audienceId}
+      onClick={() => setSelected(audience)}
+      className={`text-left p-3 rounded-xl border text-sm ${
+        selected?.audienceId === audience.audienceId ? 'border-blue-500 bg-blue-50' : 'border-slate-200 hover:bg-slate-50'
+      }`}
+    >
+      <span className="block font-medium text-slate-900">{audience.name}</span>
+      {detail && <span className="block text-xs text-slate-500">{detail}</span>}
+    </button>
+  );
+
+  return (
+    <div className="min-h-screen bg-slate-50 px-6 py-8">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-slate-900">👥 Audience Taste Reports</h1>
+            <p className="text-slate-600">Pick an audience and see what it likes across domains</p>
+          </div>
+          <Link href="/" className="text-sm text-blue-600 hover:text-blue-700 underline">
+            Back to chat
+          </Link>
+        </div>
+
+        <div className="bg-white rounded-2xl p-6 border border-slate-200 shadow-sm space-y-4">
+          {personaAudiences.length > 0 && (
+            <div>
+              <p className="text-sm font-medium text-slate-900 mb-2">🎭 Your persona&apos;s audiences</p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-2">
+                {personaAudiences.map(audience => audienceButton(audience, `${Math.round(audience.confidence * 100)}% match`))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <p className="text-sm font-medium text-slate-900 mb-2">📚 Browse all audiences</p>
+            <div className="flex flex-wrap gap-2 mb-3">
+              {categories.filter(category => category.audiences.length > 0).map(category => (
+                <button
+                  key={category.type}
+                  onClick={() => setActiveCategory(category.type)}
+                  title={category.description}
+                  className={`px-3 py-1 rounded-full text-xs capitalize ${
+                    activeCategory === category.type ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                  }`}
+                >
+                  {category.name} ({category.audiences.length})
+                </button>
+              ))}
+            </div>
+            <input
+              type="text"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              className="w-full mb-3 px-4 py-2 border border-slate-300 rounded-xl focus:outline-none focus:border-slate-900 focus:ring-0 text-sm text-slate-900 placeholder-slate-500"
+              placeholder="Filter audiences..."
+            />
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-2 max-h-64 overflow-y-auto">
+              {visibleAudiences.map(audience => audienceButton(audience))}
+              {categories.length === 0 && <p className="text-sm text-slate-500">Loading audiences...</p>}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            {ENTITY_TYPE_DEFINITIONS.map(definition => (
+              <label key={definition.urn} className="flex items-center gap-1 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={entityTypes.includes(definition.urn)}
+                  onChange={() => toggleEntityType(definition.urn)}
+                />
+                {definition.icon} {definition.pluralName}
+              </label>
+            ))}
+            <input
+              type="text"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              className="px-3 py-1 border border-slate-300 rounded-lg text-sm text-slate-900 placeholder-slate-500"
+              placeholder="Location (optional)"
+            />
+          </div>
+
+          <button
+            onClick={handleGenerate}
+            disabled={isGenerating || !selected || entityTypes.length === 0}
+            className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white px-6 py-3 rounded-xl font-bold transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isGenerating ? 'Building report...' : selected ? `Report for ${selected.name}` : 'Pick an audience'}
+          </button>
+          {error && <p className="text-sm text-red-600">❌ {error}</p>}
+        </div>
+
+        {report && (
+          <>
+            <div className="bg-white rounded-2xl p-6 border border-slate-200 shadow-sm">
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-lg font-semibold text-slate-900">
+                  What {report.audience.name} like{report.location ? ` in ${report.location}` : ''}
+                </h2>
+                <button onClick={copyMarkdown} className="text-sm text-blue-600 hover:text-blue-700">
+                  {copied ? '✅ Copied' : '📋 Copy as Markdown'}
+                </button>
+              </div>
+              {report.themes.length === 0 ? (
+                <p className="text-sm text-slate-500">No shared themes across these domains.</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {report.themes.map(theme => (
+                    <span key={theme.name} className="px-3 py-1 rounded-full bg-slate-100 text-sm text-slate-700" title={theme.entityTypes.join(', ')}>
+                      {theme.name}{theme.entityTypes.length > 1 ? ` · ${theme.entityTypes.length} domains` : ''}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${Math.min(report.sections.length, 4)}, minmax(0, 1fr))` }}>
+              {report.sections.map(section => (
+                <div key={section.entityType} className="bg-white rounded-2xl p-4 border border-slate-200 shadow-sm">
+                  <h3 className="font-semibold text-slate-900 mb-3">{section.label}</h3>
+                  {section.error ? (
+                    <p className="text-sm text-red-600">❌ {section.error}</p>
+                  ) : section.entities.length === 0 ? (
+                    <p className="text-sm text-slate-500">No results for this audience.</p>
+                  ) : (
+                    <ol className="space-y-2">
+                      {section.entities.map((entity, index) => (
+                        <li key={entity.id} className="p-2 rounded-lg text-sm bg-slate-50 border border-slate-200">
+                          <div className="flex justify-between gap-2">
+                            <span className="font-medium text-slate-900">{index + 1}. {entity.name}</span>
+                            <span className="text-slate-600">{formatScore(entity.score)}</span>
+                          </div>
+                          {entity.score !== null && (
+                            <div className="mt-1 h-1.5 rounded-full bg-slate-200">
+                              <div className="h-1.5 rounded-full bg-blue-500" style={{ width: `${Math.min(entity.score, 1) * 100}%` }} />
+                            </div>
+                          )}
+                          {entity.tags.length > 0 && (
+                            <p className="mt-1 text-xs text-slate-500">{entity.tags.join(' · ')}</p>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
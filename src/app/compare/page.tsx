@@ -0,0 +1,237 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { PersonaComparisonResult } from '@/lib/agents/persona-comparison';
+import type { LibraryPersona, SessionSummary } from '@/lib/database/storage';
+
+interface PersonaOption {
+  type: 'library' | 'session';
+  id: string;
+  name: string;
+  detail: string;
+}
+
+const MAX_PERSONAS = 4;
+
+const formatScore = (score: number | null) => score === null ? '—' : `${Math.round(score * 100)}%`;
+
+export default function ComparePage() {
+  const [options, setOptions] = useState<PersonaOption[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [query, setQuery] = useState('');
+  const [result, setResult] = useState<PersonaComparisonResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        const [personasResponse, sessionsResponse] = await Promise.all([
+          fetch('/api/personas'),
+          fetch('/api/sessions?limit=20')
+        ]);
+        const personas: LibraryPersona[] = personasResponse.ok ? (await personasResponse.json()).data.personas : [];
+        const sessions: SessionSummary[] = sessionsResponse.ok ? (await sessionsResponse.json()).data.sessions : [];
+
+        setOptions([
+          ...personas.map(persona => ({
+            type: 'library' as const,
+            id: persona.id,
+            name: persona.name,
+            detail: `📚 ${persona.interests.length} interests${persona.tags.length ? ` · ${persona.tags.join(', ')}` : ''}`
+          })),
+          ...sessions.map(session => ({
+            type: 'session' as const,
+            id: session.id,
+            name: session.personaName || session.title || `Session ${session.id.slice(0, 8)}`,
+            detail: `💬 ${session.title || 'Untitled chat'}`
+          }))
+        ]);
+      } catch (err) {
+        console.error('Failed to load personas for comparison:', err);
+      }
+    };
+    loadOptions();
+  }, []);
+
+  const optionKey = (option: PersonaOption) => `${option.type}:${option.id}`;
+
+  const toggleOption = (key: string) => {
+    setSelected(prev => prev.includes(key)
+      ? prev.filter(other => other !== key)
+      : prev.length < MAX_PERSONAS ? [...prev, key] : prev);
+  };
+
+  const handleCompare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim() || selected.length < 2) return;
+
+    setIsComparing(true);
+    setError(null);
+    try {
+      const personas = selected.map(key => {
+        const separator = key.indexOf(':');
+        return { type: key.slice(0, separator), id: key.slice(separator + 1) };
+      });
+      const response = await fetch('/api/compare', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query, personas })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setResult(data.data);
+      } else {
+        setError(data.error || 'Comparison failed');
+      }
+    } catch (err) {
+      console.error('Comparison failed:', err);
+      setError('Comparison failed. Please try again.');
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const columnName = (key: string) => result?.columns.find(column => column.key === key)?.persona.name || key;
+
+  return (
+    <div className="min-h-screen bg-slate-50 px-6 py-8">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-slate-900">⚖️ Compare Personas</h1>
+            <p className="text-slate-600">One query, several taste profiles, side by side</p>
+          </div>
+          <Link href="/" className="text-sm text-blue-600 hover:text-blue-700 underline">
+            Back to chat
+          </Link>
+        </div>
+
+        <form onSubmit={handleCompare} className="bg-white rounded-2xl p-6 border border-slate-200 shadow-sm space-y-4">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="w-full px-4 py-3 border border-slate-300 rounded-xl focus:outline-none focus:border-slate-900 focus:ring-0 text-slate-900 placeholder-slate-500"
+            placeholder="e.g. Recommend restaurants in Krakow"
+          />
+
+          <div>
+            <p className="text-sm font-medium text-slate-900 mb-2">
+              Personas ({selected.length}/{MAX_PERSONAS}, pick at least 2)
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-2 max-h-64 overflow-y-auto">
+              {options.map(option => (
+                <label
+                  key={optionKey(option)}
+                  className={`flex items-start gap-2 p-3 rounded-xl border cursor-pointer text-sm ${
+                    selected.includes(optionKey(option)) ? 'border-blue-500 bg-blue-50' : 'border-slate-200 hover:bg-slate-50'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(optionKey(option))}
+                    onChange={() => toggleOption(optionKey(option))}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="block font-medium text-slate-900">{option.name}</span>
+                    <span className="block text-xs text-slate-500 truncate">{option.detail}</span>
+                  </span>
+                </label>
+              ))}
+              {options.length === 0 && (
+                <p className="text-sm text-slate-500">No personas yet. Create one or save a chat to the library first.</p>
+              )}
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            disabled={isComparing || !query.trim() || selected.length < 2}
+            className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white px-6 py-3 rounded-xl font-bold transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isComparing ? 'Comparing...' : 'Compare'}
+          </button>
+          {error && <p className="text-sm text-red-600">❌ {error}</p>}
+        </form>
+
+        {result && (
+          <>
+            <div className="bg-white rounded-2xl p-6 border border-slate-200 shadow-sm">
+              <h2 className="text-lg font-semibold text-slate-900 mb-3">🤝 Overlap</h2>
+              <div className="flex flex-wrap gap-3 mb-4 text-sm text-slate-600">
+                {result.similarity.map(pair => (
+                  <span key={`${pair.a}|${pair.b}`} className="px-3 py-1 rounded-full bg-slate-100">
+                    {columnName(pair.a)} ↔ {columnName(pair.b)}: {Math.round(pair.jaccard * 100)}% shared
+                  </span>
+                ))}
+              </div>
+              {result.overlap.length === 0 ? (
+                <p className="text-sm text-slate-500">No entity was recommended to more than one persona.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-slate-500">
+                      <th className="py-1 pr-4">Entity</th>
+                      {result.columns.map(column => (
+                        <th key={column.key} className="py-1 pr-4">{column.persona.name}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.overlap.map(entity => (
+                      <tr key={entity.id} className="border-t border-slate-100">
+                        <td className="py-1 pr-4 font-medium text-slate-900">{entity.name}</td>
+                        {result.columns.map(column => (
+                          <td key={column.key} className="py-1 pr-4 text-slate-700">{formatScore(entity.scores[column.key])}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${result.columns.length}, minmax(0, 1fr))` }}>
+              {result.columns.map(column => (
+                <div key={column.key} className="bg-white rounded-2xl p-4 border border-slate-200 shadow-sm">
+                  <h3 className="font-semibold text-slate-900">{column.persona.name}</h3>
+                  <p className="text-xs text-slate-500 mb-3">
+                    {column.persona.interestCount} interests · {column.signals.entitySignals.length} entity signals · {column.uniqueEntityIds.length} unique results
+                  </p>
+                  {column.entities.length === 0 ? (
+                    <p className="text-sm text-slate-500 whitespace-pre-wrap">{column.response}</p>
+                  ) : (
+                    <ol className="space-y-2">
+                      {column.entities.map(entity => (
+                        <li
+                          key={entity.id}
+                          className={`p-2 rounded-lg text-sm ${entity.sharedWith > 0 ? 'bg-green-50 border border-green-200' : 'bg-purple-50 border border-purple-200'}`}
+                        >
+                          <div className="flex justify-between gap-2">
+                            <span className="font-medium text-slate-900">{entity.rank}. {entity.name}</span>
+                            <span className="text-slate-600">{formatScore(entity.score)}</span>
+                          </div>
+                          {entity.score !== null && (
+                            <div className="mt-1 h-1.5 rounded-full bg-slate-200">
+                              <div className="h-1.5 rounded-full bg-blue-500" style={{ width: `${Math.min(entity.score, 1) * 100}%` }} />
+                            </div>
+                          )}
+                          <p className="mt-1 text-xs text-slate-500">
+                            {entity.sharedWith > 0 ? `🤝 Also for ${entity.sharedWith} other persona${entity.sharedWith > 1 ? 's' : ''}` : '✨ Only this persona'}
+                          </p>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
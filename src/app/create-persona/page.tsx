@@ -11,6 +11,8 @@ export default function CreatePersonaPage() {
     city: '',
     bio: ''
   });
+  const [saveToLibrary, setSaveToLibrary] = useState(false);
+  const [libraryTags, setLibraryTags] = useState('');
   const [isCreatingPersona, setIsCreatingPersona] = useState(false);
 
   const generateRandomBio = () => {
@@ -38,12 +40,21 @@ export default function CreatePersonaPage() {
     setIsCreatingPersona(true);
 
     try {
+      // A new twin starts from a fresh user so it doesn't inherit the current profile
+      await fetch('/api/users/fork', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      });
+
       // Create new session with persona data
       const response = await fetch('/api/sessions', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
-          personaData: personaForm
+          personaData: personaForm,
+          saveToLibrary,
+          tags: libraryTags.split(',').map(tag => tag.trim()).filter(Boolean)
         })
       });
       
@@ -162,6 +173,26 @@ export default function CreatePersonaPage() {
                   🎲 Roll the dice to generate a random bio
                 </button>
               </div>
+
+              <div>
+                <label className="flex items-center gap-2 text-sm font-medium text-slate-900">
+                  <input
+                    type="checkbox"
+                    checked={saveToLibrary}
+                    onChange={(e) => setSaveToLibrary(e.target.checked)}
+                  />
+                  📚 Save to persona library
+                </label>
+                {saveToLibrary && (
+                  <input
+                    type="text"
+                    value={libraryTags}
+                    onChange={(e) => setLibraryTags(e.target.value)}
+                    className="mt-2 w-full px-4 py-3 border border-slate-300 rounded-xl focus:outline-none focus:border-slate-900 focus:ring-0 text-slate-900 placeholder-slate-500 bg-white/80"
+                    placeholder="Tags, comma separated (e.g. vegan, krakow)"
+                  />
+                )}
+              </div>
               
               <div className="flex space-x-4 pt-4">
                 <button
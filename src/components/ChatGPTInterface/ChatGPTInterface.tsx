@@ -6,17 +6,24 @@ import { ChatMessage as ChatMessageComponent } from './ChatMessage';
 import QlooEntityHyperlinks from '../QlooEntityHyperlinks';
 import VisualChatElements from '../VisualChatElements';
 import EntityScorePanel from '../EntityScorePanel';
+import ItineraryPlan from '../ItineraryPlan';
 import { PersonaSidebar } from '../PersonaSidebar';
+import { DebugPanel } from '../DebugPanel';
 import { TokenCounter } from '../TokenCounter/TokenCounter';
 import { AGENT_CAPABILITIES } from '../../lib/agents/agent-capabilities';
 import { ChatMessage } from '../../types';
+import { readSSEStream } from '../../lib/utils/sse';
 
 interface Session {
   id: string;
-  createdAt: Date;
+  createdAt?: Date;
   updatedAt: Date;
   personaId?: string;
   personaName?: string;
+  title?: string | null;
+  lastMessagePreview?: string | null;
+  summary?: string | null;
+  entityCount?: number;
   debugMode?: boolean;
   messageCount?: number;
   apiCallCount?: number;
@@ -25,6 +32,9 @@ interface Session {
   totalCost?: number;
 }
 
+const SESSION_PAGE_SIZE = 20;
+const SESSION_SEARCH_DEBOUNCE_MS = 300;
+
 interface ChatGPTInterfaceProps {
   sessionId?: string;
   initialMessages?: ChatMessage[];
@@ -35,9 +45,15 @@ export default function ChatGPTInterface({
   initialMessages = [] 
 }: ChatGPTInterfaceProps) {
   const [sessions, setSessions] = useState<Session[]>([]);
+  const [sessionSearch, setSessionSearch] = useState('');
+  const [sessionSort, setSessionSort] = useState<'recent' | 'activity'>('recent');
+  const [sessionsCursor, setSessionsCursor] = useState<string | null>(null);
+  const [isLoadingSessions, setIsLoadingSessions] = useState(false);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(sessionId || null);
   const [showCapabilities, setShowCapabilities] = useState(!sessionId);
   const [showPersonaSidebar, setShowPersonaSidebar] = useState(false);
+  const [showDebugPanel, setShowDebugPanel] = useState(false);
+  const [traceMessageId, setTraceMessageId] = useState<string | null>(null);
   const [showPersonaCreation, setShowPersonaCreation] = useState(false);
   const [personaForm, setPersonaForm] = useState({
     name: '',
@@ -72,15 +88,30 @@ export default function ChatGPTInterface({
     setInput('');
     setAiLoading(true);
 
+    // Placeholder assistant message that fills in as the stream arrives
+    const streamingId = `streaming-${Date.now()}`;
+    const updateStreamingMessage = (update: (message: any) => any) => {
+      setMessages(prev => prev.map(m => (m.id === streamingId ? update(m) : m)));
+    };
+    setMessages(prev => [...prev, {
+      id: streamingId,
+      role: 'assistant' as const,
+      content: '',
+      timestamp: new Date().toISOString(),
+      streaming: true,
+      currentStep: undefined,
+      metadata: {},
+    }]);
+
     try {
-      console.log('🚀 Sending chat request...');
+      console.log('🚀 Sending streaming chat request...');
       const response = await fetch('/api/chat', {
-        method: 'POST',
+        method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          messages: [...messages, userMessage],
+          messages: [...messages, userMessage].map(({ role, content }) => ({ role, content })),
           sessionId: currentSessionId,
         }),
       });
@@ -89,60 +120,90 @@ export default function ChatGPTInterface({
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
-      console.log('📡 Chat response received, reading text...');
-      const assistantMessage = await response.text();
-      console.log('✅ Chat response text length:', assistantMessage.length);
-      
-      // Reload messages from database to get proper IDs
-      if (currentSessionId) {
-        await loadSession(currentSessionId);
-      } else {
-        // Fallback to local state if no session
-        console.log('⚠️ Chat interface: No session available, using local state fallback');
-        setMessages(prev => [...prev, {
-          id: (Date.now() + 1).toString(),
-          role: 'assistant' as const,
-          content: assistantMessage,
-          timestamp: new Date().toISOString(),
-        }]);
+      let streamSessionId = currentSessionId;
+      await readSSEStream(response, ({ event, data }) => {
+        switch (event) {
+          case 'session':
+            streamSessionId = data.sessionId;
+            // Swap the optimistic id for the stored one so the message can be deleted later
+            setMessages(prev => prev.map(m => (m.id === userMessage.id ? { ...m, id: data.userMessageId } : m)));
+            break;
+          case 'step':
+            updateStreamingMessage(m => ({ ...m, currentStep: data.step }));
+            break;
+          case 'text':
+            updateStreamingMessage(m => ({ ...m, content: m.content + data.delta }));
+            break;
+          case 'entities':
+            updateStreamingMessage(m => ({ ...m, metadata: { ...m.metadata, entities: data.entities } }));
+            break;
+          case 'metadata':
+            updateStreamingMessage(m => ({ ...m, metadata: { ...m.metadata, lastResponseMetadata: data } }));
+            break;
+          case 'done':
+            // The final text is authoritative (e.g. an error message after a partial stream)
+            updateStreamingMessage(m => ({ ...m, id: data.messageId, content: data.text, streaming: false }));
+            break;
+          case 'error':
+            throw new Error(data.message);
+        }
+      });
+
+      if (streamSessionId && streamSessionId !== currentSessionId) {
+        setCurrentSessionId(streamSessionId);
+        await fetchSessions();
       }
 
       console.log('✅ Chat message finished');
     } catch (error) {
       console.error('❌ Chat error:', error);
-      setMessages(prev => [...prev, {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant' as const,
-        content: 'Sorry, I encountered an error. Please try again.',
-        timestamp: new Date().toISOString(),
-      }]);
+      updateStreamingMessage(m => ({
+        ...m,
+        content: m.content || 'Sorry, I encountered an error. Please try again.',
+        streaming: false,
+      }));
     } finally {
       setAiLoading(false);
     }
   };
 
-  // Load sessions
-  const fetchSessions = async () => {
+  // Load sessions; with a cursor the next page is appended to the list
+  const fetchSessions = async (cursor?: string) => {
+    setIsLoadingSessions(true);
     try {
+      const params = new URLSearchParams({ limit: String(SESSION_PAGE_SIZE), sort: sessionSort });
+      if (sessionSearch.trim()) params.append('q', sessionSearch.trim());
+      if (cursor) params.append('cursor', cursor);
+
       console.log('🔄 Fetching sessions...');
-      const response = await fetch('/api/sessions');
+      const response = await fetch(`/api/sessions?${params.toString()}`);
       console.log('📡 Response status:', response.status);
       const result = await response.json();
-      console.log('📦 Sessions response:', result);
       
       if (result.success && result.data && result.data.sessions) {
         console.log('✅ Found sessions:', result.data.sessions.length);
-        setSessions(result.data.sessions);
+        setSessions(prev => cursor ? [...prev, ...result.data.sessions] : result.data.sessions);
+        setSessionsCursor(result.data.pagination?.nextCursor || null);
       } else {
         console.error('❌ Invalid sessions response format:', result);
-        setSessions([]);
+        if (!cursor) setSessions([]);
+        setSessionsCursor(null);
       }
     } catch (error) {
       console.error('❌ Failed to fetch sessions:', error);
-      setSessions([]);
+      if (!cursor) setSessions([]);
+      setSessionsCursor(null);
+    } finally {
+      setIsLoadingSessions(false);
     }
   };
 
+  // Refetch from the first page when search or sort change; debounced so typing doesn't flood the API
+  useEffect(() => {
+    const timeout = setTimeout(() => fetchSessions(), SESSION_SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [sessionSearch, sessionSort]);
+
   // Load session messages
   const loadSession = async (sessionId: string) => {
     try {
@@ -200,18 +261,11 @@ export default function ChatGPTInterface({
 
   const createNewChat = async () => {
     try {
-      // Create a new session with the same persona as current session
+      // The new session picks up the persona from the user's profile
       const response = await fetch('/api/sessions', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          personaData: {
-            name: 'Guest',
-            age: '25',
-            city: 'Unknown',
-            bio: 'New chat session'
-          }
-        })
+        body: JSON.stringify({})
       });
       
       if (response.ok) {
@@ -258,6 +312,13 @@ export default function ChatGPTInterface({
     setIsCreatingPersona(true);
 
     try {
+      // A new twin starts from a fresh user so it doesn't inherit the current profile
+      await fetch('/api/users/fork', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      });
+
       // Create new session with persona data
       const response = await fetch('/api/sessions', {
         method: 'POST',
@@ -305,7 +366,6 @@ export default function ChatGPTInterface({
   };
 
   useEffect(() => {
-    fetchSessions();
     if (sessionId) {
       loadSession(sessionId);
     }
@@ -320,7 +380,24 @@ export default function ChatGPTInterface({
     const metadata = message.metadata;
     const entities = metadata?.entities || [];
     const lastResponseMetadata = metadata?.lastResponseMetadata;
+    const { streaming: isStreaming, currentStep } = message as ChatMessage & { streaming?: boolean; currentStep?: string };
     
+    const rejectRecommendation = async (entity: { id: string; name: string }) => {
+      try {
+        await fetch('/api/persona', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            sessionId: currentSessionId,
+            action: 'rejectRecommendation',
+            data: { recommendationName: entity.name, entityId: entity.id }
+          })
+        });
+      } catch (error) {
+        console.error('Error rejecting recommendation:', error);
+      }
+    };
+
     const deleteMessage = async (messageId: string) => {
       try {
         const response = await fetch(`/api/chat/messages/${messageId}`, {
@@ -351,14 +428,36 @@ export default function ChatGPTInterface({
           >
             🗑️
           </button>
+          {!isUser && !isStreaming && (
+            <button
+              onClick={() => {
+                setTraceMessageId(message.id);
+                setShowDebugPanel(true);
+              }}
+              className="absolute top-2 right-8 opacity-0 group-hover:opacity-100 transition-opacity duration-200 text-white/60 hover:text-blue-300 text-sm"
+              title="Show agent trace"
+            >
+              🔍
+            </button>
+          )}
+          
+          {isStreaming && currentStep && (
+            <div className="text-xs text-white/60 italic mb-2">⏳ {currentStep.replace(/-/g, ' ')}...</div>
+          )}
           
           <ChatMessageComponent message={message} />
           
+          {/* Day-by-day trip plan */}
+          {!isUser && lastResponseMetadata?.itinerary && (
+            <ItineraryPlan itinerary={lastResponseMetadata.itinerary} />
+          )}
+          
           {/* Visual Elements for Recommendations - priority over hyperlinks */}
           {!isUser && (lastResponseMetadata?.entities || entities) && (lastResponseMetadata?.entities?.length > 0 || entities.length > 0) && (
             <VisualChatElements
               entities={lastResponseMetadata?.entities || entities}
               messageType="recommendation"
+              onReject={currentSessionId ? rejectRecommendation : undefined}
             />
           )}
           
@@ -411,6 +510,15 @@ export default function ChatGPTInterface({
                 </svg>
                 {showPersonaSidebar ? 'Hide' : 'Show'} Persona
               </button>
+              <button
+                onClick={() => {
+                  setTraceMessageId(null);
+                  setShowDebugPanel(!showDebugPanel);
+                }}
+                className="w-full bg-transparent border border-white/30 text-white px-4 py-2 rounded-none hover:bg-white/10 transition-colors duration-200 font-medium flex items-center justify-center gap-2"
+              >
+                🔍 {showDebugPanel ? 'Hide' : 'Show'} Agent Trace
+              </button>
             </div>
           )}
         </div>
@@ -438,11 +546,27 @@ export default function ChatGPTInterface({
           </button>
           
           <button
-            onClick={fetchSessions}
+            onClick={() => fetchSessions()}
             className="w-full bg-white/10 text-white px-3 py-2 rounded-lg text-sm hover:bg-white/20 transition-colors duration-200"
           >
             Refresh Sessions
           </button>
+
+          <input
+            type="text"
+            value={sessionSearch}
+            onChange={(e) => setSessionSearch(e.target.value)}
+            placeholder="Search chats..."
+            className="w-full bg-white/10 text-white placeholder-white/60 px-3 py-2 rounded-lg text-sm focus:outline-none focus:bg-white/20"
+          />
+          <select
+            value={sessionSort}
+            onChange={(e) => setSessionSort(e.target.value as 'recent' | 'activity')}
+            className="w-full bg-white/10 text-white px-3 py-2 rounded-lg text-sm focus:outline-none"
+          >
+            <option value="recent" className="text-gray-900">Most recent</option>
+            <option value="activity" className="text-gray-900">Most active</option>
+          </select>
         </div>
 
         {/* Sessions List */}
@@ -460,13 +584,20 @@ export default function ChatGPTInterface({
                   >
                                       <button
                       onClick={() => loadSession(session.id)}
+                      title={session.summary || undefined}
                       className="w-full text-left text-sm text-white truncate"
                     >
-                      <div className="font-medium text-white">
-                        {session.personaName || 'Unknown Persona'}
+                      <div className="font-medium text-white truncate">
+                        {session.title || session.personaName || 'Untitled chat'}
                       </div>
+                      {session.lastMessagePreview && (
+                        <div className="text-xs text-white/70 truncate">
+                          {session.lastMessagePreview}
+                        </div>
+                      )}
                       <div className="text-xs text-white/90">
                         {new Date(session.updatedAt).toLocaleDateString()} - {session.messageCount || 0} messages
+                        {session.personaName && session.title ? ` · ${session.personaName}` : ''}
                       </div>
                     </button>
                   <button
@@ -481,9 +612,18 @@ export default function ChatGPTInterface({
               ))
             ) : (
               <div className="text-center text-white/90 text-sm py-8">
-                No chat sessions yet
+                {isLoadingSessions ? 'Loading...' : sessionSearch.trim() ? 'No matching chats' : 'No chat sessions yet'}
               </div>
             )}
+            {sessionsCursor && (
+              <button
+                onClick={() => fetchSessions(sessionsCursor)}
+                disabled={isLoadingSessions}
+                className="w-full text-white/80 text-xs py-2 hover:text-white disabled:opacity-50"
+              >
+                {isLoadingSessions ? 'Loading...' : 'Load more'}
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -491,7 +631,7 @@ export default function ChatGPTInterface({
       {/* Main Content Area - Chat */}
       <div className="flex-1 flex mt-16">
         {/* Main Chat Area */}
-        <div className={`flex flex-col ${showPersonaSidebar ? 'flex-1' : 'w-full'}`}>
+        <div className={`flex flex-col ${showPersonaSidebar || showDebugPanel ? 'flex-1' : 'w-full'}`}>
                   {/* Clear Chat Button - Upper Right */}
         <div className={`absolute top-20 z-10 ${showPersonaSidebar ? 'right-80' : 'right-4'}`}>
             <button
@@ -556,7 +696,7 @@ export default function ChatGPTInterface({
             {/* Chat Messages */}
             {messages.map(renderMessage)}
 
-            {aiLoading && (
+            {aiLoading && !messages.some(m => m.streaming && m.content) && (
               <div className="max-w-4xl mx-auto w-full text-left">
                 <div className="inline-block max-w-3xl px-6 py-4 rounded-none bg-white border border-slate-200">
                   <div className="flex items-center space-x-2">
@@ -600,6 +740,17 @@ export default function ChatGPTInterface({
             onClose={() => setShowPersonaSidebar(false)}
           />
         )}
+
+        {/* Agent Trace */}
+        {currentSessionId && showDebugPanel && (
+          <DebugPanel
+            sessionId={currentSessionId}
+            messageId={traceMessageId}
+            isOpen={showDebugPanel}
+            onClose={() => setShowDebugPanel(false)}
+            onShowLive={() => setTraceMessageId(null)}
+          />
+        )}
       </div>
 
       {/* Persona Creation Modal */}
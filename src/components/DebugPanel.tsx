@@ -0,0 +1,134 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+
+interface TraceEvent {
+  id: string;
+  traceId: string;
+  sessionId: string;
+  type: string;
+  data?: any;
+  duration?: number;
+  timestamp: string;
+}
+
+interface DebugPanelProps {
+  sessionId: string;
+  messageId?: string | null; // When set, replay this message's stored trace instead of the live feed
+  isOpen: boolean;
+  onClose: () => void;
+  onShowLive?: () => void;
+}
+
+const MAX_EVENTS = 300;
+
+export function DebugPanel({ sessionId, messageId, isOpen, onClose, onShowLive }: DebugPanelProps) {
+  const [events, setEvents] = useState<TraceEvent[]>([]);
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !sessionId) return;
+
+    setEvents([]);
+    const params = new URLSearchParams({ sessionId });
+    if (messageId) params.append('messageId', messageId);
+
+    const source = new EventSource(`/api/trace?${params.toString()}`);
+    source.addEventListener('ready', () => setConnected(true));
+    source.addEventListener('trace', (e) => {
+      const event = JSON.parse((e as MessageEvent).data) as TraceEvent;
+      setEvents(prev => [...prev, event].slice(-MAX_EVENTS));
+    });
+    // Replays end by themselves; stop EventSource from reconnecting and replaying again
+    source.addEventListener('end', () => {
+      source.close();
+      setConnected(false);
+    });
+    source.onerror = () => setConnected(false);
+
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [isOpen, sessionId, messageId]);
+
+  if (!isOpen) return null;
+
+  const getEventIcon = (type: string) => {
+    if (type === 'api' || type === 'api-response') return '🌐';
+    if (type === 'token') return '🪙';
+    if (type === 'agent-step') return '🧭';
+    if (type === 'error') return '❌';
+    if (type === 'warning') return '⚠️';
+    return '🤖';
+  };
+
+  const getEventTitle = (event: TraceEvent) => {
+    const data = event.data || {};
+    if (event.type === 'api' || event.type === 'error') return data.apiName || data.message || event.type;
+    if (event.type === 'token') return `${data.totalTokens || 0} tokens${data.source ? ` · ${data.source}` : ''}`;
+    if (event.type === 'agent-step') return `${data.step}${data.details?.status ? ` (${data.details.status})` : ''}`;
+    if (data.agentName) return `${data.agentName}: ${data.action}`;
+    return event.type;
+  };
+
+  return (
+    <div className="w-96 bg-white border-l border-gray-200 shadow-lg overflow-y-auto">
+      {/* Header */}
+      <div className="sticky top-0 bg-gradient-to-r from-gray-50 to-slate-100 border-b border-gray-200 p-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">🔍 Agent Trace</h2>
+            <p className="text-xs text-gray-600">
+              {messageId ? `Message ${messageId.slice(0, 12)}...` : 'Live'} · {connected ? '🟢 connected' : '⚪ idle'} · {events.length} events
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            ✕
+          </button>
+        </div>
+        {messageId && onShowLive && (
+          <button
+            onClick={onShowLive}
+            className="mt-2 text-xs text-blue-600 hover:text-blue-800"
+          >
+            ← Back to live trace
+          </button>
+        )}
+      </div>
+
+      {/* Events */}
+      <div className="p-4 space-y-2">
+        {events.map((event) => (
+          <div key={event.id} className="p-2 bg-gray-50 rounded-lg">
+            <div className="flex items-center justify-between">
+              <div className="text-xs font-medium text-gray-900">
+                {getEventIcon(event.type)} {getEventTitle(event)}
+              </div>
+              {event.duration !== undefined && (
+                <div className="text-xs text-gray-500">{event.duration}ms</div>
+              )}
+            </div>
+            <div className="text-xs text-gray-500">{new Date(event.timestamp).toLocaleTimeString()}</div>
+            {event.data && (
+              <details className="mt-1">
+                <summary className="text-xs text-blue-600 cursor-pointer">View Data</summary>
+                <pre className="text-xs bg-gray-100 p-2 rounded mt-1 overflow-x-auto max-h-40 overflow-y-auto text-gray-800">
+                  {JSON.stringify(event.data, null, 2)}
+                </pre>
+              </details>
+            )}
+          </div>
+        ))}
+        {events.length === 0 && (
+          <div className="text-xs text-gray-600 text-center py-4">
+            {messageId ? 'No trace stored for this message' : 'Send a message to see what the agents do'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
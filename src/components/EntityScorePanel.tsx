@@ -1,6 +1,7 @@
 'use client';
 
 import React from 'react';
+import { entityTypeLabel } from '@/lib/qloo/entity-types';
 
 interface Entity {
   id: string;
@@ -76,7 +77,7 @@ export default function EntityScorePanel({ entities, messageId }: EntityScorePan
             <div key={entity.id} className="flex items-center justify-between p-2 bg-transparent rounded border border-white/30">
               <div className="flex-1">
                 <div className="text-sm font-medium text-white">{entity.name}</div>
-                <div className="text-xs text-white/80">{entity.type.replace('urn:entity:', '')}</div>
+                <div className="text-xs text-white/80">{entityTypeLabel(entity.type)}</div>
               </div>
               <div className="flex items-center gap-2">
                 <div className="text-right">
@@ -0,0 +1,91 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { Itinerary } from '@/types';
+import { formatDistance, itineraryToICS, itineraryToMarkdown } from '@/lib/utils/itinerary-export';
+
+interface ItineraryPlanProps {
+  itinerary: Itinerary;
+}
+
+function download(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function ItineraryPlan({ itinerary }: ItineraryPlanProps) {
+  const [copied, setCopied] = useState(false);
+  const filename = itinerary.legs.map(leg => leg.city.toLowerCase().replace(/[^a-z0-9]+/g, '-')).join('-') || 'trip';
+  const ics = itineraryToICS(itinerary);
+
+  const copyMarkdown = async () => {
+    await navigator.clipboard.writeText(itineraryToMarkdown(itinerary));
+    setCopied(true);
+  };
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-white/90">
+        <span className="font-medium">🗺️ {itinerary.title}</span>
+        <div className="flex gap-3 text-xs">
+          <button onClick={copyMarkdown} className="text-white/80 hover:text-blue-300">
+            {copied ? '✅ Copied' : '📋 Copy as Markdown'}
+          </button>
+          <button
+            onClick={() => download(`${filename}.json`, JSON.stringify(itinerary, null, 2), 'application/json')}
+            className="text-white/80 hover:text-blue-300"
+          >
+            💾 JSON
+          </button>
+          {ics && (
+            <button onClick={() => download(`${filename}.ics`, ics, 'text/calendar')} className="text-white/80 hover:text-blue-300">
+              📅 Calendar
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {itinerary.days.map(day => (
+          <div key={day.day} className="border border-white/30 rounded-lg p-4">
+            <h4 className="font-semibold text-white text-sm mb-2">
+              Day {day.day} · {day.city}{day.date ? <span className="text-white/70 font-normal"> · {day.date}</span> : null}
+            </h4>
+            <ol className="space-y-2">
+              {day.stops.map(stop => (
+                <li key={stop.slot} className="flex gap-3 text-sm">
+                  <span className="w-12 shrink-0 text-white/70">{stop.time}</span>
+                  <span>{stop.icon}</span>
+                  <div className="flex-1">
+                    <span className="text-white/70">{stop.label}: </span>
+                    {stop.place ? (
+                      <>
+                        <span className="font-medium text-white">{stop.place.name}</span>
+                        {stop.place.address && <p className="text-xs text-white/70">{stop.place.address}</p>}
+                      </>
+                    ) : (
+                      <span className="text-white/50 italic">no match found</span>
+                    )}
+                  </div>
+                  {stop.distanceFromPrevious !== undefined && (
+                    <span className="text-xs text-white/60 whitespace-nowrap">🚶 {formatDistance(stop.distanceFromPrevious)}</span>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </div>
+        ))}
+      </div>
+
+      {itinerary.legs.filter(leg => leg.dayTrips.length > 0).map(leg => (
+        <p key={leg.city} className="text-xs text-white/80">
+          ✈️ Day trips from {leg.city}: {leg.dayTrips.map(trip => trip.name).join(', ')}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -1,18 +1,38 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import type { DemographicShift, DemographicSignals } from '@/lib/agents/persona-manager';
+import { entityTypeLabel } from '@/lib/qloo/entity-types';
+
+interface LibraryPersonaSummary {
+  id: string;
+  name: string;
+  description?: string;
+  tags: string[];
+}
 
 interface PersonaData {
   sessionId: string;
+  activePersona: {
+    source: 'library' | 'session';
+    libraryPersona: LibraryPersonaSummary | null;
+  };
   persona: {
     id: string;
     name?: string;
     location?: string;
+    gender?: string;
     confidence: number;
     demographics?: any;
     createdAt: string;
     updatedAt: string;
   };
+  demographicSignals: {
+    signals: DemographicSignals | null;
+    lastShift: DemographicShift | null;
+    unmeasuredQuery: string | null; // Latest query sent with demographics whose effect hasn't been measured
+  };
   interests: {
     total: number;
     categories: string[];
@@ -23,6 +43,7 @@ interface PersonaData {
       name: string;
       confidence: number;
       source: string;
+      sentiment?: 'like' | 'dislike';
       entityId?: string;
       timestamp: string;
       metadata?: {
@@ -123,6 +144,11 @@ export function PersonaSidebar({ sessionId, isOpen, onClose }: PersonaSidebarPro
   const [updatingPersona, setUpdatingPersona] = useState(false);
   const [activeTab, setActiveTab] = useState<'persona' | 'database'>('persona');
   const [showTagDetails, setShowTagDetails] = useState(false);
+  const [libraryPersonas, setLibraryPersonas] = useState<LibraryPersonaSummary[]>([]);
+  const [libraryTagFilter, setLibraryTagFilter] = useState('');
+  const [selectedLibraryPersonaId, setSelectedLibraryPersonaId] = useState('');
+  const [switchingPersona, setSwitchingPersona] = useState(false);
+  const [measuringShift, setMeasuringShift] = useState(false);
 
   const fetchPersonaData = async () => {
     try {
@@ -141,6 +167,25 @@ export function PersonaSidebar({ sessionId, isOpen, onClose }: PersonaSidebarPro
     }
   };
 
+  // Costs an extra Insights call, so it only runs when asked for
+  const measureDemographicShift = async () => {
+    try {
+      setMeasuringShift(true);
+      const response = await fetch('/api/persona/demographic-shift', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId })
+      });
+      if (response.ok) {
+        await fetchPersonaData();
+      }
+    } catch (error) {
+      console.error('Error measuring demographic shift:', error);
+    } finally {
+      setMeasuringShift(false);
+    }
+  };
+
   const fetchDatabaseData = async () => {
     try {
       const response = await fetch(`/api/qloo-responses?sessionId=${sessionId}`);
@@ -155,6 +200,71 @@ export function PersonaSidebar({ sessionId, isOpen, onClose }: PersonaSidebarPro
 
 
 
+  const fetchLibraryPersonas = async () => {
+    try {
+      const response = await fetch('/api/personas');
+      if (response.ok) {
+        const data = await response.json();
+        setLibraryPersonas(data.data.personas);
+      }
+    } catch (err) {
+      console.error('Failed to fetch persona library:', err);
+    }
+  };
+
+  // Attach (or detach, with no persona id) a library persona and reload what it drives
+  const switchPersona = async (personaId: string | null) => {
+    try {
+      setSwitchingPersona(true);
+      const response = await fetch(`/api/sessions/${sessionId}/persona`, personaId
+        ? { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ personaId }) }
+        : { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Failed to switch persona');
+      }
+      setSelectedLibraryPersonaId('');
+      await fetchPersonaData();
+    } catch (error) {
+      console.error('Error switching persona:', error);
+    } finally {
+      setSwitchingPersona(false);
+    }
+  };
+
+  const saveCurrentPersonaToLibrary = async () => {
+    const name = window.prompt('Name for this persona in the library', personaData?.persona.name || '');
+    if (!name) return;
+    const tags = window.prompt('Tags, comma separated (optional)', '') || '';
+
+    try {
+      const response = await fetch('/api/personas', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          fromSessionId: sessionId,
+          name,
+          tags: tags.split(',').map(tag => tag.trim()).filter(Boolean)
+        })
+      });
+      if (response.ok) {
+        await fetchLibraryPersonas();
+      }
+    } catch (error) {
+      console.error('Error saving persona to library:', error);
+    }
+  };
+
+  const duplicateLibraryPersona = async (personaId: string) => {
+    try {
+      const response = await fetch(`/api/personas/${personaId}/duplicate`, { method: 'POST' });
+      if (response.ok) {
+        await fetchLibraryPersonas();
+      }
+    } catch (error) {
+      console.error('Error duplicating persona:', error);
+    }
+  };
+
   const updatePersonaFromChat = async () => {
     try {
       setUpdatingPersona(true);
@@ -195,6 +305,7 @@ export function PersonaSidebar({ sessionId, isOpen, onClose }: PersonaSidebarPro
     if (isOpen && sessionId) {
       fetchPersonaData();
       fetchDatabaseData();
+      fetchLibraryPersonas();
     }
   }, [isOpen, sessionId]);
 
@@ -331,6 +442,139 @@ export function PersonaSidebar({ sessionId, isOpen, onClose }: PersonaSidebarPro
               </div>
             )}
 
+            {/* Demographic Signals */}
+            {personaData?.demographicSignals?.signals && (
+              <div className="bg-amber-50 p-3 rounded-lg border border-amber-200">
+                <h3 className="font-medium text-gray-900 mb-1 text-sm">🎂 Demographic Signals</h3>
+                <p className="text-xs text-gray-700">
+                  Recommendations lean toward what{' '}
+                  {[
+                    personaData.demographicSignals.signals.gender && `${personaData.demographicSignals.signals.gender}s`,
+                    personaData.demographicSignals.signals.age && `people aged ${personaData.demographicSignals.signals.age.replace(/_/g, ' ')}`
+                  ].filter(Boolean).join(', ') || 'people like you'}{' '}
+                  enjoy.
+                </p>
+                {personaData.demographicSignals.lastShift ? (
+                  <div className="mt-2 text-xs text-gray-700 space-y-1">
+                    <p className="text-gray-600">For &quot;{personaData.demographicSignals.lastShift.query}&quot;:</p>
+                    {personaData.demographicSignals.lastShift.promoted.length === 0 && personaData.demographicSignals.lastShift.demoted.length === 0 ? (
+                      <p>Demographics did not change these results.</p>
+                    ) : (
+                      <>
+                        {personaData.demographicSignals.lastShift.promoted.length > 0 && (
+                          <p>⬆️ Brought in: {personaData.demographicSignals.lastShift.promoted.join(', ')}</p>
+                        )}
+                        {personaData.demographicSignals.lastShift.demoted.length > 0 && (
+                          <p>⬇️ Pushed out: {personaData.demographicSignals.lastShift.demoted.join(', ')}</p>
+                        )}
+                      </>
+                    )}
+                  </div>
+                ) : personaData.demographicSignals.unmeasuredQuery ? (
+                  <div className="mt-2 flex items-center justify-between gap-2 text-xs text-gray-600">
+                    <span>For &quot;{personaData.demographicSignals.unmeasuredQuery}&quot;</span>
+                    <button
+                      onClick={measureDemographicShift}
+                      disabled={measuringShift}
+                      className="text-amber-700 hover:text-amber-900 disabled:opacity-50 whitespace-nowrap"
+                    >
+                      {measuringShift ? 'Measuring...' : '📊 Measure effect'}
+                    </button>
+                  </div>
+                ) : (
+                  <p className="mt-1 text-xs text-gray-500">Ask for recommendations to see how this changes them.</p>
+                )}
+              </div>
+            )}
+
+            {/* Persona Library */}
+            <div className="bg-purple-50 p-3 rounded-lg border border-purple-200">
+              <h3 className="font-medium text-gray-900 mb-2 text-sm">🎭 Driving Recommendations</h3>
+              {personaData?.activePersona?.libraryPersona ? (
+                <div className="mb-3">
+                  <div className="text-xs text-gray-900 font-medium">📚 {personaData.activePersona.libraryPersona.name}</div>
+                  {personaData.activePersona.libraryPersona.description && (
+                    <p className="text-xs text-gray-600 mt-1">{personaData.activePersona.libraryPersona.description}</p>
+                  )}
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {personaData.activePersona.libraryPersona.tags.map(tag => (
+                      <span key={tag} className="text-xs px-2 py-0.5 bg-purple-100 text-purple-800 rounded">#{tag}</span>
+                    ))}
+                  </div>
+                  <div className="flex gap-2 mt-2">
+                    <button
+                      onClick={() => switchPersona(null)}
+                      disabled={switchingPersona}
+                      className="text-xs px-2 py-1 bg-white border border-purple-300 rounded hover:bg-purple-100 disabled:opacity-50"
+                    >
+                      ⏏️ Detach
+                    </button>
+                    <button
+                      onClick={() => duplicateLibraryPersona(personaData.activePersona.libraryPersona!.id)}
+                      className="text-xs px-2 py-1 bg-white border border-purple-300 rounded hover:bg-purple-100"
+                    >
+                      📄 Duplicate
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-xs text-gray-700 mb-3">🧠 Learned from this conversation</p>
+              )}
+
+              <div className="flex gap-2 mb-2">
+                <select
+                  value={libraryTagFilter}
+                  onChange={(e) => setLibraryTagFilter(e.target.value)}
+                  className="text-xs border border-purple-200 rounded px-1 py-1 bg-white text-gray-900"
+                >
+                  <option value="">All tags</option>
+                  {Array.from(new Set(libraryPersonas.flatMap(persona => persona.tags))).sort().map(tag => (
+                    <option key={tag} value={tag}>#{tag}</option>
+                  ))}
+                </select>
+                <select
+                  value={selectedLibraryPersonaId}
+                  onChange={(e) => setSelectedLibraryPersonaId(e.target.value)}
+                  className="flex-1 min-w-0 text-xs border border-purple-200 rounded px-1 py-1 bg-white text-gray-900"
+                >
+                  <option value="">Switch to library persona…</option>
+                  {libraryPersonas
+                    .filter(persona => !libraryTagFilter || persona.tags.includes(libraryTagFilter))
+                    .filter(persona => persona.id !== personaData?.activePersona?.libraryPersona?.id)
+                    .map(persona => (
+                      <option key={persona.id} value={persona.id}>{persona.name}</option>
+                    ))}
+                </select>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => switchPersona(selectedLibraryPersonaId)}
+                  disabled={!selectedLibraryPersonaId || switchingPersona}
+                  className="flex-1 px-3 py-2 bg-purple-600 text-white rounded text-xs hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {switchingPersona ? '🔄 Switching...' : '🔀 Attach'}
+                </button>
+                <button
+                  onClick={saveCurrentPersonaToLibrary}
+                  className="flex-1 px-3 py-2 bg-white border border-purple-300 text-purple-800 rounded text-xs hover:bg-purple-100"
+                >
+                  💾 Save to Library
+                </button>
+              </div>
+              <Link
+                href="/compare"
+                className="mt-2 block text-center px-3 py-2 bg-white border border-purple-300 text-purple-800 rounded text-xs hover:bg-purple-100"
+              >
+                ⚖️ Compare Personas
+              </Link>
+              <Link
+                href={`/audiences?sessionId=${encodeURIComponent(sessionId)}`}
+                className="mt-2 block text-center px-3 py-2 bg-white border border-purple-300 text-purple-800 rounded text-xs hover:bg-purple-100"
+              >
+                👥 Audience Taste Reports
+              </Link>
+            </div>
+
             {/* Smart Persona Update */}
             <div className="bg-blue-50 p-3 rounded-lg border border-blue-200">
               <h3 className="font-medium text-gray-900 mb-2 text-sm">🤖 Smart Persona Agent</h3>
@@ -359,7 +603,7 @@ export function PersonaSidebar({ sessionId, isOpen, onClose }: PersonaSidebarPro
               </div>
               <div className="space-y-2">
                 {personaData?.interests.items.map((interest) => (
-                  <div key={interest.id} className="p-2 bg-gray-50 rounded-lg">
+                  <div key={interest.id} id={`interest-${interest.id}`} className={`p-2 rounded-lg ${interest.sentiment === 'dislike' ? 'bg-red-50' : 'bg-gray-50'}`}>
                     <div className="flex items-center justify-between">
                       <div className="flex items-center space-x-2">
                         {/* QLOO Entity Image */}
@@ -374,7 +618,7 @@ export function PersonaSidebar({ sessionId, isOpen, onClose }: PersonaSidebarPro
                           />
                         )}
                         <div>
-                          <div className="font-medium text-xs">{interest.name}</div>
+                          <div className="font-medium text-xs">{interest.sentiment === 'dislike' && '🚫 '}{interest.name}</div>
                           <div className="text-xs text-gray-600">{interest.category}</div>
                           {interest.entityId && (
                             <div className="text-xs text-blue-600">✓ QLOO Entity</div>
@@ -460,7 +704,7 @@ export function PersonaSidebar({ sessionId, isOpen, onClose }: PersonaSidebarPro
                     )}
                     <div className="flex-1">
                       <div className="text-xs font-medium">{entity.name}</div>
-                      <div className="text-xs text-gray-600">{entity.type.replace('urn:entity:', '')}</div>
+                      <div className="text-xs text-gray-600">{entityTypeLabel(entity.type)}</div>
                       {entity.description && (
                         <div className="text-xs text-gray-700 mt-1 line-clamp-2">{entity.description}</div>
                       )}
@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useState } from 'react';
+import { entityTypeIcon, getEntityTypeDefinition } from '@/lib/qloo/entity-types';
 
 interface Entity {
   id: string;
@@ -46,19 +47,6 @@ export default function QlooEntityHyperlinks({ text, entities, onEntityClick }:
     return processedText;
   };
 
-  const getEntityIcon = (type: string) => {
-    if (!type) return '🎯';
-    if (type.includes('place') || type.includes('restaurant')) return '🍽️';
-    if (type.includes('movie') || type.includes('film')) return '🎬';
-    if (type.includes('brand') || type.includes('company')) return '🏢';
-    if (type.includes('music') || type.includes('artist')) return '🎵';
-    if (type.includes('book') || type.includes('author')) return '📚';
-    if (type.includes('game')) return '🎮';
-    if (type.includes('fashion') || type.includes('clothing')) return '👗';
-    if (type.includes('travel') || type.includes('destination')) return '✈️';
-    return '🎯';
-  };
-
   const getEntityImageUrl = (entity: Entity) => {
     return entity.imageUrl || 
            entity.metadata?.image?.url ||
@@ -67,16 +55,8 @@ export default function QlooEntityHyperlinks({ text, entities, onEntityClick }:
            entity.properties?.image_url;
   };
 
-  const getEntityTypeLabel = (entity: Entity) => {
-    const type = entity.type || entity.entityType || 'unknown';
-    if (!type || type === 'unknown') return 'Recommendation';
-    if (type.includes('place') || type.includes('restaurant')) return 'Restaurant';
-    if (type.includes('movie') || type.includes('film')) return 'Movie';
-    if (type.includes('brand') || type.includes('company')) return 'Brand';
-    if (type.includes('music') || type.includes('artist')) return 'Music';
-    if (type.includes('book') || type.includes('author')) return 'Book';
-    return 'Recommendation';
-  };
+  const getEntityTypeLabel = (entity: Entity) =>
+    getEntityTypeDefinition(entity.type || entity.entityType)?.displayName || 'Recommendation';
 
   const getEntityDetails = (entity: Entity) => {
     const properties = entity.properties || {};
@@ -153,7 +133,7 @@ export default function QlooEntityHyperlinks({ text, entities, onEntityClick }:
               {/* Header */}
               <div className="flex items-center justify-between mb-4">
                 <div className="flex items-center gap-3">
-                  <span className="text-2xl">{getEntityIcon(selectedEntity.type || '')}</span>
+                  <span className="text-2xl">{entityTypeIcon(selectedEntity.type)}</span>
                   <div>
                     <h2 className="text-xl font-bold text-gray-900">{selectedEntity.name}</h2>
                     <p className="text-sm text-gray-500">{getEntityTypeLabel(selectedEntity)}</p>
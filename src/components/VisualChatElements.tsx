@@ -1,6 +1,8 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
+import { entityTypeIcon, getEntityTypeDefinition } from '@/lib/qloo/entity-types';
+import { describeContribution, RecommendationExplanation, SIGNAL_KIND_ICONS } from '@/lib/qloo/explainability';
 
 interface Entity {
   id: string;
@@ -15,31 +17,23 @@ interface Entity {
   imageUrl?: string;
   entityType?: string;
   properties?: any;
+  explanation?: RecommendationExplanation; // Qloo explainability with the persona interests behind it
 }
 
 interface VisualChatElementsProps {
   entities: Entity[];
   messageType: 'recommendation' | 'discovery' | 'general';
+  onReject?: (entity: Entity) => Promise<void>; // "Not for me": keeps the entity out of later results
 }
 
-export default function VisualChatElements({ entities, messageType }: VisualChatElementsProps) {
+export default function VisualChatElements({ entities, messageType, onReject }: VisualChatElementsProps) {
+  const [rejectedIds, setRejectedIds] = useState<string[]>([]);
+  const [explainedIds, setExplainedIds] = useState<string[]>([]);
+
   if (!entities || entities.length === 0) {
     return null;
   }
 
-  const getEntityIcon = (type: string) => {
-    if (!type) return '🎯';
-    if (type.includes('place') || type.includes('restaurant')) return '🍽️';
-    if (type.includes('movie') || type.includes('film')) return '🎬';
-    if (type.includes('brand') || type.includes('company')) return '🏢';
-    if (type.includes('music') || type.includes('artist')) return '🎵';
-    if (type.includes('book') || type.includes('author')) return '📚';
-    if (type.includes('game')) return '🎮';
-    if (type.includes('fashion') || type.includes('clothing')) return '👗';
-    if (type.includes('travel') || type.includes('destination')) return '✈️';
-    return '🎯';
-  };
-
   const getEntityImageUrl = (entity: Entity) => {
     // Try multiple possible image sources
     return entity.imageUrl || 
@@ -49,16 +43,8 @@ export default function VisualChatElements({ entities, messageType }: VisualChat
            entity.properties?.image_url;
   };
 
-  const getEntityTypeLabel = (entity: Entity) => {
-    const type = entity.type || entity.entityType || 'unknown';
-    if (!type || type === 'unknown') return 'Recommendation';
-    if (type.includes('place') || type.includes('restaurant')) return 'Restaurant';
-    if (type.includes('movie') || type.includes('film')) return 'Movie';
-    if (type.includes('brand') || type.includes('company')) return 'Brand';
-    if (type.includes('music') || type.includes('artist')) return 'Music';
-    if (type.includes('book') || type.includes('author')) return 'Book';
-    return 'Recommendation';
-  };
+  const getEntityTypeLabel = (entity: Entity) =>
+    getEntityTypeDefinition(entity.type || entity.entityType)?.displayName || 'Recommendation';
 
   const getEntityDetails = (entity: Entity) => {
     const properties = entity.properties || {};
@@ -128,7 +114,7 @@ export default function VisualChatElements({ entities, messageType }: VisualChat
               <div className="space-y-2 bg-transparent">
                 {/* Header */}
                 <div className="flex items-center gap-2">
-                  <span className="text-lg">{getEntityIcon(entity.type)}</span>
+                  <span className="text-lg">{entityTypeIcon(entity.type)}</span>
                   <div className="flex-1">
                     <h4 className="font-semibold text-white text-sm">{entity.name}</h4>
                     <p className="text-xs text-white/80">{getEntityTypeLabel(entity)}</p>
@@ -167,6 +153,54 @@ export default function VisualChatElements({ entities, messageType }: VisualChat
                   </div>
                 )}
                 
+                {/* Why this? breakdown of the signals behind the recommendation */}
+                {entity.explanation && entity.explanation.contributions.length > 0 && (
+                  <div>
+                    <button
+                      onClick={() => setExplainedIds(prev => prev.includes(entity.id) ? prev.filter(id => id !== entity.id) : [...prev, entity.id])}
+                      className="text-xs text-white/70 hover:text-blue-300"
+                    >
+                      {explainedIds.includes(entity.id) ? '🔽 Hide why' : '💡 Why this?'}
+                    </button>
+                    {explainedIds.includes(entity.id) && (
+                      <ul className="mt-2 space-y-1">
+                        {entity.explanation.contributions.slice(0, 5).map(contribution => (
+                          <li key={`${contribution.kind}:${contribution.id}`} className="text-xs text-white/90">
+                            <div className="flex justify-between gap-2">
+                              <span>
+                                {SIGNAL_KIND_ICONS[contribution.kind]}{' '}
+                                {contribution.source?.interestId ? (
+                                  <a href={`#interest-${contribution.source.interestId}`} className="underline hover:text-blue-300">
+                                    {describeContribution(contribution)}
+                                  </a>
+                                ) : describeContribution(contribution)}
+                                {contribution.source?.category && <span className="text-white/60"> · {contribution.source.category}</span>}
+                              </span>
+                              <span className="text-white/80">{Math.round(contribution.share * 100)}%</span>
+                            </div>
+                            <div className="mt-0.5 bg-white/20 rounded-full h-1">
+                              <div className="bg-purple-400 h-1 rounded-full" style={{ width: `${Math.round(contribution.share * 100)}%` }} />
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                {onReject && (
+                  <button
+                    onClick={async () => {
+                      await onReject(entity);
+                      setRejectedIds(prev => [...prev, entity.id]);
+                    }}
+                    disabled={rejectedIds.includes(entity.id)}
+                    className="text-xs text-white/70 hover:text-red-300 disabled:text-white/40 disabled:cursor-default"
+                  >
+                    {rejectedIds.includes(entity.id) ? '🚫 Won\'t suggest again' : '👎 Not for me'}
+                  </button>
+                )}
+
                 {/* Tags removed to prevent duplication with QlooEntityHyperlinks */}
               </div>
             </div>
@@ -1,10 +1,12 @@
+import { ENTITY_TYPE_URNS } from '../qloo/entity-types';
+
 export const AGENT_CAPABILITIES = {
   title: "QLooTwin",
   subtitle: "Your AI Cultural Intelligence Companion",
   
   description: `I'm your sophisticated AI concierge, powered by Qloo's advanced taste intelligence. I help you discover personalized recommendations across all your interests - from dining and entertainment to travel and lifestyle.
 
-My expertise spans 10 curated categories, each with deep insights and personalized suggestions tailored to your unique preferences.`,
+My expertise spans ${ENTITY_TYPE_URNS.length} curated categories, each with deep insights and personalized suggestions tailored to your unique preferences.`,
 
   capabilities: [
     {
@@ -69,8 +71,9 @@ My expertise spans 10 curated categories, each with deep insights and personaliz
     },
     {
       category: "🌍 Travel & Destinations",
-      description: "Get personalized travel recommendations for destinations, activities, and experiences that match your travel style.",
+      description: "Get personalized travel recommendations for destinations, activities, and experiences that match your travel style, or a day-by-day itinerary across several cities.",
       examples: [
+        "3 days in Lisbon then Porto: where to eat, what to see",
         "Hidden gems in Tokyo",
         "Adventure destinations in South America",
         "Luxury resorts in the Caribbean",
@@ -148,16 +151,5 @@ My expertise spans 10 curated categories, each with deep insights and personaliz
     expertise: "I combine Qloo's vast taste intelligence database with real-time analysis to deliver recommendations that truly match your preferences"
   },
 
-  categories: [
-    "urn:entity:artist",
-    "urn:entity:book", 
-    "urn:entity:brand",
-    "urn:entity:destination",
-    "urn:entity:movie",
-    "urn:entity:person",
-    "urn:entity:place",
-    "urn:entity:podcast",
-    "urn:entity:tv_show",
-    "urn:entity:video_game"
-  ]
+  categories: [...ENTITY_TYPE_URNS]
 }; 
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { getAllAudienceCategories, getAudienceTypes } from '../qloo/api';
+import { getAllAudienceCategories } from '../qloo/api';
 import { broadcastDebugMessage } from '../utils/debug';
 
 export interface AudienceMapping {
@@ -16,6 +16,32 @@ export interface AudienceCategory {
   audiences: AudienceMapping[];
 }
 
+// Keyword groups from everyday interest wording to the vocabulary the audience taxonomy uses
+const AUDIENCE_SYNONYMS: string[][] = [
+  ['tech', 'technology', 'programming', 'software', 'developer', 'engineer'],
+  ['health', 'healthcare', 'medical', 'doctor', 'nurse'],
+  ['finance', 'banking', 'investment', 'investing', 'accounting'],
+  ['fitness', 'gym', 'workout', 'exercise', 'sports'],
+  ['yoga', 'meditation', 'wellness', 'mindfulness'],
+  ['sustainable', 'sustainability', 'eco', 'green', 'environmental'],
+  ['outdoor', 'outdoors', 'fishing', 'hunting', 'camping', 'hiking'],
+  ['cooking', 'food', 'foodie', 'culinary', 'chef'],
+  ['photography', 'camera', 'photo'],
+  ['travel', 'vacation', 'tourism', 'adventure'],
+  ['gaming', 'video games', 'esports', 'games'],
+  ['music', 'live music', 'concert', 'festival'],
+  ['student', 'students', 'college', 'university'],
+  ['parent', 'parents', 'family', 'children', 'kids'],
+  ['retired', 'retirees', 'senior', 'seniors', 'elderly'],
+  ['luxury', 'premium', 'high-end', 'designer'],
+  ['budget', 'affordable', 'value', 'cheap', 'frugal']
+];
+
+// The taxonomy changes rarely; share it between requests instead of refetching every category each time
+const TAXONOMY_TTL_MS = 60 * 60 * 1000;
+const MAX_AUDIENCES_PER_INTEREST = 3;
+let taxonomyCache: { loadedAt: number; categories: Record<string, any[]> } | null = null;
+
 export class AudienceDiscovery {
   private cachedAudiences: Record<string, any[]> = {};
   private audienceTypes: any[] = [];
@@ -23,25 +49,38 @@ export class AudienceDiscovery {
   // Initialize audience discovery
   async initialize(): Promise<void> {
     try {
-      console.log('🔍 Initializing audience discovery...');
-      
-      // Get audience types
-      const typesResponse = await getAudienceTypes();
-      if (typesResponse.data && 'audienceTypes' in typesResponse.data) {
-        this.audienceTypes = typesResponse.data.audienceTypes;
+      if (taxonomyCache && Date.now() - taxonomyCache.loadedAt < TAXONOMY_TTL_MS) {
+        this.cachedAudiences = taxonomyCache.categories;
+        this.audienceTypes = Object.keys(taxonomyCache.categories);
+        return;
       }
+
+      console.log('🔍 Initializing audience discovery...');
       
-      // Get all audience categories
+      // Get all audience categories (the parent types come from the audience types API)
       this.cachedAudiences = await getAllAudienceCategories();
+      this.audienceTypes = Object.keys(this.cachedAudiences);
+      
+      const audienceCount = Object.values(this.cachedAudiences).reduce((total, audiences) => total + audiences.length, 0);
+      if (audienceCount > 0) {
+        taxonomyCache = { loadedAt: Date.now(), categories: this.cachedAudiences };
+      }
       
-      console.log('✅ Audience discovery initialized with', Object.keys(this.cachedAudiences).length, 'categories');
+      console.log('✅ Audience discovery initialized with', Object.keys(this.cachedAudiences).length, 'categories and', audienceCount, 'audiences');
     } catch (error) {
       console.error('❌ Failed to initialize audience discovery:', error);
     }
   }
 
+  private async ensureInitialized(): Promise<void> {
+    if (Object.keys(this.cachedAudiences).length === 0) {
+      await this.initialize();
+    }
+  }
+
   // Map user interests to audience characteristics
   async mapInterestsToAudiences(interests: string[]): Promise<AudienceMapping[]> {
+    await this.ensureInitialized();
     const mappings: AudienceMapping[] = [];
     
     for (const interest of interests) {
@@ -52,142 +91,50 @@ export class AudienceDiscovery {
     return mappings;
   }
 
-  // Map a single interest to potential audiences
+  // Map a single interest to the Qloo audiences whose names match it or one of its synonyms
   private async mapSingleInterest(interest: string): Promise<AudienceMapping[]> {
+    const interestLower = interest.toLowerCase().trim();
+    const synonyms = AUDIENCE_SYNONYMS
+      .filter(group => group.some(keyword => interestLower.includes(keyword)))
+      .flat()
+      .filter(keyword => keyword !== interestLower);
+
+    const mappings = this.matchAudiences([interestLower], 0.9)
+      .concat(this.matchAudiences(synonyms, 0.75))
+      .map(mapping => ({ ...mapping, reasoning: `Interest "${interest}" ${mapping.reasoning}` }));
+
+    return this.removeDuplicateAudiences(mappings.sort((a, b) => b.confidence - a.confidence))
+      .slice(0, MAX_AUDIENCES_PER_INTEREST);
+  }
+
+  // Score every cached audience against the search terms: whole-name matches beat shared words
+  private matchAudiences(terms: string[], baseConfidence: number, audienceTypes?: string[]): AudienceMapping[] {
     const mappings: AudienceMapping[] = [];
-    const interestLower = interest.toLowerCase();
     
-    // Define mapping rules
-    const mappingRules = [
-      // Professional interests
-      {
-        keywords: ['tech', 'programming', 'software', 'developer', 'engineer'],
-        audienceType: 'urn:audience:professional_area',
-        audienceName: 'Technology Professionals',
-        confidence: 0.9
-      },
-      {
-        keywords: ['health', 'medical', 'doctor', 'nurse', 'healthcare'],
-        audienceType: 'urn:audience:professional_area',
-        audienceName: 'Healthcare Professionals',
-        confidence: 0.9
-      },
-      {
-        keywords: ['finance', 'banking', 'investment', 'accounting'],
-        audienceType: 'urn:audience:professional_area',
-        audienceName: 'Finance Professionals',
-        confidence: 0.9
-      },
-      
-      // Lifestyle preferences
-      {
-        keywords: ['fitness', 'gym', 'workout', 'exercise', 'sports'],
-        audienceType: 'urn:audience:lifestyle_preferences_beliefs',
-        audienceName: 'Fitness Enthusiasts',
-        confidence: 0.8
-      },
-      {
-        keywords: ['yoga', 'meditation', 'wellness', 'mindfulness'],
-        audienceType: 'urn:audience:lifestyle_preferences_beliefs',
-        audienceName: 'Wellness & Mindfulness',
-        confidence: 0.8
-      },
-      {
-        keywords: ['sustainable', 'eco', 'green', 'environmental'],
-        audienceType: 'urn:audience:lifestyle_preferences_beliefs',
-        audienceName: 'Environmental Consciousness',
-        confidence: 0.8
-      },
-      
-      // Hobbies and interests
-      {
-        keywords: ['fishing', 'hunting', 'outdoor', 'camping'],
-        audienceType: 'urn:audience:hobbies_and_interests',
-        audienceName: 'Outdoor Recreation',
-        confidence: 0.9
-      },
-      {
-        keywords: ['cooking', 'food', 'culinary', 'chef'],
-        audienceType: 'urn:audience:hobbies_and_interests',
-        audienceName: 'Food & Cooking',
-        confidence: 0.9
-      },
-      {
-        keywords: ['photography', 'camera', 'photo'],
-        audienceType: 'urn:audience:hobbies_and_interests',
-        audienceName: 'Photography',
-        confidence: 0.9
-      },
-      
-      // Leisure activities
-      {
-        keywords: ['travel', 'vacation', 'tourism', 'adventure'],
-        audienceType: 'urn:audience:leisure',
-        audienceName: 'Travel & Adventure',
-        confidence: 0.8
-      },
-      {
-        keywords: ['gaming', 'video games', 'esports'],
-        audienceType: 'urn:audience:leisure',
-        audienceName: 'Gaming',
-        confidence: 0.9
-      },
-      {
-        keywords: ['music', 'concert', 'festival'],
-        audienceType: 'urn:audience:leisure',
-        audienceName: 'Music & Entertainment',
-        confidence: 0.8
-      },
-      
-      // Life stage indicators
-      {
-        keywords: ['student', 'college', 'university', 'school'],
-        audienceType: 'urn:audience:life_stage',
-        audienceName: 'Students',
-        confidence: 0.9
-      },
-      {
-        keywords: ['parent', 'family', 'children', 'kids'],
-        audienceType: 'urn:audience:life_stage',
-        audienceName: 'Parents',
-        confidence: 0.8
-      },
-      {
-        keywords: ['retired', 'senior', 'elderly'],
-        audienceType: 'urn:audience:life_stage',
-        audienceName: 'Retirees',
-        confidence: 0.9
-      },
-      
-      // Spending habits
-      {
-        keywords: ['luxury', 'premium', 'high-end', 'designer'],
-        audienceType: 'urn:audience:spending_habits',
-        audienceName: 'Luxury Consumers',
-        confidence: 0.8
-      },
-      {
-        keywords: ['budget', 'affordable', 'value', 'cheap'],
-        audienceType: 'urn:audience:spending_habits',
-        audienceName: 'Budget-Conscious',
-        confidence: 0.8
-      }
-    ];
-    
-    // Apply mapping rules
-    for (const rule of mappingRules) {
-      const matches = rule.keywords.some(keyword => 
-        interestLower.includes(keyword)
-      );
-      
-      if (matches) {
-        mappings.push({
-          audienceType: rule.audienceType,
-          audienceId: `${rule.audienceType}:${rule.audienceName.toLowerCase().replace(/\s+/g, '_')}`,
-          name: rule.audienceName,
-          confidence: rule.confidence,
-          reasoning: `Interest "${interest}" matches keywords: ${rule.keywords.join(', ')}`
-        });
+    for (const [type, audiences] of Object.entries(this.cachedAudiences)) {
+      if (audienceTypes && !audienceTypes.includes(type)) continue;
+
+      for (const audience of audiences) {
+        const audienceId = audience.id || audience.audienceId || audience.entity_id;
+        const audienceName: string = audience.name || audience.audienceName || '';
+        const nameLower = audienceName.toLowerCase();
+        if (!audienceId || !nameLower) continue;
+
+        const nameWords = nameLower.split(/[^a-z0-9]+/).filter(word => word.length > 3);
+        for (const term of terms) {
+          const contains = nameLower === term || nameLower.includes(term) || (nameLower.length > 3 && term.includes(nameLower));
+          const sharesWord = !contains && term.split(/[^a-z0-9]+/).some(word => word.length > 3 && nameWords.includes(word));
+          if (contains || sharesWord) {
+            mappings.push({
+              audienceType: type,
+              audienceId,
+              name: audienceName,
+              confidence: contains ? baseConfidence : baseConfidence - 0.2,
+              reasoning: `matches Qloo audience "${audienceName}" via "${term}"`
+            });
+            break;
+          }
+        }
       }
     }
     
@@ -196,6 +143,7 @@ export class AudienceDiscovery {
 
   // Get available audience categories
   async getAvailableAudienceCategories(): Promise<AudienceCategory[]> {
+    await this.ensureInitialized();
     const categories: AudienceCategory[] = [];
     
     const categoryDescriptions = {
@@ -218,7 +166,7 @@ export class AudienceDiscovery {
         description: categoryDescriptions[type as keyof typeof categoryDescriptions] || 'Audience category',
         audiences: audiences.map((audience: any) => ({
           audienceType: type,
-          audienceId: audience.id || audience.audienceId,
+          audienceId: audience.id || audience.audienceId || audience.entity_id,
           name: audience.name || audience.audienceName,
           confidence: 0.5,
           reasoning: 'Available audience option'
@@ -231,24 +179,9 @@ export class AudienceDiscovery {
 
   // Search audiences by keyword
   async searchAudiences(keyword: string): Promise<AudienceMapping[]> {
-    const results: AudienceMapping[] = [];
-    
-    for (const [type, audiences] of Object.entries(this.cachedAudiences)) {
-      for (const audience of audiences) {
-        const audienceName = audience.name || audience.audienceName;
-        if (audienceName.toLowerCase().includes(keyword.toLowerCase())) {
-          results.push({
-            audienceType: type,
-            audienceId: audience.id || audience.audienceId,
-            name: audienceName,
-            confidence: 0.7,
-            reasoning: `Matches keyword: ${keyword}`
-          });
-        }
-      }
-    }
-    
-    return results;
+    await this.ensureInitialized();
+    return this.matchAudiences([keyword.toLowerCase().trim()], 0.7)
+      .sort((a, b) => b.confidence - a.confidence);
   }
 
   // Get audience recommendations based on user profile
@@ -261,6 +194,7 @@ export class AudienceDiscovery {
     
     // Add demographic-based recommendations
     if (demographics) {
+      await this.ensureInitialized();
       const demographicMappings = this.mapDemographicsToAudiences(demographics);
       recommendations.push(...demographicMappings);
     }
@@ -270,42 +204,23 @@ export class AudienceDiscovery {
     return uniqueRecommendations.sort((a, b) => b.confidence - a.confidence);
   }
 
-  // Map demographics to audiences
+  // Map demographics to life stage and community audiences from the taxonomy
   private mapDemographicsToAudiences(demographics: any): AudienceMapping[] {
     const mappings: AudienceMapping[] = [];
     
     // Age-based mappings
     if (demographics.age) {
-      if (demographics.age < 25) {
-        mappings.push({
-          audienceType: 'urn:audience:life_stage',
-          audienceId: 'urn:audience:life_stage:young_adults',
-          name: 'Young Adults',
-          confidence: 0.8,
-          reasoning: `Age: ${demographics.age}`
-        });
-      } else if (demographics.age > 65) {
-        mappings.push({
-          audienceType: 'urn:audience:life_stage',
-          audienceId: 'urn:audience:life_stage:seniors',
-          name: 'Seniors',
-          confidence: 0.8,
-          reasoning: `Age: ${demographics.age}`
-        });
-      }
+      const ageTerms = demographics.age < 25 ? ['student', 'college', 'young']
+        : demographics.age < 40 ? ['young professional']
+        : demographics.age > 65 ? ['retire', 'senior'] : [];
+      mappings.push(...this.matchAudiences(ageTerms, 0.8, ['urn:audience:life_stage'])
+        .map(mapping => ({ ...mapping, reasoning: `Age ${demographics.age} ${mapping.reasoning}` })));
     }
     
     // Location-based mappings
-    if (demographics.location) {
-      if (demographics.location.city) {
-        mappings.push({
-          audienceType: 'urn:audience:communities',
-          audienceId: 'urn:audience:communities:urban',
-          name: 'Urban Communities',
-          confidence: 0.6,
-          reasoning: `Location: ${demographics.location.city}`
-        });
-      }
+    if (demographics.location?.city) {
+      mappings.push(...this.matchAudiences(['urban', 'city'], 0.6, ['urn:audience:communities'])
+        .map(mapping => ({ ...mapping, reasoning: `Location ${demographics.location.city} ${mapping.reasoning}` })));
     }
     
     return mappings;
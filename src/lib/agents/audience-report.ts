@@ -0,0 +1,135 @@
+import { EntityType } from '../config';
+import { entityTypeLabel } from '../qloo/entity-types';
+import { getInsights } from '../qloo/api';
+import { ParsedEntity, parseQlooResponse } from '../qloo/parser';
+import { AudienceDiscovery } from './audience-discovery';
+
+export const DEFAULT_REPORT_ENTITY_TYPES: EntityType[] = [
+  'urn:entity:brand',
+  'urn:entity:place',
+  'urn:entity:artist',
+  'urn:entity:movie'
+];
+
+export interface AudienceReportEntity {
+  id: string;
+  name: string;
+  score: number | null; // Affinity of the audience for this entity
+  imageUrl?: string;
+  description?: string;
+  tags: string[];
+}
+
+export interface AudienceReportSection {
+  entityType: string;
+  label: string;
+  entities: AudienceReportEntity[];
+  error?: string;
+}
+
+export interface AudienceReportResult {
+  audience: { id: string; name: string; type?: string };
+  location?: string;
+  sections: AudienceReportSection[];
+  // Tags shared by the audience's favourites, those spanning the most domains first
+  themes: Array<{ name: string; count: number; entityTypes: string[] }>;
+  generatedAt: string;
+}
+
+export interface AudienceReportOptions {
+  entityTypes?: EntityType[];
+  location?: string;
+  limit?: number;
+}
+
+// Asks Insights what one audience likes in several domains and lines the answers up as a taste report
+export class AudienceReport {
+  async generate(audienceId: string, options: AudienceReportOptions = {}): Promise<AudienceReportResult> {
+    if (!audienceId.startsWith('urn:audience:')) {
+      throw new Error(`Not a Qloo audience ID: ${audienceId}`);
+    }
+
+    const entityTypes = options.entityTypes?.length ? options.entityTypes : DEFAULT_REPORT_ENTITY_TYPES;
+    const audience = await this.describeAudience(audienceId);
+    console.log(`👥 Building taste report for ${audience.name} across ${entityTypes.length} domains`);
+
+    const sections = await Promise.all(entityTypes.map(entityType => this.buildSection(audience, entityType, options)));
+
+    return {
+      audience,
+      location: options.location,
+      sections,
+      themes: this.buildThemes(sections),
+      generatedAt: new Date().toISOString()
+    };
+  }
+
+  private async describeAudience(audienceId: string): Promise<AudienceReportResult['audience']> {
+    const categories = await new AudienceDiscovery().getAvailableAudienceCategories();
+    for (const category of categories) {
+      const match = category.audiences.find(audience => audience.audienceId === audienceId);
+      if (match) {
+        return { id: audienceId, name: match.name, type: category.type };
+      }
+    }
+    // Not in the taxonomy we fetched; report under the readable tail of the ID
+    return { id: audienceId, name: audienceId.split(':').pop()?.replace(/_/g, ' ') || audienceId };
+  }
+
+  private async buildSection(
+    audience: AudienceReportResult['audience'],
+    entityType: EntityType,
+    options: AudienceReportOptions
+  ): Promise<AudienceReportSection> {
+    const label = entityTypeLabel(entityType, true);
+
+    try {
+      const response = await getInsights({
+        query: audience.name,
+        targetAPI: 'GETINSIGHTS',
+        entityType,
+        signalAudiences: [audience.id],
+        location: options.location ? { city: options.location } : undefined,
+        limit: options.limit || 5,
+        explainability: false
+      });
+      // Large responses come back already parsed
+      const data: any = response.data;
+      const entities: ParsedEntity[] = Array.isArray(data?.entities) ? data.entities : parseQlooResponse(data).entities;
+
+      return {
+        entityType,
+        label,
+        entities: entities.map(entity => ({
+          id: String(entity.id || entity.name),
+          name: entity.name,
+          score: typeof entity.score === 'number' ? entity.score : null,
+          imageUrl: entity.imageUrl,
+          description: entity.description || entity.properties?.description,
+          tags: entity.tags || []
+        }))
+      };
+    } catch (error) {
+      console.error(`❌ Audience report failed for ${entityType}:`, error);
+      return { entityType, label, entities: [], error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  private buildThemes(sections: AudienceReportSection[]): AudienceReportResult['themes'] {
+    const themes = new Map<string, { name: string; count: number; entityTypes: Set<string> }>();
+
+    sections.forEach(section => section.entities.forEach(entity => entity.tags.forEach(tag => {
+      const key = tag.toLowerCase();
+      const theme = themes.get(key) || { name: tag, count: 0, entityTypes: new Set<string>() };
+      theme.count++;
+      theme.entityTypes.add(section.label);
+      themes.set(key, theme);
+    })));
+
+    // Themes that cross domains say more about an audience than ones repeated inside a single list
+    return Array.from(themes.values())
+      .sort((a, b) => b.entityTypes.size - a.entityTypes.size || b.count - a.count)
+      .slice(0, 12)
+      .map(theme => ({ name: theme.name, count: theme.count, entityTypes: Array.from(theme.entityTypes) }));
+  }
+}
@@ -1,5 +1,4 @@
 import { generateText } from 'ai';
-import { google } from '@ai-sdk/google';
 import { broadcastDebugMessage } from '../utils/debug';
 
 export interface PersonaBio {
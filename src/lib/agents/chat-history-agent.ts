@@ -1,4 +1,5 @@
 import { getDatabaseService } from '../database/database';
+import { SemanticIndex, extractSnippet } from '../database/semantic-index';
 import { getEntity } from '../qloo/api';
 import { QlooParameters } from '../../types';
 
@@ -11,14 +12,38 @@ export interface ChatHistoryQuery {
   includeEntities?: boolean;
 }
 
+export interface ConversationRecap {
+  sessionId: string;
+  title: string | null;
+  summary: string; // Rolling summary, or the last message for chats too short to summarize
+  updatedAt: string;
+  isCurrentSession: boolean;
+}
+
+// A message that matched the query, quoted with what's needed to cite it
+export interface MessageCitation {
+  messageId: string;
+  role: string;
+  snippet: string;
+  timestamp?: string;
+  score: number;
+}
+
 export interface ChatHistoryResult {
   found: boolean;
   entities: any[];
-  messages: any[];
+  messages: MessageCitation[];
   entityDetails?: any;
+  recaps?: ConversationRecap[];
   source: 'database' | 'api' | 'not_found';
 }
 
+// "What did we talk about last time?" and friends are answered from session summaries
+const RECAP_QUERY_PATTERN = /\b(what (did|have) we (talk|chat|discuss)(ed)?|last time|previous(ly)? (chat|conversation|session)s?|recap|summar(y|ise|ize)|where (did|were) we (leave|left)( off)?)\b/i;
+const MAX_RECAPS = 3;
+const MAX_ENTITY_MATCHES = 5;
+const MAX_MESSAGE_CITATIONS = 3;
+
 export class ChatHistoryAgent {
   private sessionId: string;
 
@@ -30,6 +55,18 @@ export class ChatHistoryAgent {
     console.log('🔍 ChatHistoryAgent: Searching chat history for:', query);
     
     try {
+      if (RECAP_QUERY_PATTERN.test(query.query)) {
+        const recaps = await this.getConversationRecaps();
+        console.log('✅ Answering from conversation summaries:', recaps.length);
+        return {
+          found: recaps.length > 0,
+          entities: [],
+          messages: [],
+          recaps,
+          source: recaps.length > 0 ? 'database' : 'not_found'
+        };
+      }
+
       // Step 1: Search for entities in database
       const databaseEntities = await this.searchEntitiesInDatabase(query);
       
@@ -91,51 +128,73 @@ export class ChatHistoryAgent {
     }
   }
 
-  private async searchEntitiesInDatabase(query: ChatHistoryQuery): Promise<any[]> {
+  // The current chat plus the most recent earlier ones, newest first
+  async getConversationRecaps(limit: number = MAX_RECAPS): Promise<ConversationRecap[]> {
     try {
       const databaseService = getDatabaseService();
-      const sessionEntities = await databaseService.getSessionEntities(this.sessionId);
-      
-      if (!sessionEntities || sessionEntities.length === 0) {
-        return [];
-      }
-      
-      // Filter entities based on query
-      const queryLower = query.query.toLowerCase();
-      const entityNameLower = query.entityName?.toLowerCase();
-      
-      return sessionEntities.filter(entity => {
-        // If user specified an entity name, prioritize exact matches
-        if (entityNameLower) {
-          return entity.name.toLowerCase().includes(entityNameLower) ||
-                 entity.description?.toLowerCase().includes(entityNameLower);
+      const current = await databaseService.getSessionSummary(this.sessionId);
+      // Only the same user's chats; a session without an owner only sees itself
+      const recent = current?.userId
+        ? (await databaseService.getSessionSummaries({ limit: limit + 1, sort: 'recent', userId: current.userId })).sessions
+        : [];
+
+      // The current chat's preview is the question being asked, so it only counts once summarized
+      const earlier = recent
+        .filter(session => session.id !== this.sessionId && (session.summary || session.lastMessagePreview))
+        .slice(0, limit);
+      return [...(current?.summary ? [current] : []), ...earlier].map(session => ({
+        sessionId: session.id,
+        title: session.title,
+        summary: session.summary || session.lastMessagePreview!,
+        updatedAt: session.updatedAt,
+        isCurrentSession: session.id === this.sessionId
+      }));
+    } catch (error) {
+      console.error('❌ Error getting conversation recaps:', error);
+      return [];
+    }
+  }
+
+  private async searchEntitiesInDatabase(query: ChatHistoryQuery): Promise<any[]> {
+    try {
+      // A name the user spelled out beats anything that is merely similar
+      if (query.entityName) {
+        const databaseService = getDatabaseService();
+        const sessionEntities = await databaseService.getSessionEntities(this.sessionId);
+        const entityNameLower = query.entityName.toLowerCase();
+        const named = sessionEntities.filter(entity => entity.name?.toLowerCase().includes(entityNameLower));
+        if (named.length > 0) {
+          return named;
         }
-        
-        // Otherwise, search in entity name, description, and type
-        return entity.name.toLowerCase().includes(queryLower) ||
-               entity.description?.toLowerCase().includes(queryLower) ||
-               entity.type.toLowerCase().includes(queryLower);
+      }
+
+      // Otherwise rank by meaning, so "that sushi place" finds Nobu
+      const matches = await new SemanticIndex(this.sessionId).search(query.entityName || query.query, {
+        kinds: ['entity'],
+        limit: MAX_ENTITY_MATCHES
       });
+      return matches.map(match => ({ ...match.source, relevance: match.score }));
     } catch (error) {
       console.error('❌ Error searching entities in database:', error);
       return [];
     }
   }
 
-  private async getRelevantMessages(query: string): Promise<any[]> {
+  private async getRelevantMessages(query: string): Promise<MessageCitation[]> {
     try {
-      const databaseService = getDatabaseService();
-      const session = await databaseService.getChatSession(this.sessionId);
-      if (!session?.messages) {
-        return [];
-      }
-      
-      const queryLower = query.toLowerCase();
-      
-      // Filter messages that contain the query terms
-      return session.messages.filter(message => 
-        message.content.toLowerCase().includes(queryLower)
-      ).slice(-10); // Return last 10 relevant messages
+      const matches = await new SemanticIndex(this.sessionId).search(query, {
+        kinds: ['message'],
+        limit: MAX_MESSAGE_CITATIONS,
+        excludeText: query
+      });
+
+      return matches.map(match => ({
+        messageId: match.sourceId,
+        role: match.source.role,
+        snippet: extractSnippet(query, match.source.content),
+        timestamp: match.source.timestamp,
+        score: match.score
+      }));
     } catch (error) {
       console.error('❌ Error getting relevant messages:', error);
       return [];
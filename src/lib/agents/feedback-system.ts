@@ -1,5 +1,6 @@
 import { getDatabaseService } from '../database/database';
 import { broadcastDebugMessage } from '../utils/debug';
+import { PersonaManager, REINFORCEMENT_WEIGHTS, ratingWeight } from './persona-manager';
 
 export interface RecommendationFeedback {
   id: string;
@@ -76,7 +77,7 @@ export class FeedbackSystem {
       );
 
       // Update persona based on implicit feedback
-      await this.updatePersonaFromFeedback(recommendationName, feedback, rating);
+      await this.updatePersonaFromFeedback(recommendationName, REINFORCEMENT_WEIGHTS[interactionType]);
 
       console.log('✅ Implicit feedback recorded:', { recommendationName, interactionType, feedback });
       
@@ -100,14 +101,47 @@ export class FeedbackSystem {
     }
   }
 
-  // Update persona based on feedback
-  private async updatePersonaFromFeedback(
+  // Record an explicit 1-5 star rating of a recommendation
+  async recordRating(
     recommendationName: string,
-    feedback: 'positive' | 'negative' | 'neutral',
-    rating: number
+    rating: 1 | 2 | 3 | 4 | 5,
+    comment?: string,
+    metadata?: Record<string, any>
   ): Promise<void> {
     if (!this.sessionId) return;
 
+    try {
+      const feedback = rating >= 4 ? 'positive' : rating <= 2 ? 'negative' : 'neutral';
+      const databaseService = getDatabaseService();
+      await databaseService.storeRecommendationFeedback(
+        this.sessionId,
+        metadata?.entityId || `rating-${Date.now()}`,
+        metadata?.recommendationType || 'other',
+        recommendationName,
+        rating,
+        feedback,
+        comment,
+        metadata
+      );
+
+      await this.updatePersonaFromFeedback(recommendationName, ratingWeight(rating));
+
+      console.log('✅ Rating recorded:', { recommendationName, rating, feedback });
+    } catch (error) {
+      console.error('❌ Failed to record rating:', error);
+      throw error;
+    }
+  }
+
+  // "Not for me": a one-star rating that also keeps the entity out of later results in this session
+  async rejectRecommendation(recommendationName: string, entityId: string, metadata?: Record<string, any>): Promise<void> {
+    await this.recordRating(recommendationName, 1, 'Rejected', { ...metadata, entityId });
+  }
+
+  // Update persona based on feedback: reinforce (or weaken) the matching interest
+  private async updatePersonaFromFeedback(recommendationName: string, weight: number): Promise<void> {
+    if (!this.sessionId || weight === 0) return;
+
     try {
       // Ensure persona exists
       const databaseService = getDatabaseService();
@@ -116,24 +150,8 @@ export class FeedbackSystem {
       // Determine interest category based on recommendation type
       const category = this.determineInterestCategory(recommendationName);
       
-      if (feedback === 'positive' && rating >= 4) {
-        // Strengthen interest
-        await databaseService.addExplicitInterest(
-          this.sessionId,
-          category,
-          recommendationName,
-          0.9
-        );
-        console.log('✅ Strengthened interest:', recommendationName);
-      } else if (feedback === 'negative' && rating <= 2) {
-        // Weaken interest or add to dislikes
-        await databaseService.updatePersonalInterestConfidence(
-          this.sessionId,
-          recommendationName,
-          -0.2
-        );
-        console.log('✅ Weakened interest:', recommendationName);
-      }
+      await new PersonaManager(this.sessionId).reinforceInterest(recommendationName, weight, category);
+      console.log(`✅ ${weight > 0 ? 'Strengthened' : 'Weakened'} interest:`, recommendationName);
     } catch (error) {
       console.error('❌ Failed to update persona from feedback:', error);
     }
@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { getModel } from '../llm/models';
+import { generateObjectWithCassette } from '../utils/cassette';
+import { trackAgentActivity } from '../utils/debug';
+
+export const QUERY_INTENTS = [
+  'recommendation',
+  'entity_lookup',
+  'comparison',
+  'trip_planning',
+  'chat_history',
+  'persona_update',
+  'small_talk',
+  'feedback'
+] as const;
+
+export type QueryIntent = typeof QUERY_INTENTS[number];
+
+// Intents answered with Qloo data; everything else goes to history, persona or general chat
+export const QLOO_INTENTS: QueryIntent[] = ['recommendation', 'entity_lookup', 'comparison', 'trip_planning'];
+
+const IntentClassificationSchema = z.object({
+  intent: z.enum(QUERY_INTENTS).describe('The single best intent for the latest user message'),
+  confidence: z.number().min(0).max(1).describe('Confidence in the chosen intent'),
+  reasoning: z.string().describe('One sentence explaining the choice'),
+  alternatives: z.array(z.object({
+    intent: z.enum(QUERY_INTENTS),
+    confidence: z.number().min(0).max(1)
+  })).describe('Other plausible intents with their confidence, best first')
+});
+
+export type IntentClassification = z.infer<typeof IntentClassificationSchema>;
+
+export class IntentClassifier {
+  async classify(userQuery: string, recentMessages: Array<{ role: string; content: string }> = []): Promise<IntentClassification> {
+    const history = recentMessages
+      .slice(-4)
+      .map(message => `${message.role}: ${message.content.slice(0, 200)}`)
+      .join('\n');
+
+    const { object } = await generateObjectWithCassette<IntentClassification>('IntentClassifier.classify', {
+      model: getModel('extraction'),
+      schema: IntentClassificationSchema,
+      schemaName: 'IntentClassification',
+      schemaDescription: 'Classify what the user wants from the assistant',
+      prompt: `Classify the intent of the latest user message in a chat with a cultural recommendation assistant backed by the Qloo taste API.
+
+Intents:
+- recommendation: wants suggestions (restaurants, movies, brands, artists, books, places, games...)
+- entity_lookup: asks about one specific named thing ("tell me about Nobu", "find the movie Arrival")
+- comparison: wants two or more specific things compared ("Nike vs Adidas")
+- trip_planning: wants a day-by-day plan for a trip to one or more cities ("3 days in Lisbon then Porto: where to eat, what to see")
+- chat_history: asks about earlier conversation or what they told you before
+- persona_update: shares facts about themselves (name, location, age, likes/dislikes) without asking for anything
+- small_talk: greetings, thanks, general knowledge or anything unrelated to taste/recommendations
+- feedback: reacts to previous recommendations ("loved the second one", "those were bad")
+
+Note: "I like X" alone is persona_update, "something like X" is recommendation, "what is X" about a specific venue/title is entity_lookup.
+${history ? `\nRecent conversation:\n${history}\n` : ''}
+Latest user message: "${userQuery}"`,
+      maxTokens: 300,
+    });
+
+    trackAgentActivity('INTENT CLASSIFIER', 'Classified query intent', {
+      userQuery,
+      intent: object.intent,
+      confidence: object.confidence
+    });
+
+    return object;
+  }
+}
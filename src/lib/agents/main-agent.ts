@@ -1,21 +1,32 @@
-import { generateText } from 'ai';
-import { google } from '@ai-sdk/google';
+import { getModel } from '../llm/models';
 import { QlooAgent } from './qloo-agent';
 import { QlooParameters, ApiResponse } from '../../types';
 import { getInsights, getEntity, getTags } from '../qloo/api';
 import { parseQlooResponse, ParsedResponse } from '../qloo/parser';
 import { AgentContext, ChatMessage } from '../../types';
 import { broadcastDebugMessage } from '../utils/debug';
-import { PersonaManager, PersonalInterest } from './persona-manager';
+import { generateTextWithCassette, streamTextWithCassette } from '../utils/cassette';
+import { PersonaManager, PersonalInterest, PersonaSignals } from './persona-manager';
 import { getDatabaseService } from '../database/database';
-import { ChatHistoryAgent } from './chat-history-agent';
+import { ChatHistoryAgent, MessageCitation } from './chat-history-agent';
 import { EntityRetrievalTool } from './entity-retrieval-tool';
 import { SignalTagSelector } from './signal-tag-selector';
+import { TripPlanner } from './trip-planner';
+import { NarrativeGenerator } from './narrative-generator';
+import { IntentClassifier, QLOO_INTENTS, QueryIntent } from './intent-classifier';
+import { config } from '../config';
+import { entityTypeLabel, getEntityTypeDefinition, guessEntityType } from '../qloo/entity-types';
+import { attachSignalSources, summarizeDrivers } from '../qloo/explainability';
+
+// Interests below this average share of the explanations aren't named in the answer
+const MIN_DRIVER_SHARE = 0.1;
 
 export class MainAgent {
   private qlooAgent: QlooAgent;
   private personaManager: PersonaManager;
   private tagSelector: SignalTagSelector;
+  private intentClassifier: IntentClassifier;
+  private narrativeGenerator: NarrativeGenerator;
   private context: AgentContext;
 
   constructor(context: AgentContext = {}) {
@@ -23,13 +34,16 @@ export class MainAgent {
     this.qlooAgent = new QlooAgent(context);
     this.personaManager = new PersonaManager();
     this.tagSelector = new SignalTagSelector();
+    this.intentClassifier = new IntentClassifier();
+    this.narrativeGenerator = new NarrativeGenerator();
   }
 
   async processQuery(
     userQuery: string,
     sessionId?: string,
     onStep?: (step: string, details: any) => void,
-    messages?: ChatMessage[]
+    messages?: ChatMessage[],
+    onToken?: (delta: string) => void
   ): Promise<string> {
     let parameters: QlooParameters | undefined;
     
@@ -116,7 +130,7 @@ Use this persona data to provide personalized recommendations. Consider their in
 
       // Step 1: Query Analysis & Intent Detection
       onStep?.('query-analysis', { query: userQuery, status: 'starting' });
-      const intent = await this.analyzeQueryIntent(userQuery);
+      const intent = await this.analyzeQueryIntent(userQuery, messages, sessionId);
       console.log('🎯 Intent analysis result:', intent);
       onStep?.('query-analysis', { 
         query: userQuery, 
@@ -148,13 +162,17 @@ Use this persona data to provide personalized recommendations. Consider their in
         console.log('🎯 Taking chat history path');
         onStep?.('chat-history', { reason: 'Chat history query detected' });
         return await this.handleChatHistoryQuery(userQuery, sessionId || '');
+      } else if (intent.intent === 'trip_planning') {
+        console.log('🎯 Taking trip planning path');
+        onStep?.('trip-planning', { reason: 'Trip planning request detected' });
+        return await this.generateTripPlan(userQuery, intent, sessionId);
       } else if (intent.shouldUseQloo) {
         console.log('🎯 Taking Qloo path');
         return await this.generateQlooResponse(userQuery, intent, personaContext, personaData);
       } else {
         console.log('🎯 Taking general response path');
         onStep?.('general-response', { reason: 'Not a Qloo-related query' });
-        return await this.generateGeneralResponse(userQuery, personaContext);
+        return await this.generateGeneralResponse(userQuery, personaContext, onToken);
       }
 
     } catch (error) {
@@ -233,14 +251,62 @@ Or just ask me for recommendations and I'll help you discover new things! 🚀`;
     }
   }
 
-    private async analyzeQueryIntent(userQuery: string): Promise<{
+  private async analyzeQueryIntent(userQuery: string, messages?: ChatMessage[], sessionId?: string): Promise<{
     shouldUseQloo: boolean;
     intent: string;
     confidence: number;
+    source: 'llm' | 'rules';
   }> {
-    // Temporarily use only rule-based analysis to debug the issue
-    console.log('🎯 Using rule-based intent analysis for:', userQuery);
-    return this.ruleBasedIntentAnalysis(userQuery);
+    let result: { shouldUseQloo: boolean; intent: string; confidence: number; source: 'llm' | 'rules' };
+    let classification: Awaited<ReturnType<IntentClassifier['classify']>> | null = null;
+    let fallbackReason: string | undefined;
+
+    try {
+      classification = await this.intentClassifier.classify(userQuery, messages || []);
+      console.log('🎯 LLM intent classification:', classification);
+
+      if (classification.confidence < config.intentConfidenceThreshold) {
+        fallbackReason = `Low confidence (${classification.confidence})`;
+      }
+    } catch (error) {
+      console.log('⚠️ Intent classifier failed, using rules:', error);
+      fallbackReason = error instanceof Error ? error.message : 'Classifier error';
+    }
+
+    if (classification && !fallbackReason) {
+      result = {
+        shouldUseQloo: QLOO_INTENTS.includes(classification.intent as QueryIntent),
+        intent: classification.intent,
+        confidence: classification.confidence,
+        source: 'llm'
+      };
+    } else {
+      console.log('🎯 Using rule-based intent analysis for:', userQuery, '-', fallbackReason);
+      result = { ...this.ruleBasedIntentAnalysis(userQuery), source: 'rules' };
+    }
+
+    // Keep every routing decision next to the parameter extractions so misroutes can be audited
+    if (sessionId) {
+      try {
+        const databaseService = getDatabaseService();
+        await databaseService.logIntentClassification(sessionId, {
+          query: userQuery,
+          intent: result.intent,
+          confidence: result.confidence,
+          source: result.source,
+          shouldUseQloo: result.shouldUseQloo,
+          classifierIntent: classification?.intent,
+          classifierConfidence: classification?.confidence,
+          reasoning: classification?.reasoning || fallbackReason || '',
+          alternatives: classification?.alternatives || [],
+          fallbackReason
+        });
+      } catch (dbError) {
+        console.error('❌ Failed to log intent classification:', dbError);
+      }
+    }
+
+    return result;
   }
 
   private ruleBasedIntentAnalysis(userQuery: string): {
@@ -272,7 +338,14 @@ Or just ask me for recommendations and I'll help you discover new things! 🚀`;
       'before', 'last time', 'remember when', 'what was that'
     ];
     
+    // Patterns that indicate a multi-day trip plan; word boundaries keep "the Strip" and "birthday in" out
+    const tripPatterns = [
+      /\b(itinerary|itineraries|trip|travel plan)\b/,
+      /\b(\d+|a|one|two|three|four|five|six|seven|eight|nine|ten)\s+(days?|nights?|weeks?|weekends?)\s+in\b/
+    ];
+    
     const hasQlooKeywords = qlooKeywords.some(keyword => query.includes(keyword));
+    const hasTripKeywords = tripPatterns.some(pattern => pattern.test(query));
     const hasGeneralKeywords = generalKeywords.some(keyword => query.includes(keyword));
     const hasHistoryKeywords = historyKeywords.some(keyword => query.includes(keyword));
     
@@ -281,6 +354,7 @@ Or just ask me for recommendations and I'll help you discover new things! 🚀`;
       hasQlooKeywords,
       hasGeneralKeywords,
       hasHistoryKeywords,
+      hasTripKeywords,
       qlooKeywordsFound: qlooKeywords.filter(keyword => query.includes(keyword)),
       historyKeywordsFound: historyKeywords.filter(keyword => query.includes(keyword))
     });
@@ -293,6 +367,14 @@ Or just ask me for recommendations and I'll help you discover new things! 🚀`;
       };
     }
     
+    if (hasTripKeywords) {
+      return {
+        shouldUseQloo: true,
+        intent: 'trip_planning',
+        confidence: 0.8
+      };
+    }
+    
     if (hasQlooKeywords && !hasGeneralKeywords) {
       return {
         shouldUseQloo: true,
@@ -308,17 +390,21 @@ Or just ask me for recommendations and I'll help you discover new things! 🚀`;
     };
   }
 
-  private async generateQlooResponse(
+  // Options let callers (e.g. persona comparison) share one parameter extraction and bring their own persona signals
+  async generateQlooResponse(
     userQuery: string, 
-    intent: { shouldUseQloo: boolean; intent: string; confidence: number }, 
+    intent: { shouldUseQloo: boolean; intent: string; confidence: number; source?: string }, 
     personaContext: string, 
-    personaData: { interests?: PersonalInterest[]; summary?: Record<string, unknown>; details?: Record<string, unknown>; topCategories?: string[]; confidence?: number } | null
+    personaData: { interests?: PersonalInterest[]; summary?: Record<string, unknown>; details?: Record<string, unknown>; topCategories?: string[]; confidence?: number } | null,
+    options: { parameters?: QlooParameters; signals?: PersonaSignals } = {}
   ): Promise<string> {
     try {
       console.log('🎯 generateQlooResponse called with:', { userQuery, intent });
       
       // Step 1: Extract QLOO parameters
-      const extractionResult = await this.qlooAgent.extractParameters(userQuery);
+      const extractionResult = options.parameters
+        ? { parameters: options.parameters }
+        : await this.qlooAgent.extractParameters(userQuery);
       console.log('🎯 Parameter extraction result:', extractionResult);
 
       if (!extractionResult.parameters) {
@@ -327,22 +413,31 @@ Or just ask me for recommendations and I'll help you discover new things! 🚀`;
 
       // Step 2: Call QLOO API with persona signals
       let apiResponse: ApiResponse<any>;
+      let personaSignals: PersonaSignals | undefined;
       const startTime = Date.now();
 
       if (extractionResult.parameters.targetAPI === 'GETINSIGHTS') {
         console.log('🎯 About to generate persona signals for entity type:', extractionResult.parameters.entityType);
-        const personaSignals = await this.personaManager.generateSignals(extractionResult.parameters.entityType);
+        personaSignals = options.signals ?? await this.personaManager.generateSignals(extractionResult.parameters.entityType);
         console.log('🎯 Using persona signals for recommendations:', personaSignals);
         console.log('🎯 Entity type for signals:', extractionResult.parameters.entityType);
+
+        // Dislikes, rejected recommendations and demographics apply whether or not there are interest signals
+        const personaParams = {
+          excludeTags: [...(extractionResult.parameters.excludeTags || []), ...(personaSignals.excludeTags || [])],
+          excludeEntities: [...(extractionResult.parameters.excludeEntities || []), ...(personaSignals.excludeEntities || [])],
+          demographics: extractionResult.parameters.demographics || personaSignals.demographics
+        };
         
         // Check if we have signals for insights
-        if (personaSignals.entitySignals.length > 0 || personaSignals.audienceSignals.length > 0 || personaSignals.tagSignals.length > 0) {
+        if (personaSignals.entitySignals.length > 0 || personaSignals.audienceSignals.length > 0 || personaSignals.tagSignals.length > 0 || personaParams.demographics) {
           // Add persona signals to the parameters
           const enhancedParams = {
             ...extractionResult.parameters,
             signalEntities: personaSignals.entitySignals,
             signalAudiences: personaSignals.audienceSignals,
-            signalTags: personaSignals.tagSignals
+            signalTags: personaSignals.tagSignals,
+            ...personaParams
           };
           
           // If we have filterTags from parameter extraction, use them as additional signal tags
@@ -374,6 +469,7 @@ Or just ask me for recommendations and I'll help you discover new things! 🚀`;
           try {
             apiResponse = await getInsights(enhancedParams, this.context.sessionId);
             console.log('✅ Insights API call successful');
+            await this.trackDemographicShift(enhancedParams, apiResponse);
             console.log('📊 API Response data structure:', {
               hasResults: !!apiResponse.data,
               hasEntities: !!(apiResponse.data && apiResponse.data.entities),
@@ -430,11 +526,13 @@ Or just ask me for recommendations and I'll help you discover new things! 🚀`;
             // Use filterTags as signal tags
             const enhancedParams = {
               ...extractionResult.parameters,
-              signalTags: extractionResult.parameters.filterTags
+              signalTags: extractionResult.parameters.filterTags,
+              ...personaParams
             };
             try {
               apiResponse = await getInsights(enhancedParams, this.context.sessionId);
               console.log('✅ Insights API call with filterTags successful');
+              await this.trackDemographicShift(enhancedParams, apiResponse);
             } catch (insightsError) {
               console.error('❌ Insights API call with filterTags failed:', insightsError);
               // Fallback to entity search with enhanced query for sport brands
@@ -521,6 +619,12 @@ Or just ask me for recommendations and I'll help you discover new things! 🚀`;
         console.log('🔍 API response.data.results.entities count:', apiResponse.data?.results?.entities?.length || 0);
         
         parsedResponse = parseQlooResponse(apiResponse, 'summary');
+        // Explanations name signal IDs; point them back at the persona interests they came from
+        parsedResponse.entities.forEach(entity => {
+          if (entity.explanation) {
+            entity.explanation = attachSignalSources(entity.explanation, personaSignals?.sources);
+          }
+        });
         console.log('📊 Parsed response structure:', {
           entityCount: parsedResponse.entities?.length || 0,
           hasEntities: !!(parsedResponse.entities && parsedResponse.entities.length > 0),
@@ -564,12 +668,11 @@ Or just ask me for recommendations and I'll help you discover new things! 🚀`;
             const rawEntities = apiResponse.data.results?.entities || apiResponse.data.entities || [];
             const databaseService = getDatabaseService();
             await databaseService.storeEntitiesFromResponse(
-                this.context.sessionId,
-                rawEntities,
-                'insights-api'
-              );
-              console.log('💾 Stored full entity data in database');
-            }
+              this.context.sessionId,
+              rawEntities,
+              'insights-api'
+            );
+            console.log('💾 Stored full entity data in database');
           } catch (dbError) {
             console.error('❌ Failed to store entities:', dbError);
           }
@@ -732,12 +835,20 @@ Or just ask me for recommendations and I'll help you discover new things! 🚀`;
     }
   }
 
+  // Remember what the persona's demographics were sent with, so the sidebar can measure their effect on request
+  private async trackDemographicShift(parameters: QlooParameters, apiResponse: ApiResponse<any>) {
+    if (!this.context.sessionId || !parameters.demographics) return;
+
+    const entities = apiResponse.data?.results?.entities || apiResponse.data?.entities || [];
+    await this.personaManager.rememberDemographicQuery(parameters, entities.map((entity: any) => entity.name));
+  }
+
   private async generatePersonalizedResponse(
     userQuery: string,
     parsedResponse: ParsedResponse,
     parameters: QlooParameters,
-    _personaContext: string,
-    _personaData: { interests?: PersonalInterest[]; summary?: Record<string, unknown>; details?: Record<string, unknown>; topCategories?: string[]; confidence?: number } | null
+    personaContext: string,
+    personaData: { interests?: PersonalInterest[]; summary?: Record<string, unknown>; details?: Record<string, unknown>; topCategories?: string[]; confidence?: number } | null
   ): Promise<string> {
     try {
       console.log('🎯 Generating personalized response with entities:', parsedResponse.entities?.length || 0);
@@ -760,48 +871,48 @@ Or just ask me for recommendations and I'll help you discover new things! 🚀`;
 • Check if the API is working properly`;
       }
 
-      // Determine the entity type from the first entity or parameters
-      const entityType = parsedResponse.entities[0]?.type || parameters.entityType || 'unknown';
-      const userQueryLower = userQuery.toLowerCase();
-      
-      // Use both entity type and user query to determine category
-      const isRestaurant = (entityType.includes('place') && (userQueryLower.includes('restaurant') || userQueryLower.includes('food') || userQueryLower.includes('dining'))) || entityType.includes('restaurant');
-      const isMovie = entityType.includes('movie') || entityType.includes('film') || userQueryLower.includes('movie') || userQueryLower.includes('film');
-      const isBrand = entityType.includes('brand') || entityType.includes('company') || userQueryLower.includes('brand');
-      const isMusic = entityType.includes('music') || entityType.includes('artist') || userQueryLower.includes('music') || userQueryLower.includes('artist') || userQueryLower.includes('song');
-      const isBook = entityType.includes('book') || entityType.includes('author') || userQueryLower.includes('book') || userQueryLower.includes('read');
-      const isPlace = entityType.includes('place') && !isRestaurant && !isMusic; // Generic places that aren't restaurants or music venues
-
-      // Create appropriate header based on entity type
-      let header = '';
-      if (isRestaurant) {
+      // Determine the entity type from the first entity or parameters, then from the query itself
+      const definition = getEntityTypeDefinition(parsedResponse.entities[0]?.type) ||
+        getEntityTypeDefinition(parameters.entityType) ||
+        getEntityTypeDefinition(guessEntityType(userQuery));
+      // Places cover far more than food, so only say restaurants when the user asked about eating
+      const isDining = definition?.urn === 'urn:entity:place' && /restaurant|food|dining/.test(userQuery.toLowerCase());
+
+      // Create appropriate header and footer based on entity type
+      let header = '🎯 Based on your interests, here are some great recommendations for you:';
+      let footer = 'These recommendations are personalized based on your interests and preferences. Would you like me to tell you more about any of these items?';
+      if (isDining) {
         header = '🍽️ Based on your interests, here are some great restaurant recommendations for you:';
-      } else if (isMovie) {
-        header = '🎬 Based on your interests, here are some great movie recommendations for you:';
-      } else if (isBrand) {
-        header = '🏢 Based on your interests, here are some great brand recommendations for you:';
-      } else if (isMusic) {
-        header = '🎵 Based on your interests, here are some great music recommendations for you:';
-      } else if (isBook) {
-        header = '📚 Based on your interests, here are some great book recommendations for you:';
-      } else {
-        header = '🎯 Based on your interests, here are some great recommendations for you:';
+        footer = 'These recommendations are personalized based on your dining preferences. Would you like me to tell you more about any of these restaurants or suggest similar places?';
+      } else if (definition) {
+        const singular = definition.displayName.toLowerCase();
+        const plural = definition.pluralName.toLowerCase();
+        header = `${definition.icon} Based on your interests, here are some great ${singular} recommendations for you:`;
+        footer = `These recommendations are personalized based on your ${singular} preferences. Would you like me to tell you more about any of these ${plural} or suggest similar ${plural}?`;
       }
 
-      // Create footer with appropriate call-to-action
-      let footer = '';
-      if (isRestaurant) {
-        footer = 'These recommendations are personalized based on your dining preferences. Would you like me to tell you more about any of these restaurants or suggest similar places?';
-      } else if (isMovie) {
-        footer = 'These recommendations are personalized based on your movie preferences. Would you like me to tell you more about any of these films or suggest similar movies?';
-      } else if (isBrand) {
-        footer = 'These recommendations are personalized based on your brand preferences. Would you like me to tell you more about any of these brands or suggest similar companies?';
-      } else if (isMusic) {
-        footer = 'These recommendations are personalized based on your music preferences. Would you like me to tell you more about any of these artists or suggest similar music?';
-      } else if (isBook) {
-        footer = 'These recommendations are personalized based on your reading preferences. Would you like me to tell you more about any of these books or suggest similar reads?';
-      } else {
-        footer = 'These recommendations are personalized based on your interests and preferences. Would you like me to tell you more about any of these items?';
+      // Name the interests that did most of the work, from Qloo's explainability
+      const drivers = summarizeDrivers(parsedResponse.entities.flatMap(entity => entity.explanation ? [entity.explanation] : []))
+        .filter(driver => driver.share >= MIN_DRIVER_SHARE)
+        .slice(0, 3);
+      if (drivers.length > 0) {
+        const names = drivers.map(driver => `${driver.interestName} (${Math.round(driver.share * 100)}%)`);
+        const list = names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+        header = header.replace('Based on your interests', `Based mostly on your interest in ${list}`);
+        footer = `Open "Why this?" on any card to see which of your interests it came from. ${footer.replace(/^These recommendations are personalized based on [^.]+\. /, '')}`;
+      }
+
+      // Optional per-item blurbs; everything they claim has been checked against the Qloo payload
+      if (config.recommendationNarratives) {
+        const narrative = await this.narrativeGenerator.generate(parsedResponse.entities, {
+          userQuery,
+          personaContext,
+          interestNames: personaData?.interests?.map(interest => interest.name)
+        });
+        if (narrative) {
+          const blurbs = narrative.items.map(item => `• ${item.name}: ${item.blurb}`).join('\n');
+          return [header, narrative.intro, blurbs, footer].filter(Boolean).join('\n\n');
+        }
       }
 
       // Generate simple text response without entity names (they'll be shown in visual components)
@@ -829,7 +940,7 @@ ${footer}`;
     }
   }
 
-  private async generateGeneralResponse(userQuery: string, personaContext: string): Promise<string> {
+  private async generateGeneralResponse(userQuery: string, personaContext: string, onToken?: (delta: string) => void): Promise<string> {
     try {
       const prompt = `You are QLooTwin, a friendly and knowledgeable AI assistant. You can chat about anything - from casual conversation to answering questions about any topic.
 
@@ -858,11 +969,16 @@ Use this persona information to make your response more personalized and relevan
 
 Provide a helpful, conversational response to the user's query.`;
 
-      const response = await generateText({
-        model: google('gemini-2.5-flash'),
+      const options = {
+        model: getModel('chat'),
         prompt,
         maxTokens: 600,
-      });
+      };
+
+      // Stream tokens straight to the caller when it can render them progressively
+      const response = onToken
+        ? await streamTextWithCassette('MainAgent.generateGeneralResponse', options, onToken)
+        : await generateTextWithCassette('MainAgent.generateGeneralResponse', options);
 
       return response.text;
     } catch (error) {
@@ -885,6 +1001,11 @@ Provide a helpful, conversational response to the user's query.`;
     }
   }
 
+  // Metadata (entities, intent, source) describing the last generated response
+  getLastResponseMetadata(): AgentContext['lastResponseMetadata'] {
+    return this.context.lastResponseMetadata;
+  }
+
   // Update agent context
   updateContext(newContext: Partial<AgentContext>): void {
     this.context = { ...this.context, ...newContext };
@@ -892,6 +1013,50 @@ Provide a helpful, conversational response to the user's query.`;
     this.qlooAgent.updateContext(newContext);
   }
 
+  // Quote matched messages, numbered, with who said them and when
+  private formatMessageCitations(citations: MessageCitation[]): string {
+    if (citations.length === 0) return '';
+
+    const quotes = citations.map((citation, index) => `> ${citation.snippet} [${index + 1}]`).join('\n>\n');
+    const sources = citations.map((citation, index) => {
+      const speaker = citation.role === 'user' ? 'You' : 'Me';
+      const when = citation.timestamp ? `, ${new Date(citation.timestamp).toLocaleString()}` : '';
+      return `[${index + 1}] ${speaker}${when}`;
+    }).join('\n');
+
+    return `\n\n**From our conversation:**\n${quotes}\n\n${sources}`;
+  }
+
+  // Multi-city, day-by-day plans; the UI renders the structured itinerary from the response metadata
+  async generateTripPlan(
+    userQuery: string,
+    intent: { intent: string; confidence: number },
+    sessionId?: string
+  ): Promise<string> {
+    try {
+      const itinerary = await new TripPlanner(sessionId).plan(userQuery);
+
+      this.context.lastResponseMetadata = {
+        itinerary,
+        intent: intent.intent,
+        source: 'trip-planner',
+        entityCount: itinerary.days.reduce((sum, day) => sum + day.stops.filter(stop => stop.place).length, 0)
+      };
+
+      const personalization = itinerary.personalized
+        ? 'Picks are tuned to your taste profile.'
+        : 'Tell me what you like and I can tune the picks to your taste.';
+      const dayLines = itinerary.days.map(day => {
+        const names = day.stops.filter(stop => stop.place).map(stop => stop.place!.name);
+        return `Day ${day.day} · ${day.city}: ${names.length > 0 ? names.join(', ') : 'nothing found yet'}`;
+      });
+      return `Here's your ${itinerary.days.length}-day plan for ${itinerary.legs.map(leg => leg.city).join(' → ')} 🗺️\n\n${dayLines.join('\n')}\n\n${personalization} Each day keeps its stops close together; the full plan with times is below and can be exported.`;
+    } catch (error) {
+      console.error('❌ Trip planning failed:', error);
+      return `I couldn't put that trip together. Try naming the cities and how long you'll stay, e.g. "3 days in Lisbon then 2 in Porto".`;
+    }
+  }
+
   // Handle chat history queries
   async handleChatHistoryQuery(userQuery: string, sessionId: string): Promise<string> {
     try {
@@ -911,21 +1076,36 @@ Provide a helpful, conversational response to the user's query.`;
         includeEntities: true
       });
       
+      if (result.recaps) {
+        if (result.recaps.length === 0) {
+          return `We haven't talked enough yet for me to have a recap. Ask me for some recommendations and I'll remember what we covered!`;
+        }
+        const recapList = result.recaps.map(recap => {
+          const label = recap.isCurrentSession ? 'This chat' : `${recap.title || 'Earlier chat'} (${new Date(recap.updatedAt).toLocaleDateString()})`;
+          return `**${label}:** ${recap.summary}`;
+        }).join('\n\n');
+        return `Here's what we've talked about:\n\n${recapList}\n\nWant to pick up where we left off?`;
+      }
+
       if (result.found) {
         if (result.entityDetails) {
           // User asked about a specific entity
           const entity = result.entityDetails;
           return `I found information about **${entity.name}** in our conversation history:\n\n` +
-                 `**Type:** ${entity.type}\n` +
+                 `**Type:** ${entityTypeLabel(entity.type)}\n` +
                  `**Description:** ${entity.description || 'No description available'}\n` +
-                 `**Source:** ${result.source === 'database' ? 'From our previous conversation' : 'Fetched from Qloo API'}\n\n` +
-                 `Would you like to know more about this ${entity.type.replace('urn:entity:', '')} or get similar recommendations?`;
+                 `**Source:** ${result.source === 'database' ? 'From our previous conversation' : 'Fetched from Qloo API'}` +
+                 `${this.formatMessageCitations(result.messages)}\n\n` +
+                 `Would you like to know more about this ${entityTypeLabel(entity.type).toLowerCase()} or get similar recommendations?`;
         } else {
           // User asked about general chat history
-          const entityList = result.entities.slice(0, 5).map(e => `- ${e.name} (${e.type.replace('urn:entity:', '')})`).join('\n');
-          return `I found these items from our previous conversation:\n\n${entityList}\n\n` +
+          const entityList = result.entities.slice(0, 5).map(e => `- ${e.name} (${entityTypeLabel(e.type)})`).join('\n');
+          return `I found these items from our previous conversation:\n\n${entityList}` +
+                 `${this.formatMessageCitations(result.messages)}\n\n` +
                  `What specific information would you like to know about any of these?`;
         }
+      } else if (result.messages.length > 0) {
+        return `I couldn't find a matching item, but here's what we said about it:${this.formatMessageCitations(result.messages)}`;
       } else {
         return `I don't have any information about that in our conversation history. Would you like me to search for it using the Qloo API?`;
       }
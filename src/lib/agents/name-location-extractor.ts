@@ -1,5 +1,5 @@
 import { generateText } from 'ai';
-import { google } from '@ai-sdk/google';
+import { getModel } from '../llm/models';
 import { broadcastDebugMessage } from '../utils/debug';
 
 export interface ExtractedNameLocation {
@@ -24,7 +24,7 @@ export class NameLocationExtractor {
   async extractFromMessage(message: string): Promise<ExtractedNameLocation> {
     try {
       const result = await generateText({
-        model: google('gemini-2.5-flash'),
+        model: getModel('extraction'),
         prompt: `Extract the user's name, location, and gender from this message. If no name, location, or gender is mentioned, return null for that field.
 
 Message: "${message}"
@@ -100,7 +100,7 @@ Only return valid JSON.`,
         .join('\n');
 
       const result = await generateText({
-        model: google('gemini-2.5-flash'),
+        model: getModel('extraction'),
         prompt: `Analyze this conversation and extract the user's name, location, and gender.
 
 Conversation:
@@ -0,0 +1,270 @@
+import { z } from 'zod';
+import { getModel } from '../llm/models';
+import { ParsedEntity } from '../qloo/parser';
+import { generateObjectWithCassette } from '../utils/cassette';
+
+const NarrativeSchema = z.object({
+  intro: z.string().optional().describe('One sentence tying the picks to the user, or empty'),
+  items: z.array(z.object({
+    entityId: z.string().describe('The id of the entity exactly as given'),
+    blurb: z.string().describe('One or two sentences on why this pick suits the user')
+  }))
+});
+
+type RawNarrative = z.infer<typeof NarrativeSchema>;
+
+export interface EntityNarrative {
+  entityId: string;
+  name: string;
+  blurb: string;
+  rewritten: boolean; // True when nothing the model wrote survived grounding and the blurb came from the facts alone
+}
+
+export interface NarrativeResult {
+  intro?: string;
+  items: EntityNarrative[];
+  dropped: Array<{ entityId?: string; sentence: string; reason: string }>;
+}
+
+export interface NarrativeOptions {
+  userQuery: string;
+  personaContext?: string;
+  interestNames?: string[]; // Persona interests the text may mention by name
+}
+
+// Words a blurb may use without the payload backing them: grammar plus plain recommendation talk.
+// Anything else (names, "rooftop", "michelin-starred", "family-run") has to come from the facts
+const CONNECTIVE_WORDS = new Set(`
+  a an the and or but so if as of in on at to for with from by about into onto near than then
+  this that these those it its itll thats theres heres whats
+  is are was were be been being has have had do does did will would could should can may might must
+  i im ive id ill me my we our us you your yours youre youll youve youd they their them
+  what which who where when why how here there just also too very really quite more most much many
+  some any all both each every one another other such only even still again well not no nor
+  up out over along alongside plus whether while
+  great good perfect ideal lovely nice fun solid strong top best favorite favourite fresh easy sure
+  fit fits fitting suit suits suited match matches matched matching taste tastes style vibe mood
+  pick picks picked choice option bet spot place recommendation recommend recommended worth
+  try check visit explore enjoy enjoyed love loved like liked appreciate fan fans
+  interest interests based because given since thanks kind sort experience moment time next
+  affinity score percent high highly close closely align aligns aligned
+  similar related connection connects reflects echoes shares share same overlap
+  definitely likely probably maybe want wants looking look find get gives give offers offer brings bring
+  feel feels right day night evening morning afternoon weekend
+  monday tuesday wednesday thursday friday saturday sunday
+`.trim().split(/\s+/));
+
+// Words that state a fact, allowed only when the entity has that fact
+const FACT_WORDS: Record<string, string[]> = {
+  address: ['address', 'located', 'location'],
+  rating: ['rated', 'rating', 'stars'],
+  priceLevel: ['priced', 'price'],
+  releaseYear: ['released', 'release', 'year'],
+  director: ['director', 'directed'],
+  author: ['author', 'written', 'wrote'],
+  genre: ['genre']
+};
+
+// What a sentence may draw on: words (and their stems), numbers and a price level
+interface Grounding {
+  words: Set<string>;
+  stems: Set<string>;
+  numbers: Set<string>;
+  priceLevel?: number;
+}
+
+// Short per-item blurbs written by the LLM from the Qloo payload, kept only where the payload backs them up
+export class NarrativeGenerator {
+  async generate(entities: ParsedEntity[], options: NarrativeOptions): Promise<NarrativeResult | null> {
+    if (entities.length === 0) return null;
+
+    try {
+      const { object } = await generateObjectWithCassette<RawNarrative>('NarrativeGenerator.generate', {
+        model: getModel('chat'),
+        schema: NarrativeSchema,
+        schemaName: 'RecommendationNarrative',
+        schemaDescription: 'A personalized blurb for each recommended entity',
+        prompt: `Write a short, warm blurb (one or two sentences) for each recommendation below, saying why it suits this user.
+
+Rules:
+- Use ONLY the facts listed for each item. Do not add addresses, ratings, years, prices, people or places that are not listed.
+- Do not mention any business, title or person other than the listed items and the user's interests.
+- Describe each item only with words from its own facts; otherwise keep to plain phrases like "a great fit for your taste". No awards, views, history or atmosphere that isn't listed.
+- Refer to items by their id in "entityId".
+${options.personaContext ? `\nAbout the user:${options.personaContext}\n` : ''}
+User asked: "${options.userQuery}"
+
+Recommendations:
+${entities.map(entity => JSON.stringify(describeEntity(entity))).join('\n')}`,
+        maxTokens: 800,
+      });
+
+      const result = groundNarrative(object, entities, options);
+      if (result.dropped.length > 0) {
+        console.log(`⚠️ Dropped ${result.dropped.length} ungrounded narrative sentence(s):`, result.dropped);
+      }
+      return result;
+    } catch (error) {
+      console.error('❌ Narrative generation failed:', error);
+      return null;
+    }
+  }
+}
+
+// Check every sentence against the Qloo payload. A blurb may only use its own entity's facts,
+// the persona's interests and CONNECTIVE_WORDS. The intro may also name the entities and echo
+// query words that some entity's facts back, but states no numbers. The query alone grounds nothing:
+// asking for "cozy rooftop bars" doesn't make a bar cozy. Failing sentences are dropped, and an
+// emptied blurb is rewritten from the facts
+export function groundNarrative(narrative: RawNarrative, entities: ParsedEntity[], options: NarrativeOptions): NarrativeResult {
+  const shared = (options.interestNames || []).join(' ');
+  const entitiesById = new Map(entities.map(entity => [String(entity.id), entity]));
+  const dropped: NarrativeResult['dropped'] = [];
+
+  const keepGrounded = (text: string, grounding: Grounding, entityId?: string) =>
+    splitSentences(text).filter(sentence => {
+      const reason = ungroundedReason(sentence, grounding);
+      if (reason) dropped.push({ entityId, sentence, reason });
+      return !reason;
+    }).join(' ');
+
+  const blurbs = new Map<string, string>();
+  (narrative.items || []).forEach(item => {
+    const entity = entitiesById.get(String(item.entityId));
+    if (!entity) {
+      dropped.push({ entityId: item.entityId, sentence: item.blurb, reason: 'unknown entity id' });
+      return;
+    }
+    const blurb = keepGrounded(item.blurb || '', entityGrounding(entity, shared), item.entityId);
+    if (blurb) blurbs.set(String(item.entityId), blurb);
+  });
+
+  // The intro may echo the query only where some entity's facts back it ("Italian" for Italian restaurants)
+  const allFacts = words(entities.map(entityFacts).join(' '));
+  const echoed = Array.from(words(options.userQuery)).filter(word => allFacts.has(word)).join(' ');
+  const introGrounding = buildGrounding(`${shared} ${echoed} ${entities.map(entity => entity.name).join(' ')}`, '');
+
+  return {
+    intro: narrative.intro ? keepGrounded(narrative.intro, introGrounding) || undefined : undefined,
+    items: entities.map(entity => {
+      const blurb = blurbs.get(String(entity.id));
+      return {
+        entityId: String(entity.id),
+        name: entity.name,
+        blurb: blurb || templateBlurb(entity),
+        rewritten: !blurb
+      };
+    }),
+    dropped
+  };
+}
+
+// What the model is told about an entity, and all it may claim
+function describeEntity(entity: ParsedEntity): Record<string, unknown> {
+  const properties = entity.properties || {};
+  const drivers = (entity.explanation?.contributions || [])
+    .filter(contribution => contribution.source)
+    .slice(0, 2)
+    .map(contribution => contribution.source!.interestName);
+
+  return Object.fromEntries(Object.entries({
+    entityId: String(entity.id),
+    name: entity.name,
+    tags: entity.tags?.length ? entity.tags : undefined,
+    affinity: typeof entity.score === 'number' ? `${Math.round(entity.score * 100)}%` : undefined,
+    description: entity.description || properties.description,
+    address: properties.address,
+    rating: properties.business_rating || properties.rating,
+    priceLevel: properties.price_level,
+    releaseYear: properties.release_year,
+    director: properties.director,
+    author: properties.author,
+    genre: properties.genre,
+    becauseOfInterests: drivers.length ? drivers : undefined
+  }).filter(([, value]) => value !== undefined && value !== null && value !== ''));
+}
+
+function buildGrounding(text: string, numericText: string, priceLevel?: number): Grounding {
+  const allowed = new Set([...Array.from(CONNECTIVE_WORDS), ...Array.from(words(text))]);
+  return {
+    words: allowed,
+    stems: new Set(Array.from(allowed).map(stem)),
+    numbers: numbers(numericText),
+    priceLevel
+  };
+}
+
+// One entity's facts plus the persona's interests; nothing from the other entities
+function entityGrounding(entity: ParsedEntity, shared: string): Grounding {
+  const facts = entityFacts(entity);
+  const factWords = Object.keys(describeEntity(entity)).flatMap(field => FACT_WORDS[field] || []).join(' ');
+  const priceLevel = Number(entity.properties?.price_level);
+  return buildGrounding(`${shared} ${facts} ${factWords}`, facts, Number.isFinite(priceLevel) && priceLevel > 0 ? priceLevel : undefined);
+}
+
+// Everything describeEntity lists for the entity, as one string
+function entityFacts(entity: ParsedEntity): string {
+  return Object.values(describeEntity(entity)).map(value => Array.isArray(value) ? value.join(' ') : String(value)).join(' ');
+}
+
+function ungroundedReason(sentence: string, grounding: Grounding): string | null {
+  const unknownNumber = Array.from(numbers(sentence)).find(value => !grounding.numbers.has(value));
+  if (unknownNumber) {
+    return `number ${unknownNumber} is not in the Qloo data`;
+  }
+
+  const dollars = sentence.match(/\$+(?![\d])/);
+  if (dollars && grounding.priceLevel !== dollars[0].length) {
+    return `price ${dollars[0]} is not in the Qloo data`;
+  }
+
+  // Every word counts, the first one and lowercase descriptors included
+  const unknownWord = Array.from(words(sentence)).find(word =>
+    !/^\d+$/.test(word) && !grounding.words.has(word) && !grounding.stems.has(stem(word))
+  );
+  if (unknownWord) {
+    return `"${unknownWord}" is not in the Qloo data`;
+  }
+
+  return null;
+}
+
+// Facts-only blurb for when the model's text didn't survive grounding
+function templateBlurb(entity: ParsedEntity): string {
+  const properties = entity.properties || {};
+  const parts: string[] = [];
+
+  if (entity.tags?.length) parts.push(entity.tags.slice(0, 2).join(' and '));
+  if (typeof entity.score === 'number') parts.push(`${Math.round(entity.score * 100)}% match for your taste`);
+  const rating = properties.business_rating || properties.rating;
+  if (rating) parts.push(`rated ${rating}`);
+  if (properties.release_year) parts.push(`from ${properties.release_year}`);
+
+  const driver = entity.explanation?.contributions.find(contribution => contribution.source)?.source?.interestName;
+  const facts = parts.length > 0 ? `${parts.join(', ')}.` : 'A pick from your taste profile.';
+  const blurb = `${facts.charAt(0).toUpperCase()}${facts.slice(1)}`;
+  return driver ? `${blurb} Picked because of your interest in ${driver}.` : blurb;
+}
+
+function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+/).map(sentence => sentence.trim()).filter(Boolean);
+}
+
+// Lowercase and strip accents so "Café" and "cafe" compare equal
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+function words(text: string): Set<string> {
+  return new Set(normalize(text).replace(/['’-]/g, '').split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+}
+
+// Crude suffix stripping so "love"/"loved" and "bakeries"/"bakery" meet
+function stem(word: string): string {
+  return word.length > 3 ? word.replace(/(ies|ing|ed|es|ly|e|s|y)$/, '') : word;
+}
+
+// Numbers as written, without thousands separators: "1,658" -> "1658"
+function numbers(text: string): Set<string> {
+  return new Set(Array.from(text.replace(/(\d),(\d{3})/g, '$1$2').matchAll(/\d+(?:\.\d+)?/g)).map(match => match[0]));
+}
@@ -1,4 +1,4 @@
-import { google } from '@ai-sdk/google';
+import { getModel } from '../llm/models';
 import { generateText } from 'ai';
 
 export interface ParameterEvaluation {
@@ -92,7 +92,7 @@ Answer with JSON:
 }`;
 
     const result = await generateText({
-      model: google('gemini-2.5-flash'),
+      model: getModel('extraction'),
       prompt,
       maxTokens: 200
     });
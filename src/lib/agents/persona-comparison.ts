@@ -0,0 +1,200 @@
+import { QlooParameters } from '../../types';
+import { getDatabaseService } from '../database/database';
+import { ParsedEntity } from '../qloo/parser';
+import { MainAgent } from './main-agent';
+import { Persona, PersonaManager, PersonalInterest, PersonaSignals } from './persona-manager';
+import { QlooAgent } from './qloo-agent';
+
+export interface ComparedPersonaRef {
+  type: 'library' | 'session';
+  id: string;
+}
+
+export interface ComparedEntity {
+  id: string;
+  name: string;
+  type: string;
+  imageUrl?: string;
+  score: number | null; // Qloo affinity for this persona
+  rank: number;
+  sharedWith: number; // How many other personas also got this entity
+}
+
+export interface PersonaComparisonColumn {
+  key: string; // "<type>:<id>"
+  persona: ComparedPersonaRef & { name: string; interestCount: number };
+  signals: PersonaSignals;
+  response: string;
+  entities: ComparedEntity[];
+  uniqueEntityIds: string[];
+}
+
+export interface PersonaComparisonResult {
+  query: string;
+  parameters: QlooParameters;
+  columns: PersonaComparisonColumn[];
+  // Entities returned for two or more personas, with each persona's affinity (null = not returned)
+  overlap: Array<{ id: string; name: string; type: string; scores: Record<string, number | null> }>;
+  // Jaccard overlap of the entity sets for every pair of personas
+  similarity: Array<{ a: string; b: string; jaccard: number }>;
+}
+
+interface ResolvedPersona {
+  key: string;
+  ref: ComparedPersonaRef;
+  name: string;
+  interests: PersonalInterest[];
+  profile?: { gender?: string; demographics?: Persona['demographics'] };
+  sessionId?: string;
+}
+
+// Runs one recommendation query once per persona, each with its own signals, and lines the results up
+export class PersonaComparison {
+  // Session personas must belong to userId; library personas are shared
+  async compare(query: string, personas: ComparedPersonaRef[], userId: string): Promise<PersonaComparisonResult> {
+    if (personas.length < 2) {
+      throw new Error('At least two personas are needed for a comparison');
+    }
+
+    const resolved = await Promise.all(personas.map(ref => this.resolvePersona(ref, userId)));
+
+    // Extract parameters once so every persona answers exactly the same request
+    const extraction = await new QlooAgent().extractParameters(query);
+    if (!extraction.parameters) {
+      throw new Error('Failed to extract QLOO parameters');
+    }
+    const parameters = extraction.parameters;
+    console.log(`🔄 Comparing ${resolved.length} personas for "${query}"`);
+
+    const runs = await Promise.all(resolved.map(persona => this.runPersona(query, parameters, persona)));
+    const columns = this.buildColumns(resolved, runs);
+
+    return {
+      query,
+      parameters,
+      columns,
+      overlap: this.buildOverlap(columns),
+      similarity: this.buildSimilarity(columns)
+    };
+  }
+
+  private async resolvePersona(ref: ComparedPersonaRef, userId: string): Promise<ResolvedPersona> {
+    const key = `${ref.type}:${ref.id}`;
+
+    if (ref.type === 'library') {
+      const library = await getDatabaseService().getLibraryPersona(ref.id);
+      if (!library) {
+        throw new Error(`Library persona not found: ${ref.id}`);
+      }
+      const interests: PersonalInterest[] = library.interests.map((interest, index) => ({
+        id: `${library.id}:interest:${index}`,
+        category: interest.category,
+        name: interest.name,
+        entityId: interest.entityId,
+        confidence: interest.confidence,
+        source: 'library',
+        sentiment: interest.sentiment,
+        timestamp: new Date(library.updatedAt)
+      }));
+      return { key, ref, name: library.name, interests, profile: library.profile };
+    }
+
+    // Someone else's session reads as missing, so ids can't be probed
+    const session = await getDatabaseService().getChatSession(ref.id);
+    if (!session || session.userId !== userId) {
+      throw new Error(`Session not found: ${ref.id}`);
+    }
+    const personaManager = new PersonaManager(ref.id);
+    const [interests, details] = await Promise.all([
+      personaManager.getStoredInterests(),
+      personaManager.getPersonaDetails()
+    ]);
+    return { key, ref, name: details.name || session.title || `Session ${ref.id.slice(0, 8)}`, interests, sessionId: ref.id };
+  }
+
+  private async runPersona(query: string, parameters: QlooParameters, persona: ResolvedPersona) {
+    // Signals come from the persona itself; the agent gets no session so nothing is stored anywhere
+    const signals = await new PersonaManager(persona.sessionId).generateSignals(parameters.entityType, persona.interests, persona.profile);
+    const agent = new MainAgent();
+    const interestsText = persona.interests.map(interest => `${interest.name} (${interest.category})`).join(', ');
+
+    const response = await agent.generateQlooResponse(
+      query,
+      { shouldUseQloo: true, intent: 'recommendation', confidence: 1, source: 'persona-comparison' },
+      interestsText ? `\n\n🎯 PERSONA CONTEXT:\n- Name: ${persona.name}\n- Interests: ${interestsText}` : '',
+      { interests: persona.interests },
+      { parameters, signals }
+    );
+
+    const entities = (agent.getLastResponseMetadata()?.entities || []) as ParsedEntity[];
+    console.log(`✅ ${persona.name}: ${entities.length} entities`);
+    return { signals, response, entities };
+  }
+
+  private buildColumns(
+    personas: ResolvedPersona[],
+    runs: Array<{ signals: PersonaSignals; response: string; entities: ParsedEntity[] }>
+  ): PersonaComparisonColumn[] {
+    const entityIdsPerPersona = runs.map(run => new Set(run.entities.map(entityKey)));
+
+    return personas.map((persona, index) => {
+      const entities = runs[index].entities.map((entity, rank) => ({
+        id: entityKey(entity),
+        name: entity.name,
+        type: entity.subtype || entity.type,
+        imageUrl: entity.imageUrl,
+        score: typeof entity.score === 'number' ? entity.score : null,
+        rank: rank + 1,
+        sharedWith: entityIdsPerPersona.filter((ids, other) => other !== index && ids.has(entityKey(entity))).length
+      }));
+
+      return {
+        key: persona.key,
+        persona: { ...persona.ref, name: persona.name, interestCount: persona.interests.length },
+        signals: runs[index].signals,
+        response: runs[index].response,
+        entities,
+        uniqueEntityIds: entities.filter(entity => entity.sharedWith === 0).map(entity => entity.id)
+      };
+    });
+  }
+
+  private buildOverlap(columns: PersonaComparisonColumn[]): PersonaComparisonResult['overlap'] {
+    const overlap = new Map<string, PersonaComparisonResult['overlap'][number]>();
+
+    columns.forEach(column => {
+      column.entities.filter(entity => entity.sharedWith > 0).forEach(entity => {
+        if (!overlap.has(entity.id)) {
+          const scores = Object.fromEntries(columns.map(other => [other.key, null])) as Record<string, number | null>;
+          overlap.set(entity.id, { id: entity.id, name: entity.name, type: entity.type, scores });
+        }
+        overlap.get(entity.id)!.scores[column.key] = entity.score;
+      });
+    });
+
+    // Entities most personas agree on first
+    const presentIn = (entry: PersonaComparisonResult['overlap'][number]) =>
+      columns.filter(column => column.entities.some(entity => entity.id === entry.id)).length;
+    return Array.from(overlap.values()).sort((a, b) => presentIn(b) - presentIn(a));
+  }
+
+  private buildSimilarity(columns: PersonaComparisonColumn[]): PersonaComparisonResult['similarity'] {
+    const similarity: PersonaComparisonResult['similarity'] = [];
+
+    for (let i = 0; i < columns.length; i++) {
+      for (let j = i + 1; j < columns.length; j++) {
+        const a = new Set(columns[i].entities.map(entity => entity.id));
+        const b = new Set(columns[j].entities.map(entity => entity.id));
+        const shared = Array.from(a).filter(id => b.has(id)).length;
+        const union = new Set([...a, ...b]).size;
+        similarity.push({ a: columns[i].key, b: columns[j].key, jaccard: union > 0 ? shared / union : 0 });
+      }
+    }
+
+    return similarity;
+  }
+}
+
+function entityKey(entity: ParsedEntity): string {
+  return String(entity.id || entity.name);
+}
@@ -1,8 +1,11 @@
 import { generateText } from 'ai';
-import { google } from '@ai-sdk/google';
+import { QlooParameters } from '../../types';
 import { getDatabaseService } from '../database/database';
-import { getEntity } from '../qloo/api';
+import { getEntity, getInsights, getQlooTags } from '../qloo/api';
+import { guessEntityType, normalizeEntityType } from '../qloo/entity-types';
+import { SignalSource } from '../qloo/explainability';
 import { broadcastDebugMessage } from '../utils/debug';
+import { AudienceDiscovery } from './audience-discovery';
 import { SmartInterestExtractor, ExtractedInterest } from './smart-interest-extractor';
 import { NameLocationExtractor, ExtractedNameLocation } from './name-location-extractor';
 
@@ -12,11 +15,14 @@ export interface PersonalInterest {
   name: string;
   entityId?: string;
   confidence: number;
-  source: 'explicit' | 'inferred' | 'interaction';
+  source: 'explicit' | 'inferred' | 'interaction' | 'library';
+  sentiment?: InterestSentiment; // Missing means 'like'
   timestamp: Date;
   metadata?: Record<string, any>;
 }
 
+export type InterestSentiment = 'like' | 'dislike';
+
 export interface AudienceCharacteristic {
   id: string;
   audienceType: string;
@@ -47,6 +53,112 @@ export interface Persona {
   confidence: number;
 }
 
+export interface PersonaSignals {
+  entitySignals: string[];
+  audienceSignals: string[];
+  tagSignals: string[];
+  weights: Record<string, number>; // Signal id -> score of the interest behind it
+  excludeEntities: string[]; // Disliked entities and recommendations the user rejected
+  excludeTags: string[];     // Disliked genres and attributes
+  demographics?: DemographicSignals; // Persona age bracket and gender in Qloo's format
+  sources?: Record<string, SignalSource>; // Signal id -> interest behind it, for explaining results
+}
+
+export type DemographicSignals = NonNullable<QlooParameters['demographics']>;
+
+// How sending demographics changed the latest recommendation, stored on the persona for the sidebar
+export interface DemographicShift {
+  query: string;
+  demographics: DemographicSignals;
+  promoted: string[]; // Only returned because of demographics
+  demoted: string[];  // Would have been returned without them
+  askedAt?: string;   // The DemographicQuery this was measured for
+  checkedAt: string;
+}
+
+// Latest Insights request sent with demographics, kept so their effect can be measured when asked for
+export interface DemographicQuery {
+  parameters: QlooParameters;
+  returnedNames: string[];
+  askedAt: string;
+}
+
+// Interest scores halve after this many days without being mentioned, clicked or rated
+const INTEREST_HALF_LIFE_DAYS: Record<string, number> = { explicit: 90, default: 30 };
+// Only the strongest interests of a category drive signals, so one hobby can't drown out the rest
+export const MAX_INTERESTS_PER_CATEGORY = 5;
+const MIN_SIGNAL_SCORE = 0.2;
+const MAX_ENTITY_SIGNALS = 10;
+const MAX_AUDIENCE_SIGNALS = 5;
+const MAX_TAG_SIGNALS = 5;
+
+// How much each kind of evidence moves an interest's score
+export const REINFORCEMENT_WEIGHTS = {
+  mention: 0.15,
+  view: 0,
+  search: 0.1,
+  click: 0.2,
+  share: 0.3
+} as const;
+export type InterestReinforcement = keyof typeof REINFORCEMENT_WEIGHTS;
+
+const QLOO_ENTITY_ID = /^(urn:entity:|[A-F0-9]{8}-[A-F0-9]{4}-[A-F0-9]{4}-[A-F0-9]{4}-[A-F0-9]{12}$)/i;
+
+export function isDislike(interest: Pick<PersonalInterest, 'sentiment'>): boolean {
+  return interest.sentiment === 'dislike';
+}
+
+function sentimentKey(name: string, sentiment?: InterestSentiment): string {
+  return `${sentiment === 'dislike' ? 'dislike' : 'like'}:${name.toLowerCase()}`;
+}
+
+function toSignalSource(interest: PersonalInterest): SignalSource {
+  return { interestId: interest.id, interestName: interest.name, category: interest.category };
+}
+
+// Persona age (years or an already bucketed value) and gender mapped to Qloo's demographic signals
+export function toDemographicSignals(profile: { gender?: string; demographics?: any }): DemographicSignals | undefined {
+  const signals: DemographicSignals = {};
+  const age = profile.demographics?.age;
+  const years = typeof age === 'number' ? age : parseInt(String(age ?? ''), 10);
+
+  if (['35_and_younger', '36_to_55', '55_and_older'].includes(age)) {
+    signals.age = age;
+  } else if (!isNaN(years) && years > 0) {
+    signals.age = years <= 35 ? '35_and_younger' : years <= 55 ? '36_to_55' : '55_and_older';
+  }
+
+  const gender = String(profile.gender || profile.demographics?.gender || '').trim().toLowerCase();
+  if (['male', 'man', 'm'].includes(gender)) {
+    signals.gender = 'male';
+  } else if (['female', 'woman', 'f'].includes(gender)) {
+    signals.gender = 'female';
+  }
+
+  return signals.age || signals.gender ? signals : undefined;
+}
+
+// A 1-5 star rating: 5 reinforces by 0.4, 3 is neutral, 1 weakens by 0.4
+export function ratingWeight(rating: number): number {
+  return (Math.max(1, Math.min(5, rating)) - 3) * 0.2;
+}
+
+// Score as of `now`, decaying exponentially since the interest was last reinforced (or first learned)
+export function decayedConfidence(confidence: number, since: Date | string | undefined, source: string, now: number = Date.now()): number {
+  const sinceTime = since ? new Date(since).getTime() : NaN;
+  if (source === 'library' || isNaN(sinceTime)) return confidence;
+
+  const days = Math.max(0, now - sinceTime) / (24 * 60 * 60 * 1000);
+  const halfLife = INTEREST_HALF_LIFE_DAYS[source] || INTEREST_HALF_LIFE_DAYS.default;
+  return confidence * Math.pow(0.5, days / halfLife);
+}
+
+// Positive evidence closes part of the gap to 1, negative evidence removes part of the score
+export function reinforcedConfidence(confidence: number, weight: number): number {
+  const next = weight >= 0 ? confidence + (1 - confidence) * weight : confidence * (1 + weight);
+  return Math.max(0, Math.min(1, next));
+}
+
 export class PersonaManager {
   private sessionId?: string;
   private smartExtractor: SmartInterestExtractor;
@@ -82,6 +194,7 @@ export class PersonaManager {
           name: interest.name,
           confidence: interest.confidence,
           source: 'bio-analysis',
+          sentiment: interest.sentiment,
           entityId: interest.qlooEntityId,
           timestamp: new Date(),
           metadata: {
@@ -109,7 +222,9 @@ export class PersonaManager {
     try {
       // Get existing interests to avoid duplicates
       const existingInterests = await this.getStoredInterests();
-      const existingInterestNames = new Set(existingInterests.map(interest => interest.name.toLowerCase()));
+      const existingInterestNames = new Set(existingInterests.map(interest => sentimentKey(interest.name, interest.sentiment)));
+      // The whole conversation is re-extracted every turn; only the latest message counts as a new mention
+      const latestUserMessage = String([...messages].reverse().find(msg => msg.role === 'user')?.content || '').toLowerCase();
       
       // Use smart interest extractor
       const extractedInterests = await this.smartExtractor.extractFromConversation(messages);
@@ -119,10 +234,15 @@ export class PersonaManager {
       
       for (const interest of extractedInterests) {
         const interestNameLower = interest.name.toLowerCase();
+        const sentiment: InterestSentiment = interest.sentiment === 'dislike' ? 'dislike' : 'like';
         
-        // Skip if interest already exists
-        if (existingInterestNames.has(interestNameLower)) {
-          console.log(`🔄 Skipping duplicate interest: ${interest.name}`);
+        // Existing interests aren't stored again, but mentioning them again reinforces them
+        if (existingInterestNames.has(sentimentKey(interest.name, sentiment))) {
+          if (latestUserMessage.includes(interestNameLower)) {
+            await this.reinforceInterest(interest.name, REINFORCEMENT_WEIGHTS.mention, interest.category, sentiment);
+          } else {
+            console.log(`🔄 Skipping duplicate interest: ${interest.name}`);
+          }
           continue;
         }
         
@@ -133,6 +253,7 @@ export class PersonaManager {
           name: interest.name,
           confidence: interest.confidence,
           source: interest.source,
+          sentiment,
           entityId: interest.qlooEntityId,
           timestamp: new Date(),
           metadata: {
@@ -143,7 +264,7 @@ export class PersonaManager {
         };
         
         newPersonalInterests.push(personalInterest);
-        existingInterestNames.add(interestNameLower); // Prevent duplicates within this batch
+        existingInterestNames.add(sentimentKey(interest.name, sentiment)); // Prevent duplicates within this batch
       }
 
       // Store only new interests in database
@@ -168,38 +289,45 @@ export class PersonaManager {
     try {
       const databaseService = getDatabaseService();
       for (const interest of interests) {
-        await databaseService.storePersonalInterest(
-          this.sessionId,
-          interest.category,
-          interest.name,
-          interest.entityId,
-          interest.confidence,
-          interest.source,
-          interest.metadata
-        );
+        await databaseService.storePersonalInterest(this.sessionId, {
+          category: interest.category,
+          name: interest.name,
+          entityId: interest.entityId,
+          confidence: interest.confidence,
+          source: interest.source,
+          sentiment: interest.sentiment || 'like',
+          metadata: interest.metadata
+        });
       }
     } catch (error) {
       console.error('❌ Failed to store interests:', error);
     }
   }
 
-  // Get stored interests for a session
+  // Get stored interests for a session, with confidence decayed to the current time
   async getStoredInterests(): Promise<PersonalInterest[]> {
     if (!this.sessionId) return [];
 
     try {
       const databaseService = getDatabaseService();
       const interests = await databaseService.getPersonalInterests(this.sessionId);
-      return interests.map(interest => ({
-        id: interest.id,
-        category: interest.category,
-        name: interest.name,
-        entityId: interest.entityId,
-        confidence: interest.confidence,
-        source: interest.source as 'explicit' | 'inferred' | 'interaction',
-        timestamp: new Date(interest.createdAt),
-        metadata: interest.metadata
-      }));
+      return interests.map(interest => {
+        const learnedAt = interest.timestamp || interest.createdAt;
+        return {
+          id: interest.id,
+          category: interest.category,
+          name: interest.name,
+          entityId: interest.entityId,
+          // Dislikes don't fade: not mentioning horror for a month doesn't mean you've warmed to it
+          confidence: interest.sentiment === 'dislike'
+            ? interest.confidence || 0
+            : decayedConfidence(interest.confidence || 0, interest.metadata?.lastReinforcedAt || learnedAt, interest.source),
+          source: interest.source as PersonalInterest['source'],
+          sentiment: interest.sentiment === 'dislike' ? 'dislike' : 'like',
+          timestamp: new Date(learnedAt),
+          metadata: interest.metadata
+        };
+      });
     } catch (error) {
       console.error('❌ Failed to get stored interests:', error);
       return [];
@@ -229,51 +357,10 @@ export class PersonaManager {
         // Determine the appropriate entity type to search for based on the target
         let searchEntityType = targetEntityType;
         if (!searchEntityType) {
-          // Enhanced entity type mapping for common interests
-          const entityTypeMap: Record<string, string> = {
-            'movie': 'urn:entity:movie',
-            'film': 'urn:entity:movie',
-            'cinema': 'urn:entity:movie',
-            'restaurant': 'urn:entity:place',
-            'food': 'urn:entity:place',
-            'dining': 'urn:entity:place',
-            'cafe': 'urn:entity:place',
-            'pizza': 'urn:entity:place',
-            'music': 'urn:entity:artist',
-            'artist': 'urn:entity:artist',
-            'musician': 'urn:entity:artist',
-            'band': 'urn:entity:artist',
-            'singer': 'urn:entity:artist',
-            'book': 'urn:entity:book',
-            'novel': 'urn:entity:book',
-            'literature': 'urn:entity:book',
-            'author': 'urn:entity:person',
-            'writer': 'urn:entity:person',
-            'place': 'urn:entity:place',
-            'destination': 'urn:entity:destination',
-            'travel': 'urn:entity:destination',
-            'city': 'urn:entity:destination',
-            'country': 'urn:entity:destination',
-            'person': 'urn:entity:person',
-            'celebrity': 'urn:entity:person',
-            'actor': 'urn:entity:person',
-            'podcast': 'urn:entity:podcast',
-            'tv': 'urn:entity:tv_show',
-            'show': 'urn:entity:tv_show',
-            'series': 'urn:entity:tv_show',
-            'game': 'urn:entity:video_game',
-            'gaming': 'urn:entity:video_game',
-            'video game': 'urn:entity:video_game'
-          };
-          
           // Try to match interest name to entity type
-          const interestLower = interest.name.toLowerCase();
-          for (const [key, entityType] of Object.entries(entityTypeMap)) {
-            if (interestLower.includes(key)) {
-              searchEntityType = entityType;
-              console.log(`🎯 Mapped interest "${interest.name}" to entity type: ${entityType}`);
-              break;
-            }
+          searchEntityType = guessEntityType(interest.name);
+          if (searchEntityType) {
+            console.log(`🎯 Mapped interest "${interest.name}" to entity type: ${searchEntityType}`);
           }
         }
         
@@ -361,8 +448,8 @@ export class PersonaManager {
   private isEntityTypeCompatible(entityId: string, targetEntityType: string): boolean {
     // If entity ID starts with urn:entity:, extract the type and compare
     if (entityId.startsWith('urn:entity:')) {
-      const entityType = entityId.split(':')[2]; // Extract type from urn:entity:type
-      return entityType === targetEntityType.split(':')[2];
+      const entityType = entityId.split(':').slice(0, 3).join(':'); // Extract urn:entity:type
+      return normalizeEntityType(entityType) === normalizeEntityType(targetEntityType);
     }
     
     // For UUID entity IDs, we can't determine the type from the ID alone
@@ -371,12 +458,26 @@ export class PersonaManager {
     return true;
   }
 
-  // Resolve interests to tag IDs using Qloo Tags API
-  async resolveInterestTags(interests: PersonalInterest[]): Promise<string[]> {
-    // Temporarily disable tag signals since the Insights API is rejecting even valid tag IDs
-    // The entity signals work perfectly, so we'll focus on those
-    console.log('⚠️ Temporarily skipping tag signals - using entity signals only');
-    return [];
+  // Interests whose name is also a Qloo tag ("jazz", "natural wine") become tag signals, each scored by its
+  // interest; below MIN_SIGNAL_SCORE or past MAX_TAG_SIGNALS they're dropped
+  async resolveInterestTags(
+    interests: PersonalInterest[],
+    excludeTags: string[] = [],
+    sources: Record<string, SignalSource> = {}
+  ): Promise<Record<string, number>> {
+    const weights: Record<string, number> = {};
+    for (const interest of interests.filter(interest => interest.confidence >= MIN_SIGNAL_SCORE)) {
+      const tagId = await this.resolveInterestTag(interest);
+      if (tagId && !excludeTags.includes(tagId)) {
+        weights[tagId] = Math.max(weights[tagId] || 0, interest.confidence);
+        sources[tagId] = sources[tagId] || toSignalSource(interest);
+      }
+    }
+
+    const tagIds = Object.keys(weights)
+      .sort((a, b) => weights[b] - weights[a])
+      .slice(0, MAX_TAG_SIGNALS);
+    return Object.fromEntries(tagIds.map(tagId => [tagId, weights[tagId]]));
   }
 
   // Update interest with entity ID
@@ -391,15 +492,24 @@ export class PersonaManager {
     }
   }
 
-  // Generate signals for Insights API
-  async generateSignals(targetEntityType?: string): Promise<{
-    entitySignals: string[];
-    audienceSignals: string[];
-    tagSignals: string[];
-  }> {
+  // Generate signals for Insights API; pass interests/profile to use another persona's instead of this session's
+  async generateSignals(
+    targetEntityType?: string,
+    providedInterests?: PersonalInterest[],
+    providedProfile?: { gender?: string; demographics?: any }
+  ): Promise<PersonaSignals> {
     try {
-      const interests = await this.getStoredInterests();
-      console.log('🎯 Generating signals from interests:', interests.map(i => i.name));
+      const allInterests = providedInterests ?? await this.getStoredInterests();
+      const exclusions = await this.generateExclusions(allInterests);
+      const demographics = toDemographicSignals(providedProfile ?? await this.getPersonaDetails());
+      if (demographics) {
+        console.log('🎂 Demographic signals:', demographics);
+      }
+      const interests = this.rankInterests(allInterests);
+      const sources: Record<string, SignalSource> = {};
+      const audienceWeights = await this.resolveAudienceSignals(interests, !providedInterests, sources);
+      const audienceSignals = Object.keys(audienceWeights);
+      console.log('🎯 Generating signals from interests:', interests.map(i => `${i.name} (${i.confidence.toFixed(2)})`));
       console.log('🎯 Target entity type:', targetEntityType);
       
       // Only try to resolve entities if we have interests
@@ -407,22 +517,46 @@ export class PersonaManager {
         console.log('ℹ️ No interests found, returning empty signals');
         return {
           entitySignals: [],
-          audienceSignals: [],
-          tagSignals: []
+          audienceSignals,
+          tagSignals: [],
+          weights: audienceWeights,
+          ...exclusions,
+          demographics,
+          sources
         };
       }
       
-      const entityIds = await this.resolveInterestEntities(interests, targetEntityType);
+      // Resolve one interest at a time so every entity keeps the score of the interest behind it
+      const weights: Record<string, number> = {};
+      for (const interest of interests) {
+        const [entityId] = await this.resolveInterestEntities([interest], targetEntityType);
+        if (entityId && !exclusions.excludeEntities.includes(entityId)) {
+          weights[entityId] = Math.max(weights[entityId] || 0, interest.confidence);
+          sources[entityId] = sources[entityId] || toSignalSource(interest);
+        }
+      }
+      const entityIds = Object.keys(weights)
+        .sort((a, b) => weights[b] - weights[a])
+        .slice(0, MAX_ENTITY_SIGNALS);
       console.log('🎯 Resolved entity signals:', entityIds);
       
-      // Generate tag signals for interests that are likely tags
-      const tagSignals = await this.resolveInterestTags(interests);
+      // Genres and attributes among the interests ("jazz", "italian") also count as tags
+      const tagWeights = await this.resolveInterestTags(interests, exclusions.excludeTags, sources);
+      const tagSignals = Object.keys(tagWeights);
       console.log('🎯 Resolved tag signals:', tagSignals);
       
       return {
         entitySignals: entityIds,
-        audienceSignals: [],
-        tagSignals: tagSignals
+        audienceSignals,
+        tagSignals,
+        weights: {
+          ...Object.fromEntries(entityIds.map(entityId => [entityId, weights[entityId]])),
+          ...tagWeights,
+          ...audienceWeights
+        },
+        ...exclusions,
+        demographics,
+        sources
       };
     } catch (error) {
       console.error('❌ Error generating signals:', error);
@@ -430,38 +564,271 @@ export class PersonaManager {
       return {
         entitySignals: [],
         audienceSignals: [],
-        tagSignals: []
+        tagSignals: [],
+        weights: {},
+        excludeEntities: [],
+        excludeTags: []
+      };
+    }
+  }
+
+  // Qloo audiences behind the persona: ones already stored plus taxonomy matches for the current interests.
+  // New matches are stored as audience characteristics unless the interests belong to another persona.
+  // Pass sources to learn which interest each audience came from.
+  async resolveAudienceSignals(
+    interests: PersonalInterest[],
+    persist: boolean = true,
+    sources: Record<string, SignalSource> = {}
+  ): Promise<Record<string, number>> {
+    const weights: Record<string, number> = {};
+
+    try {
+      const databaseService = getDatabaseService();
+      const stored = this.sessionId ? await databaseService.getAudienceCharacteristics(this.sessionId) : [];
+      const interestsByName = new Map(interests.map(interest => [interest.name.toLowerCase(), interest]));
+      stored
+        .filter(audience => String(audience.audienceId || '').startsWith('urn:audience:'))
+        .forEach(audience => {
+          let confidence = audience.confidence || 0;
+          // An audience found through an interest follows that interest's current score, and goes
+          // once the interest is disliked or fades out of the ranking
+          if (audience.metadata?.interest) {
+            const interest = interestsByName.get(String(audience.metadata.interest).toLowerCase());
+            if (!interest) return;
+            // Older rows only kept the product, which then stands in for the taxonomy match
+            confidence = (audience.metadata.matchConfidence ?? confidence) * interest.confidence;
+            sources[audience.audienceId] = sources[audience.audienceId] || toSignalSource(interest);
+          }
+          weights[audience.audienceId] = Math.max(weights[audience.audienceId] || 0, confidence);
+        });
+
+      const canStore = persist && !!this.sessionId && !interests.some(interest => interest.source === 'library');
+      const audienceDiscovery = new AudienceDiscovery();
+      for (const interest of interests) {
+        for (const mapping of await audienceDiscovery.mapInterestsToAudiences([interest.name])) {
+          // A fading interest only pulls its audiences in weakly
+          const confidence = mapping.confidence * interest.confidence;
+          if (canStore && weights[mapping.audienceId] === undefined) {
+            await databaseService.addAudienceCharacteristic(this.sessionId!, {
+              audienceType: mapping.audienceType,
+              audienceId: mapping.audienceId,
+              name: mapping.name,
+              confidence,
+              metadata: { interest: interest.name, matchConfidence: mapping.confidence, reasoning: mapping.reasoning }
+            });
+          }
+          weights[mapping.audienceId] = Math.max(weights[mapping.audienceId] || 0, confidence);
+          sources[mapping.audienceId] = sources[mapping.audienceId] || toSignalSource(interest);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Failed to resolve audience signals:', error);
+    }
+
+    const audienceIds = Object.keys(weights)
+      .filter(audienceId => weights[audienceId] >= MIN_SIGNAL_SCORE)
+      .sort((a, b) => weights[b] - weights[a])
+      .slice(0, MAX_AUDIENCE_SIGNALS);
+    console.log('👥 Resolved audience signals:', audienceIds);
+    return Object.fromEntries(audienceIds.map(audienceId => [audienceId, weights[audienceId]]));
+  }
+
+  // Measuring a shift costs a second Insights call, so queries only remember what was sent and returned
+  async rememberDemographicQuery(parameters: QlooParameters, returnedNames: string[]): Promise<void> {
+    if (!this.sessionId || !parameters.demographics) return;
+
+    try {
+      const demographicQuery: DemographicQuery = { parameters, returnedNames, askedAt: new Date().toISOString() };
+      await getDatabaseService().updatePersona(this.sessionId, { demographicQuery });
+    } catch (error) {
+      console.error('❌ Failed to remember demographic query:', error);
+    }
+  }
+
+  // Re-run the remembered request without demographics and store what they added and pushed out; once per request
+  async measureDemographicShift(): Promise<DemographicShift | null> {
+    if (!this.sessionId) return null;
+
+    try {
+      const persona = await getDatabaseService().getPersona(this.sessionId);
+      const pending: DemographicQuery | undefined = persona?.demographicQuery;
+      if (!pending) return null;
+      if (persona.demographicShift?.askedAt === pending.askedAt) return persona.demographicShift;
+
+      // No session: the comparison call is not logged or stored as discovered entities
+      const baseline = await getInsights({ ...pending.parameters, demographics: undefined });
+      const data: any = baseline.data;
+      const baselineNames: string[] = (data?.results?.entities || data?.entities || []).map((entity: any) => entity.name);
+
+      const shift: DemographicShift = {
+        query: pending.parameters.query,
+        demographics: pending.parameters.demographics!,
+        promoted: pending.returnedNames.filter(name => !baselineNames.includes(name)),
+        demoted: baselineNames.filter(name => !pending.returnedNames.includes(name)),
+        askedAt: pending.askedAt,
+        checkedAt: new Date().toISOString()
       };
+      await getDatabaseService().updatePersona(this.sessionId, { demographicShift: shift });
+      console.log('🎂 Demographic shift:', { promoted: shift.promoted.length, demoted: shift.demoted.length });
+      return shift;
+    } catch (error) {
+      console.error('❌ Failed to measure demographic shift:', error);
+      return null;
+    }
+  }
+
+  // Exclusion filters for Insights: resolved dislikes plus recommendations rejected in this session
+  async generateExclusions(interests: PersonalInterest[]): Promise<{ excludeEntities: string[]; excludeTags: string[] }> {
+    const excludeEntities = new Set<string>();
+    const excludeTags = new Set<string>();
+
+    for (const dislike of interests.filter(isDislike)) {
+      const resolved = await this.resolveDislike(dislike);
+      if (resolved.tagId) excludeTags.add(resolved.tagId);
+      if (resolved.entityId) excludeEntities.add(resolved.entityId);
     }
+    (await this.getRejectedEntityIds()).forEach(entityId => excludeEntities.add(entityId));
+
+    console.log('🚫 Exclusions:', { entities: excludeEntities.size, tags: excludeTags.size });
+    return { excludeEntities: Array.from(excludeEntities), excludeTags: Array.from(excludeTags) };
   }
 
-  // Add explicit interest
-  async addExplicitInterest(category: string, name: string, confidence: number = 0.9): Promise<void> {
+  // Genres and attributes ("horror", "chains") resolve to tags, named things to entities
+  private async resolveDislike(interest: PersonalInterest): Promise<{ tagId?: string; entityId?: string }> {
+    if (interest.metadata?.qlooTagId || interest.entityId) {
+      return { tagId: interest.metadata?.qlooTagId, entityId: interest.entityId };
+    }
+
+    const tagId = await this.resolveInterestTag(interest);
+    if (tagId) {
+      console.log(`🚫 Resolved dislike ${interest.name} to tag: ${tagId}`);
+      return { tagId };
+    }
+
+    const [entityId] = await this.resolveInterestEntities([interest]);
+    return { entityId };
+  }
+
+  // The Qloo tag whose name matches the interest's, if any.
+  // Resolved tag ids are cached on the interest record like entity ids are.
+  private async resolveInterestTag(interest: PersonalInterest): Promise<string | undefined> {
+    if (interest.metadata?.qlooTagId) return interest.metadata.qlooTagId;
+
+    try {
+      const response = await getQlooTags({ tagType: 'all', query: interest.name, limit: 5 });
+      const results = response.data?.results;
+      const tags: any[] = Array.isArray(results) ? results : results?.tags || response.data?.tags || [];
+      const name = interest.name.toLowerCase();
+      const tag = tags.find(candidate => {
+        const tagName = String(candidate.name || '').toLowerCase();
+        return tagName && (name.includes(tagName) || tagName.includes(name));
+      });
+
+      if (tag?.id) {
+        if (this.sessionId && interest.source !== 'library') {
+          await getDatabaseService().updatePersonalInterest(interest.id, { metadata: { ...interest.metadata, qlooTagId: tag.id } });
+        }
+        return tag.id;
+      }
+    } catch (error) {
+      console.log(`⚠️ Failed to resolve tag for ${interest.name}:`, error);
+    }
+    return undefined;
+  }
+
+  // Qloo ids of recommendations the user turned down in this session
+  async getRejectedEntityIds(): Promise<string[]> {
+    if (!this.sessionId) return [];
+
+    try {
+      const feedback = await getDatabaseService().getRecommendationFeedback(this.sessionId);
+      return feedback
+        .filter((record: any) => record.sessionId === this.sessionId && record.feedback === 'negative')
+        .map((record: any) => String(record.recommendationId || ''))
+        .filter(entityId => QLOO_ENTITY_ID.test(entityId));
+    } catch (error) {
+      console.error('❌ Failed to get rejected recommendations:', error);
+      return [];
+    }
+  }
+
+  // Add explicit interest (or, with sentiment 'dislike', something to avoid)
+  async addExplicitInterest(category: string, name: string, confidence: number = 0.9, sentiment: InterestSentiment = 'like'): Promise<void> {
     const interest: PersonalInterest = {
       id: `${this.sessionId}-${Date.now()}-${Math.random()}`,
       category,
       name,
       confidence,
       source: 'explicit',
+      sentiment,
       timestamp: new Date()
     };
 
     await this.storeInterests([interest]);
   }
 
-  // Update interest confidence based on user feedback
-  async updateInterestConfidence(interestName: string, feedback: 'positive' | 'negative'): Promise<void> {
-    if (!this.sessionId) return;
+  // Strongest likes first, dropping faded ones, anything also disliked, and keeping at most
+  // MAX_INTERESTS_PER_CATEGORY per category
+  rankInterests(interests: PersonalInterest[]): PersonalInterest[] {
+    const perCategory = new Map<string, number>();
+    const disliked = new Set(interests.filter(isDislike).map(interest => interest.name.toLowerCase()));
+    return interests
+      .filter(interest => !isDislike(interest) && !disliked.has(interest.name.toLowerCase()))
+      .filter(interest => interest.confidence >= MIN_SIGNAL_SCORE)
+      .sort((a, b) => b.confidence - a.confidence)
+      .filter(interest => {
+        const category = interest.category.toLowerCase();
+        const count = perCategory.get(category) || 0;
+        perCategory.set(category, count + 1);
+        return count < MAX_INTERESTS_PER_CATEGORY;
+      });
+  }
+
+  // Apply new evidence (a mention, click or rating) to an interest; positive evidence about an
+  // unknown interest adds it
+  async reinforceInterest(interestName: string, weight: number, category: string = 'other', sentiment: InterestSentiment = 'like'): Promise<void> {
+    if (!this.sessionId || weight === 0) return;
 
     try {
-      const delta = feedback === 'positive' ? 0.1 : -0.1;
+      const interests = await this.getStoredInterests();
+      // Attached library personas are curated; feedback doesn't rewrite them
+      if (interests.some(interest => interest.source === 'library')) return;
+
       const databaseService = getDatabaseService();
-      await databaseService.updatePersonalInterestConfidence(this.sessionId, interestName, delta);
+      const existing = interests.find(interest => sentimentKey(interest.name, interest.sentiment) === sentimentKey(interestName, sentiment));
+      if (existing) {
+        const confidence = reinforcedConfidence(existing.confidence, weight);
+        await databaseService.updatePersonalInterest(existing.id, {
+          confidence,
+          metadata: {
+            ...existing.metadata,
+            lastReinforcedAt: new Date().toISOString(),
+            reinforcements: (existing.metadata?.reinforcements || 0) + 1
+          }
+        });
+        console.log(`🔄 Reinforced interest ${existing.name}: ${existing.confidence.toFixed(2)} → ${confidence.toFixed(2)}`);
+      } else if (weight > 0) {
+        await this.storeInterests([{
+          id: `${this.sessionId}-${Date.now()}-${Math.random()}`,
+          category,
+          name: interestName,
+          confidence: reinforcedConfidence(0.5, weight),
+          source: 'interaction',
+          sentiment,
+          timestamp: new Date()
+        }]);
+        console.log(`✅ Learned interest from interaction: ${interestName}`);
+      }
     } catch (error) {
-      console.error('❌ Failed to update interest confidence:', error);
+      console.error('❌ Failed to reinforce interest:', error);
     }
   }
 
+  // Update interest confidence based on user feedback
+  async updateInterestConfidence(interestName: string, feedback: 'positive' | 'negative'): Promise<void> {
+    await this.reinforceInterest(interestName, ratingWeight(feedback === 'positive' ? 4 : 2));
+  }
+
   // Extract and update name/location/gender from conversation
   async extractAndUpdateNameLocation(messages: any[]): Promise<ExtractedNameLocation> {
     if (!this.sessionId) {
@@ -1,5 +1,5 @@
-import { google } from '@ai-sdk/google';
-import { generateText, generateObject } from 'ai';
+import { getModel } from '@/lib/llm/models';
+import { generateText } from 'ai';
 import { z } from 'zod';
 import { config, EntityType } from '@/lib/config';
 import {
@@ -10,9 +10,12 @@ import {
 } from '@/types';
 import { determineTargetAPI } from '@/lib/qloo/api';
 import { trackAgentActivity, trackError, trackTokenUsage } from '@/lib/utils/debug';
+import { generateObjectWithCassette } from '@/lib/utils/cassette';
 import { getDatabaseService } from '@/lib/database/database';
 import { getParsingLevelFromIntent } from '@/lib/qloo/parser';
-import { extractLocationFromQuery, buildLocationFilter } from '@/lib/qloo/location';
+import { extractLocationFromQuery, buildLocationFilter, resolveLocation } from '@/lib/qloo/location';
+import { supportsLocationFilter } from '@/lib/qloo/insights-params';
+import { describeEntityTypesForPrompt, guessEntityType, normalizeEntityType } from '@/lib/qloo/entity-types';
 import { SignalTagSelector } from './signal-tag-selector';
 import { ParameterEvaluator } from './parameter-evaluator';
 import { EntityResolver } from './entity-resolver';
@@ -106,6 +109,11 @@ export class QlooAgent {
           console.log('🎯 Enhanced parameters with persona signals:', enhancedParams);
         }
         
+        // Add audience signals to parameters
+        if (personaSignals.audienceSignals.length > 0) {
+          enhancedParams.signalAudiences = personaSignals.audienceSignals;
+        }
+        
         // Add tag signals to parameters
         if (personaSignals.tagSignals.length > 0) {
           enhancedParams.signalTags = personaSignals.tagSignals;
@@ -176,8 +184,8 @@ export class QlooAgent {
     try {
       trackAgentActivity('QLOO AGENT', 'Starting structured parameter extraction', { userQuery });
 
-      const { object } = await generateObject({
-        model: google('gemini-2.5-flash'),
+      const { object } = await generateObjectWithCassette<z.infer<typeof QlooParameterSchema>>('QlooAgent.analyzeQuery', {
+        model: getModel('extraction'),
         schema: QlooParameterSchema,
         schemaName: 'QlooParameterExtraction',
         schemaDescription: 'Extract parameters for Qloo API calls from user queries',
@@ -219,7 +227,11 @@ export class QlooAgent {
       }
 
       return {
-        parameters: object.parameters as QlooParameters,
+        // The model sometimes answers with an older spelling such as urn:entity:tvshow
+        parameters: {
+          ...object.parameters,
+          entityType: normalizeEntityType(object.parameters.entityType) || object.parameters.entityType
+        } as QlooParameters,
         confidence: object.confidence,
         reasoning: object.reasoning,
         extractedFields: object.extractedFields,
@@ -241,7 +253,7 @@ export class QlooAgent {
 
     return `Extract Qloo API parameters from: "${userQuery}"
 
-ENTITY TYPES: urn:entity:artist, urn:entity:book, urn:entity:brand, urn:entity:destination, urn:entity:movie, urn:entity:person, urn:entity:place, urn:entity:podcast, urn:entity:tv_show, urn:entity:video_game
+ENTITY TYPES: ${describeEntityTypesForPrompt()}
 
 EXAMPLES:
 - "movies like The Matrix" → entityType: "urn:entity:movie", query: "The Matrix"
@@ -267,7 +279,7 @@ ANALYZE the query and return a JSON object with the following structure:
 {
   "parameters": {
     "query": "main search term",
-    "entityType": "urn:entity:place|brand|artist|movie|book|videogame|podcast|tvshow|destination|person",
+    "entityType": "${config.entityTypes.join('|')}",
     "reason": "why the user wants recommendations",
     "location": {
       "city": "city name if mentioned",
@@ -320,7 +332,7 @@ Return ONLY valid JSON, no markdown formatting.`;
       // Validate and normalize parameters
       const parameters: QlooParameters = {
         query: parsed.parameters?.query || userQuery,
-        entityType: parsed.parameters?.entityType,
+        entityType: normalizeEntityType(parsed.parameters?.entityType) || parsed.parameters?.entityType,
         reason: parsed.parameters?.reason,
         location: parsed.parameters?.location,
         filterTags: parsed.parameters?.filterTags || [],
@@ -354,14 +366,9 @@ Return ONLY valid JSON, no markdown formatting.`;
 
     // Basic entity type detection
     let entityType: EntityType = config.defaultEntityType;
-    if (queryLower.includes('brand') || queryLower.includes('company')) {
-      entityType = 'urn:entity:brand' as EntityType;
-      extractedFields.push('entityType');
-    } else if (queryLower.includes('movie') || queryLower.includes('film')) {
-      entityType = 'urn:entity:movie' as EntityType;
-      extractedFields.push('entityType');
-    } else if (queryLower.includes('artist') || queryLower.includes('musician')) {
-      entityType = 'urn:entity:artist' as EntityType;
+    const guessedType = guessEntityType(queryLower);
+    if (guessedType) {
+      entityType = guessedType;
       extractedFields.push('entityType');
     }
 
@@ -524,11 +531,14 @@ Return ONLY valid JSON, no markdown formatting.`;
     // Enhanced entity type detection
     let entityType: EntityType = config.defaultEntityType;
     let filterTags: string[] = [];
-    
-    if (queryLower.includes('movie') || queryLower.includes('film') || queryLower.includes('cinema')) {
-      entityType = 'urn:entity:movie' as EntityType;
+    const guessedType = guessEntityType(queryLower);
+    if (guessedType) {
+      entityType = guessedType;
       extractedFields.push('entityType');
-      
+    }
+
+    // Genre and category tags for the detected type
+    if (entityType === 'urn:entity:movie') {
       // Extract movie genres
       const movieGenres = ['action', 'comedy', 'drama', 'horror', 'romance', 'thriller', 'sci-fi', 'fantasy', 'documentary', 'animation'];
       const foundGenres = movieGenres.filter(genre => queryLower.includes(genre));
@@ -536,10 +546,7 @@ Return ONLY valid JSON, no markdown formatting.`;
         filterTags = foundGenres;
         extractedFields.push('filterTags');
       }
-    } else if (queryLower.includes('brand') || queryLower.includes('company') || queryLower.includes('product')) {
-      entityType = 'urn:entity:brand' as EntityType;
-      extractedFields.push('entityType');
-      
+    } else if (entityType === 'urn:entity:brand') {
       // Enhanced brand category detection with more specific keywords
       const brandCategories = [
         // Fashion & Footwear
@@ -588,10 +595,7 @@ Return ONLY valid JSON, no markdown formatting.`;
         }
         extractedFields.push('filterTags');
       }
-    } else if (queryLower.includes('artist') || queryLower.includes('musician') || queryLower.includes('band') || queryLower.includes('singer')) {
-      entityType = 'urn:entity:artist' as EntityType;
-      extractedFields.push('entityType');
-      
+    } else if (entityType === 'urn:entity:artist') {
       // Extract music genres
       const musicGenres = ['rock', 'pop', 'jazz', 'classical', 'hip-hop', 'country', 'electronic', 'blues'];
       const foundGenres = musicGenres.filter(genre => queryLower.includes(genre));
@@ -599,10 +603,7 @@ Return ONLY valid JSON, no markdown formatting.`;
         filterTags = foundGenres;
         extractedFields.push('filterTags');
       }
-    } else if (queryLower.includes('book') || queryLower.includes('novel') || queryLower.includes('literature')) {
-      entityType = 'urn:entity:book' as EntityType;
-      extractedFields.push('entityType');
-      
+    } else if (entityType === 'urn:entity:book') {
       // Extract book genres
       const bookGenres = ['fiction', 'non-fiction', 'mystery', 'romance', 'fantasy', 'sci-fi', 'biography', 'history'];
       const foundGenres = bookGenres.filter(genre => queryLower.includes(genre));
@@ -610,10 +611,7 @@ Return ONLY valid JSON, no markdown formatting.`;
         filterTags = foundGenres;
         extractedFields.push('filterTags');
       }
-    } else if (queryLower.includes('restaurant') || queryLower.includes('cafe') || queryLower.includes('food') || queryLower.includes('pizza') || queryLower.includes('dining')) {
-      entityType = 'urn:entity:place' as EntityType;
-      extractedFields.push('entityType');
-      
+    } else if (entityType === 'urn:entity:place') {
       // Extract cuisine types
       const cuisineTypes = ['italian', 'chinese', 'japanese', 'mexican', 'indian', 'french', 'thai', 'mediterranean'];
       const foundCuisines = cuisineTypes.filter(cuisine => queryLower.includes(cuisine));
@@ -621,38 +619,30 @@ Return ONLY valid JSON, no markdown formatting.`;
         filterTags = foundCuisines;
         extractedFields.push('filterTags');
       }
-    } else if (queryLower.includes('destination') || queryLower.includes('travel') || queryLower.includes('city') || queryLower.includes('country')) {
-      entityType = 'urn:entity:destination' as EntityType;
-      extractedFields.push('entityType');
-    } else if (queryLower.includes('person') || queryLower.includes('celebrity') || queryLower.includes('actor')) {
-      entityType = 'urn:entity:person' as EntityType;
-      extractedFields.push('entityType');
-    } else if (queryLower.includes('podcast')) {
-      entityType = 'urn:entity:podcast' as EntityType;
-      extractedFields.push('entityType');
-    } else if (queryLower.includes('tv') || queryLower.includes('show') || queryLower.includes('series')) {
-      entityType = 'urn:entity:tv_show' as EntityType;
-      extractedFields.push('entityType');
-    } else if (queryLower.includes('game') || queryLower.includes('gaming') || queryLower.includes('video game')) {
-      entityType = 'urn:entity:video_game' as EntityType;
-      extractedFields.push('entityType');
     }
 
-    // Enhanced location detection
-    const locationMatch = userQuery.match(/\b(in|at|near)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/i);
-    let location;
-    if (locationMatch) {
-      location = { city: locationMatch[2] };
+    // Location: gazetteer places and neighborhoods, "near me" via the persona location, "within 2 km of ..."
+    const personaLocation = (await this.personaManager.getPersonaDetails()).location;
+    const resolvedLocation = resolveLocation(userQuery, { personaLocation });
+    let location: QlooParameters['location'];
+    if (resolvedLocation) {
+      location = { city: resolvedLocation.city, country: resolvedLocation.country, neighborhood: resolvedLocation.neighborhood };
+      // Geometry only narrows types that take location filters; the others get the city as a signal
+      if (supportsLocationFilter(entityType)) {
+        location.wkt = resolvedLocation.wkt;
+        location.radius = resolvedLocation.radius;
+      }
       extractedFields.push('location');
+      console.log('📍 Resolved location:', resolvedLocation.name, resolvedLocation.reasoning);
       
-      // Update persona location if sessionId is available
-              if (this.sessionId) {
-          try {
-            const databaseService = getDatabaseService();
-            await databaseService.updatePersona(this.sessionId, {
-            location: locationMatch[2]
+      // Update persona location if sessionId is available and the user named a new place
+      if (this.sessionId && resolvedLocation.source === 'query' && resolvedLocation.city !== personaLocation) {
+        try {
+          const databaseService = getDatabaseService();
+          await databaseService.updatePersona(this.sessionId, {
+            location: resolvedLocation.city
           });
-          console.log('📍 Updated persona location to:', locationMatch[2]);
+          console.log('📍 Updated persona location to:', resolvedLocation.city);
           
           // Also update the persona manager's session ID to ensure it has the latest data
           this.personaManager.setSessionId(this.sessionId);
@@ -660,7 +650,7 @@ Return ONLY valid JSON, no markdown formatting.`;
           // Broadcast location update event
           if (typeof window !== 'undefined') {
             window.dispatchEvent(new CustomEvent('persona-location-updated', {
-              detail: { location: locationMatch[2], sessionId: this.sessionId }
+              detail: { location: resolvedLocation.city, sessionId: this.sessionId }
             }));
           }
         } catch (error) {
@@ -690,6 +680,10 @@ Return ONLY valid JSON, no markdown formatting.`;
       }
     }
 
+    // Price, rating, era and popularity hints; getInsights drops the ones the entity type can't take
+    const filterHints = this.extractFilterHints(queryLower);
+    extractedFields.push(...Object.keys(filterHints));
+
     return {
       parameters: {
         query,
@@ -699,10 +693,43 @@ Return ONLY valid JSON, no markdown formatting.`;
         limit: config.defaultLimit,
         explainability: true,
         filterTags: filterTags.length > 0 ? filterTags : undefined,
+        ...filterHints,
       },
       confidence: 0.8,
       reasoning: 'Rule-based extraction using keyword matching',
       extractedFields,
     };
   }
+
+  private extractFilterHints(queryLower: string): Partial<QlooParameters> {
+    const hints: Partial<QlooParameters> = {};
+
+    if (/\b(cheap|budget|affordable|inexpensive)\b/.test(queryLower)) {
+      hints.priceLevel = { max: 2 };
+    } else if (/\b(upscale|fancy|expensive|luxury|fine dining)\b/.test(queryLower)) {
+      hints.priceLevel = { min: 3 };
+    }
+
+    if (/\b(top|highly|best)[ -]rated\b/.test(queryLower)) {
+      hints.rating = { min: 4 };
+    }
+
+    const decade = queryLower.match(/\b((?:19|20)\d0|the [1-9]0)'?s\b/);
+    const yearBound = queryLower.match(/\b(after|since|before)\s+((?:19|20)\d{2})\b/);
+    if (decade) {
+      const start = decade[1].startsWith('the') ? 1900 + parseInt(decade[1].slice(4), 10) : parseInt(decade[1], 10);
+      hints.releaseYear = { min: start, max: start + 9 };
+    } else if (yearBound) {
+      const year = parseInt(yearBound[2], 10);
+      hints.releaseYear = yearBound[1] === 'before' ? { max: year - 1 } : { min: year };
+    }
+
+    if (/\b(hidden gems?|underrated|lesser[ -]known|off the beaten path)\b/.test(queryLower)) {
+      hints.popularity = { max: 0.5 };
+    } else if (/\b(trending|hot right now|buzzy)\b/.test(queryLower)) {
+      hints.biasTrends = 'high';
+    }
+
+    return hints;
+  }
 } 
\ No newline at end of file
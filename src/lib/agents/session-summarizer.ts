@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import { getModel } from '../llm/models';
+import { getDatabaseService } from '../database/database';
+import { generateObjectWithCassette } from '../utils/cassette';
+import { trackAgentActivity } from '../utils/debug';
+
+// First summary after three exchanges, then a refresh every three more
+const FIRST_SUMMARY_AFTER_MESSAGES = 6;
+const REFRESH_AFTER_MESSAGES = 6;
+const MAX_MESSAGES_PER_PASS = 30;
+const MAX_MESSAGE_CHARS = 500;
+
+const SessionSummarySchema = z.object({
+  title: z.string().describe('Short chat title, at most 6 words, no quotes or trailing punctuation'),
+  summary: z.string().describe('What the conversation covered so far, in 2-4 sentences')
+});
+
+export type GeneratedSessionSummary = z.infer<typeof SessionSummarySchema>;
+
+// Sessions being summarized in this process; a second trigger for the same session is dropped
+const inFlight = new Set<string>();
+
+export class SessionSummarizer {
+  // Summarize only when enough new messages arrived since the last summary; returns whether it ran
+  async summarizeIfDue(sessionId: string): Promise<boolean> {
+    if (inFlight.has(sessionId)) return false;
+    inFlight.add(sessionId);
+
+    try {
+      const databaseService = getDatabaseService();
+      const [messages, current] = await Promise.all([
+        databaseService.getMessages(sessionId),
+        databaseService.getSessionSummary(sessionId)
+      ]);
+      if (!current) return false;
+
+      // Deleted messages can leave the summary covering more than exists; start over then
+      const covered = current.summaryMessageCount <= messages.length ? current.summaryMessageCount : 0;
+      const previousSummary = covered > 0 ? current.summary : null;
+      const threshold = previousSummary ? REFRESH_AFTER_MESSAGES : FIRST_SUMMARY_AFTER_MESSAGES;
+      if (messages.length - covered < threshold) return false;
+
+      const generated = await this.summarize(messages.slice(covered), previousSummary);
+      await databaseService.saveSessionSummary(sessionId, {
+        title: generated.title,
+        summary: generated.summary,
+        summaryMessageCount: messages.length
+      });
+
+      trackAgentActivity('SESSION SUMMARIZER', previousSummary ? 'Refreshed session summary' : 'Created session summary', {
+        sessionId,
+        title: generated.title,
+        messageCount: messages.length
+      });
+      return true;
+    } finally {
+      inFlight.delete(sessionId);
+    }
+  }
+
+  // Fold new messages into the previous summary instead of re-reading the whole chat
+  async summarize(
+    messages: Array<{ role: string; content: string }>,
+    previousSummary: string | null = null
+  ): Promise<GeneratedSessionSummary> {
+    const transcript = messages
+      .slice(-MAX_MESSAGES_PER_PASS)
+      .map(message => `${message.role}: ${message.content.slice(0, MAX_MESSAGE_CHARS)}`)
+      .join('\n');
+
+    const { object } = await generateObjectWithCassette<GeneratedSessionSummary>('SessionSummarizer.summarize', {
+      model: getModel('summarization'),
+      schema: SessionSummarySchema,
+      schemaName: 'SessionSummary',
+      schemaDescription: 'Title and rolling summary of a chat session',
+      prompt: `You keep the title and summary of a chat between a user and a cultural recommendation assistant up to date.
+Mention what the user asked for, what they said about their tastes, and the notable recommendations (names of places, titles, artists...).
+Write the summary in the third person ("The user...").
+${previousSummary ? `\nSummary so far:\n${previousSummary}\n\nNew messages since then:` : '\nConversation:'}
+${transcript}`,
+      maxTokens: 400,
+    });
+
+    return {
+      title: object.title.trim().replace(/^["']|["'.]$/g, ''),
+      summary: object.summary.trim()
+    };
+  }
+}
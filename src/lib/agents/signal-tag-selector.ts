@@ -1,8 +1,9 @@
-import { google } from '@ai-sdk/google';
-import { generateText, generateObject } from 'ai';
+import { getModel } from '../llm/models';
 import { searchTags, getTagTypes, searchTagsWithTolerance } from '../qloo/api';
 import { config } from '../config';
+import { guessEntityType, normalizeEntityType } from '../qloo/entity-types';
 import { broadcastDebugMessage } from '../utils/debug';
+import { generateTextWithCassette } from '../utils/cassette';
 
 export interface TagSelection {
   tags: string[];
@@ -23,7 +24,7 @@ export class SignalTagSelector {
 Query: "${userQuery}"
 
 Extract:
-1. Entity type (movie, brand, place, artist, book, destination, person, podcast, tv_show, video_game)
+1. Entity type (one of ${config.entityTypes.join(', ')})
 2. Context (what they're looking for)
 3. Intent (recommendation, search, discovery)
 4. Keywords (important terms for tag search, including genres, categories, types)
@@ -41,14 +42,15 @@ Respond in JSON format:
   "keywords": ["horror", "comedy", "romance"]
 }`;
 
-    const result = await generateText({
-      model: google('gemini-2.5-flash'),
+    const result = await generateTextWithCassette('SignalTagSelector.analyzeQueryIntent', {
+      model: getModel('extraction'),
       prompt,
       maxTokens: 300
     });
 
     try {
-      return JSON.parse(result.text);
+      const analysis = JSON.parse(result.text);
+      return { ...analysis, entityType: normalizeEntityType(analysis.entityType) || analysis.entityType };
     } catch (error) {
       // Fallback to rule-based analysis
       return this.ruleBasedAnalysis(userQuery);
@@ -64,12 +66,7 @@ Respond in JSON format:
     const queryLower = userQuery.toLowerCase();
     
     // Determine entity type
-    let entityType = 'urn:entity:place';
-    if (queryLower.includes('movie') || queryLower.includes('film')) {
-      entityType = 'urn:entity:movie';
-    } else if (queryLower.includes('brand')) {
-      entityType = 'urn:entity:brand';
-    }
+    const entityType = guessEntityType(queryLower) || config.defaultEntityType;
     
     // Extract context and keywords
     const context = queryLower.includes('new york') ? 'New York setting' : 'general';
@@ -173,8 +170,8 @@ Consider:
 
 Respond with just the selected tag names, comma-separated:`;
 
-    const result = await generateText({
-      model: google('gemini-2.5-flash'),
+    const result = await generateTextWithCassette('SignalTagSelector.selectBestTags', {
+      model: getModel('extraction'),
       prompt,
       maxTokens: 200
     });
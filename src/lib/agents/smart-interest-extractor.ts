@@ -1,7 +1,8 @@
-import { generateText } from 'ai';
-import { google } from '@ai-sdk/google';
+import { getModel } from '../llm/models';
 import { getQlooTags, getQlooTagTypes } from '../qloo/api';
+import { EntityType } from '../qloo/entity-types';
 import { broadcastDebugMessage } from '../utils/debug';
+import { generateTextWithCassette } from '../utils/cassette';
 
 export interface ExtractedInterest {
   name: string;
@@ -10,6 +11,7 @@ export interface ExtractedInterest {
   qlooTagId?: string;
   qlooEntityId?: string;
   source: 'conversation' | 'explicit' | 'inferred';
+  sentiment: 'like' | 'dislike';
   context: string;
 }
 
@@ -63,9 +65,12 @@ Extract interests in these categories:
 - technology (apps, devices, platforms, software)
 - activities (sports, hobbies, social activities, interests)
 
+Also extract dislikes and things to avoid (e.g. "I hate horror" -> horror, "no chains" -> chain restaurants) as interests with sentiment "dislike".
+
 For each interest, provide:
 - name: the specific interest
 - category: one of the above categories
+- sentiment: "like" or "dislike"
 - confidence: 0.0-1.0 based on how clearly it's mentioned
 - context: brief explanation of why you extracted this
 
@@ -74,13 +79,21 @@ Return as JSON array:
   {
     "name": "Nike",
     "category": "brands",
+    "sentiment": "like",
     "confidence": 0.9,
     "context": "User explicitly mentioned liking Nike"
+  },
+  {
+    "name": "Horror movies",
+    "category": "entertainment",
+    "sentiment": "dislike",
+    "confidence": 0.9,
+    "context": "User said they hate horror"
   }
 ]`;
 
-      const result = await generateText({
-        model: google('gemini-2.5-flash'),
+      const result = await generateTextWithCassette('SmartInterestExtractor.extractFromText', {
+        model: getModel('extraction'),
         prompt,
         maxTokens: 800
       });
@@ -116,7 +129,8 @@ Return as JSON array:
               category: interest.category,
               confidence: Math.min(1.0, Math.max(0.0, interest.confidence || 0.5)),
               context: interest.context || 'Extracted from bio',
-              source: 'inferred'
+              source: 'inferred',
+              sentiment: interest.sentiment === 'dislike' ? 'dislike' : 'like'
             };
             
             validatedInterests.push(validatedInterest);
@@ -159,9 +173,12 @@ Extract interests in these categories:
 - technology (apps, devices, platforms, software)
 - activities (sports, hobbies, social activities, interests)
 
+Also extract dislikes and things to avoid (e.g. "I hate horror" -> horror, "no chains" -> chain restaurants) as interests with sentiment "dislike".
+
 For each interest, provide:
 - name: the specific interest
 - category: one of the above categories
+- sentiment: "like" or "dislike"
 - confidence: 0.0-1.0 based on how clearly it's mentioned
 - context: brief explanation of why you extracted this
 
@@ -170,13 +187,21 @@ Return as JSON array:
   {
     "name": "Nike",
     "category": "brands",
+    "sentiment": "like",
     "confidence": 0.9,
     "context": "User explicitly mentioned liking Nike"
+  },
+  {
+    "name": "Horror movies",
+    "category": "entertainment",
+    "sentiment": "dislike",
+    "confidence": 0.9,
+    "context": "User said they hate horror"
   }
 ]`;
 
-      const result = await generateText({
-        model: google('gemini-2.5-flash'),
+      const result = await generateTextWithCassette('SmartInterestExtractor.extractFromConversation', {
+        model: getModel('extraction'),
         prompt,
         maxTokens: 800
       });
@@ -244,6 +269,7 @@ Return as JSON array:
             qlooTagId: validation.qlooTagId,
             qlooEntityId: validation.qlooEntityId,
             source: 'conversation',
+            sentiment: interest.sentiment === 'dislike' ? 'dislike' : 'like',
             context: interest.context
           });
         }
@@ -373,13 +399,13 @@ Return as JSON array:
   }
 
   // Map category to entity type
-  private mapCategoryToEntityType(category: string): string | null {
-    const mapping: Record<string, string> = {
+  private mapCategoryToEntityType(category: string): EntityType | null {
+    const mapping: Record<string, EntityType> = {
       'brands': 'urn:entity:brand',
       'entertainment': 'urn:entity:movie',
-      'lifestyle': 'urn:entity:restaurant',
-      'technology': 'urn:entity:app',
-      'activities': 'urn:entity:activity'
+      'lifestyle': 'urn:entity:place',
+      'technology': 'urn:entity:brand',
+      'activities': 'urn:entity:place'
     };
 
     return mapping[category] || null;
@@ -1,7 +1,8 @@
 import { generateText, generateObject } from 'ai';
-import { google } from '@ai-sdk/google';
+import { getModel } from '../llm/models';
 import { getDatabaseService } from '../database/database';
 import { getQlooTags, getEntity, getQlooTagTypes } from '../qloo/api';
+import { AudienceDiscovery } from './audience-discovery';
 
 export interface PersonaUpdate {
   name?: string;
@@ -82,7 +83,7 @@ ${userMessages}
 Extract all relevant persona information:`;
 
       const result = await generateText({
-        model: google('gemini-1.5-flash'),
+        model: getModel('summarization'),
         prompt,
         maxTokens: 1000
       });
@@ -305,12 +306,20 @@ Extract all relevant persona information:`;
         });
       }
 
-      // Add audience characteristics
+      // Add audience characteristics, keeping only audiences that exist in Qloo's taxonomy
+      const audienceDiscovery = new AudienceDiscovery();
       for (const audience of personaUpdate.audiences || []) {
+        const [match] = await audienceDiscovery.searchAudiences(audience.name);
+        if (!match) {
+          console.log('⚠️ Smart Persona Agent: No Qloo audience matches', audience.name);
+          continue;
+        }
         await databaseService.addAudienceCharacteristic(this.sessionId, {
-          type: audience.type,
-          name: audience.name,
-          confidence: audience.confidence
+          audienceType: match.audienceType,
+          audienceId: match.audienceId,
+          name: match.name,
+          confidence: audience.confidence,
+          metadata: { suggestedName: audience.name, suggestedType: audience.type }
         });
       }
 
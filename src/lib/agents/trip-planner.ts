@@ -0,0 +1,401 @@
+import { z } from 'zod';
+import { ITINERARY_SLOTS, Itinerary, ItineraryDay, ItineraryLeg, ItineraryPlace, ItinerarySlot, ItineraryStop, QlooParameters } from '../../types';
+import { EntityType } from '../config';
+import { getModel } from '../llm/models';
+import { getInsights } from '../qloo/api';
+import { findPlaces } from '../qloo/location';
+import { ParsedEntity, parseQlooResponse } from '../qloo/parser';
+import { generateObjectWithCassette } from '../utils/cassette';
+import { PersonaManager, PersonaSignals } from './persona-manager';
+
+interface SlotDefinition {
+  label: string;
+  time: string; // Local start time, HH:MM
+  icon: string;
+  category: 'eat' | 'see' | 'drink';
+  filterTags: string[]; // Any of these tags (filter.tags is a union)
+  keywords: string[]; // Words that ask for this slot by name
+}
+
+const SLOT_DEFINITIONS: Record<ItinerarySlot, SlotDefinition> = {
+  breakfast: {
+    label: 'Breakfast',
+    time: '09:00',
+    icon: '☕',
+    category: 'eat',
+    filterTags: ['urn:tag:genre:place:cafe', 'urn:tag:genre:place:bakery'],
+    keywords: ['breakfast', 'brunch', 'coffee', 'cafe', 'bakery']
+  },
+  museum: {
+    label: 'Museum',
+    time: '10:30',
+    icon: '🏛️',
+    category: 'see',
+    filterTags: ['urn:tag:genre:place:museum'],
+    keywords: ['museum', 'gallery', 'galleries', 'art', 'exhibition']
+  },
+  lunch: {
+    label: 'Lunch',
+    time: '13:00',
+    icon: '🥗',
+    category: 'eat',
+    filterTags: ['urn:tag:genre:place:restaurant'],
+    keywords: ['lunch']
+  },
+  sight: {
+    label: 'Sightseeing',
+    time: '15:00',
+    icon: '📸',
+    category: 'see',
+    filterTags: ['urn:tag:genre:place:landmark', 'urn:tag:genre:place:park'],
+    keywords: ['sight', 'sightseeing', 'landmark', 'attraction', 'viewpoint', 'park']
+  },
+  dinner: {
+    label: 'Dinner',
+    time: '19:30',
+    icon: '🍽️',
+    category: 'eat',
+    filterTags: ['urn:tag:genre:place:restaurant'],
+    keywords: ['dinner', 'supper']
+  },
+  bar: {
+    label: 'Drinks',
+    time: '22:00',
+    icon: '🍸',
+    category: 'drink',
+    filterTags: ['urn:tag:genre:place:bar'],
+    keywords: ['bar', 'cocktail', 'wine', 'beer', 'pub']
+  }
+};
+
+// Broad words that ask for every slot of a category ("where to eat, what to see")
+const CATEGORY_KEYWORDS: Record<SlotDefinition['category'], string[]> = {
+  eat: ['eat', 'food', 'foodie', 'dining', 'restaurant'],
+  see: ['see', 'sights', 'sightseeing', 'culture', 'visit'],
+  drink: ['drink', 'drinks', 'nightlife', 'going out']
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10
+};
+const DURATION = `(\\d+|${Object.keys(NUMBER_WORDS).join('|')})[-\\s]+(?:days?|nights?)`;
+const MAX_TRIP_DAYS = 10;
+const CANDIDATES_PER_DAY = 3;
+const CLUSTER_WINDOW = 5; // Only the best few candidates compete on distance
+const DAY_TRIP_RADIUS = 150000;
+const PLACE_TYPE: EntityType = 'urn:entity:place';
+const DESTINATION_TYPE: EntityType = 'urn:entity:destination';
+
+// Cities not in the gazetteer, named after a travel word: "then Porto", "and Sintra"
+const UNKNOWN_CITY_PATTERN = /\b(?:in|to|then|and|visiting)\s+([A-Z][\p{L}'-]+(?:\s+[A-Z][\p{L}'-]+)*)/gu;
+
+const TripRequestSchema = z.object({
+  legs: z.array(z.object({
+    city: z.string().describe('City name, e.g. "Lisbon"'),
+    days: z.number().int().min(1).max(MAX_TRIP_DAYS).describe('Days spent in this city')
+  })).describe('Cities in the order they are visited'),
+  slots: z.array(z.enum(ITINERARY_SLOTS)).describe('Parts of each day the user wants planned; all of them when unspecified'),
+  startDate: z.string().optional().describe('Date of the first day as YYYY-MM-DD, only if the user gave one')
+});
+
+export type TripRequest = z.infer<typeof TripRequestSchema>;
+
+// Splits a trip request into city legs and day slots, fills each slot from Insights with the
+// persona's signals and keeps every day's stops close together
+export class TripPlanner {
+  private personaManager: PersonaManager;
+
+  constructor(private sessionId?: string) {
+    this.personaManager = new PersonaManager(sessionId);
+  }
+
+  async plan(query: string): Promise<Itinerary> {
+    const request = await this.parseRequest(query);
+    if (request.legs.length === 0) {
+      throw new Error('No destination found in the trip request');
+    }
+
+    // Entity signals differ by type, but only the first pass stores newly matched audiences;
+    // handing the second pass the interests keeps it from storing the same ones again
+    const placeSignals = await this.personaManager.generateSignals(PLACE_TYPE);
+    const destinationSignals = await this.personaManager.generateSignals(DESTINATION_TYPE, await this.personaManager.getStoredInterests());
+    const totalDays = request.legs.reduce((sum, leg) => sum + leg.days, 0);
+    console.log(`🗺️ Planning ${totalDays} days across ${request.legs.map(leg => leg.city).join(' → ')} with slots: ${request.slots.join(', ')}`);
+
+    const used = new Set<string>();
+    const legs: ItineraryLeg[] = [];
+    const days: ItineraryDay[] = [];
+
+    for (const legRequest of request.legs) {
+      const place = findPlaces(legRequest.city).find(match => match.place.kind === 'city')?.place;
+      const city = place?.name || legRequest.city;
+      const location: QlooParameters['location'] = place
+        ? { city, country: place.country, wkt: `POINT(${place.lon} ${place.lat})`, radius: place.radius }
+        : { city };
+
+      const [pools, dayTrips] = await Promise.all([
+        Promise.all(request.slots.map(slot => this.fetchCandidates(
+          PLACE_TYPE,
+          `${SLOT_DEFINITIONS[slot].label} in ${city}`,
+          location,
+          placeSignals,
+          Math.min(legRequest.days * CANDIDATES_PER_DAY, 10),
+          SLOT_DEFINITIONS[slot].filterTags
+        ))),
+        this.fetchCandidates(
+          DESTINATION_TYPE,
+          `Day trips from ${city}`,
+          place ? { ...location, radius: DAY_TRIP_RADIUS } : location,
+          destinationSignals,
+          4
+        )
+      ]);
+      const candidates = new Map(request.slots.map((slot, index) => [slot, pools[index]]));
+
+      for (let i = 0; i < legRequest.days; i++) {
+        days.push(this.buildDay(days.length + 1, city, request.slots, candidates, used));
+      }
+
+      legs.push({
+        city,
+        country: place?.country,
+        days: legRequest.days,
+        dayTrips: dayTrips.filter(trip => trip.name.toLowerCase() !== city.toLowerCase()).slice(0, 3)
+      });
+    }
+
+    if (request.startDate) {
+      const start = Date.parse(`${request.startDate}T00:00:00Z`);
+      if (!isNaN(start)) {
+        days.forEach(day => {
+          day.date = new Date(start + (day.day - 1) * 86400000).toISOString().slice(0, 10);
+        });
+      }
+    }
+
+    const hasSignals = (signals: PersonaSignals) =>
+      signals.entitySignals.length > 0 || signals.tagSignals.length > 0 || signals.audienceSignals.length > 0 || !!signals.demographics;
+
+    return {
+      title: `${totalDays}-day trip: ${legs.map(leg => leg.city).join(' → ')}`,
+      query,
+      startDate: days[0]?.date ? request.startDate : undefined,
+      slots: request.slots,
+      legs,
+      days,
+      personalized: hasSignals(placeSignals) || hasSignals(destinationSignals),
+      generatedAt: new Date().toISOString()
+    };
+  }
+
+  async parseRequest(query: string): Promise<TripRequest> {
+    try {
+      const { object } = await generateObjectWithCassette<TripRequest>('TripPlanner.parseRequest', {
+        model: getModel('extraction'),
+        schema: TripRequestSchema,
+        schemaName: 'TripRequest',
+        schemaDescription: 'Cities, days and day slots of a trip request',
+        prompt: `Split this travel request into the cities to visit, in order, with the number of days in each.
+If only a total number of days is given for several cities, share it between them.
+Day slots: ${ITINERARY_SLOTS.map(slot => `${slot} (${SLOT_DEFINITIONS[slot].label.toLowerCase()})`).join(', ')}.
+Only list the slots the user asked for ("where to eat" means breakfast, lunch and dinner); list all of them if they didn't say.
+
+Request: "${query}"`,
+        maxTokens: 300,
+      });
+
+      const legs = object.legs.filter(leg => leg.city.trim());
+      if (legs.length > 0) {
+        return {
+          legs: capDays(legs),
+          slots: object.slots.length > 0 ? orderSlots(object.slots) : [...ITINERARY_SLOTS],
+          startDate: object.startDate
+        };
+      }
+      console.log('⚠️ Trip request parser found no cities, using rules');
+    } catch (error) {
+      console.log('⚠️ Trip request parsing failed, using rules:', error);
+    }
+
+    return ruleBasedTripRequest(query);
+  }
+
+  // Fill the day's slots in time order, each time taking the candidate nearest the places
+  // already picked, so a day stays in one part of town instead of zigzagging across it
+  private buildDay(
+    dayNumber: number,
+    city: string,
+    slots: ItinerarySlot[],
+    candidates: Map<ItinerarySlot, ItineraryPlace[]>,
+    used: Set<string>
+  ): ItineraryDay {
+    const picked: ItineraryPlace[] = [];
+    let previous: ItineraryPlace | undefined;
+
+    const stops = slots.map(slot => {
+      const definition = SLOT_DEFINITIONS[slot];
+      const available = (candidates.get(slot) || []).filter(place => !used.has(place.id)).slice(0, CLUSTER_WINDOW);
+      const center = centroid(picked);
+      const distanceFromCenter = (place: ItineraryPlace) =>
+        center && place.coordinates ? haversine(center, place.coordinates) : Infinity;
+      // Stable sort: without coordinates the Insights ranking decides
+      const place = [...available].sort((a, b) => distanceFromCenter(a) - distanceFromCenter(b))[0] || null;
+
+      const stop: ItineraryStop = { slot, label: definition.label, time: definition.time, icon: definition.icon, place };
+      if (place) {
+        used.add(place.id);
+        if (place.coordinates) {
+          if (previous?.coordinates) {
+            stop.distanceFromPrevious = Math.round(haversine(previous.coordinates, place.coordinates));
+          }
+          picked.push(place);
+          previous = place;
+        }
+      }
+      return stop;
+    });
+
+    return { day: dayNumber, city, stops, center: centroid(picked) };
+  }
+
+  private async fetchCandidates(
+    entityType: EntityType,
+    query: string,
+    location: QlooParameters['location'],
+    signals: PersonaSignals,
+    limit: number,
+    filterTags?: string[]
+  ): Promise<ItineraryPlace[]> {
+    try {
+      const response = await getInsights({
+        query,
+        targetAPI: 'GETINSIGHTS',
+        entityType,
+        location,
+        filterTags,
+        signalEntities: signals.entitySignals,
+        signalTags: signals.tagSignals,
+        signalAudiences: signals.audienceSignals,
+        excludeEntities: signals.excludeEntities,
+        excludeTags: signals.excludeTags,
+        demographics: signals.demographics,
+        limit,
+        explainability: false
+      }, this.sessionId);
+      // Large responses come back already parsed
+      const data: any = response.data;
+      const entities: ParsedEntity[] = Array.isArray(data?.entities) ? data.entities : parseQlooResponse(data).entities;
+      return entities.map(toItineraryPlace);
+    } catch (error) {
+      console.error(`❌ Trip planner search failed for "${query}":`, error);
+      return [];
+    }
+  }
+}
+
+// Fallback when the LLM is unavailable: gazetteer cities, "N days in X" and slot keywords
+export function ruleBasedTripRequest(query: string): TripRequest {
+  const cities: Array<{ name: string; index: number; length: number }> = [];
+  findPlaces(query)
+    .filter(match => !match.place.generic)
+    .forEach(match => cities.push({ name: match.place.city || match.place.name, index: match.index, length: match.matched.length }));
+
+  for (const match of Array.from(query.matchAll(UNKNOWN_CITY_PATTERN))) {
+    const index = (match.index || 0) + match[0].length - match[1].length;
+    if (!cities.some(city => index < city.index + city.length && city.index < index + match[1].length)) {
+      cities.push({ name: match[1], index, length: match[1].length });
+    }
+  }
+
+  const ordered = cities
+    .sort((a, b) => a.index - b.index)
+    .filter((city, position, all) => all.findIndex(other => other.name === city.name) === position);
+
+  const durations = Array.from(query.matchAll(new RegExp(DURATION, 'gi')));
+  const total = durations.length > 0
+    ? toNumber(durations[0][1])
+    : /\bweekend\b/i.test(query) ? 2 : /\b(?:a|one) week\b/i.test(query) ? 7 : undefined;
+
+  let legs: TripRequest['legs'];
+  if (ordered.length > 1 && durations.length <= 1 && total) {
+    // One duration for several cities is the length of the whole trip
+    legs = ordered.map((city, position) => ({
+      city: city.name,
+      days: Math.max(1, Math.floor(total / ordered.length) + (position < total % ordered.length ? 1 : 0))
+    }));
+  } else {
+    legs = ordered.map(city => {
+      const before = query.slice(0, city.index).match(new RegExp(`${DURATION}\\s+(?:in|at)\\s+$`, 'i'));
+      const after = query.slice(city.index + city.length).match(new RegExp(`^\\s*\\(?(?:for\\s+)?${DURATION}`, 'i'));
+      const days = before ? toNumber(before[1]) : after ? toNumber(after[1]) : ordered.length === 1 && total ? total : 1;
+      return { city: city.name, days };
+    });
+  }
+
+  const startDate = query.match(/\b(\d{4}-\d{2}-\d{2})\b/)?.[1];
+  return { legs: capDays(legs), slots: slotsForQuery(query), startDate };
+}
+
+// Slots named in the query plus every slot of a category asked for broadly; all slots when neither
+export function slotsForQuery(query: string): ItinerarySlot[] {
+  const mentions = (words: string[]) => words.some(word => new RegExp(`\\b${word}s?\\b`, 'i').test(query));
+  const categories = (Object.keys(CATEGORY_KEYWORDS) as Array<SlotDefinition['category']>)
+    .filter(category => mentions(CATEGORY_KEYWORDS[category]));
+
+  const slots = ITINERARY_SLOTS.filter(slot =>
+    mentions(SLOT_DEFINITIONS[slot].keywords) || categories.includes(SLOT_DEFINITIONS[slot].category)
+  );
+  return slots.length > 0 ? slots : [...ITINERARY_SLOTS];
+}
+
+function orderSlots(slots: ItinerarySlot[]): ItinerarySlot[] {
+  return ITINERARY_SLOTS.filter(slot => slots.includes(slot));
+}
+
+// Trim the last legs so the whole trip stays within MAX_TRIP_DAYS
+function capDays(legs: TripRequest['legs']): TripRequest['legs'] {
+  let remaining = MAX_TRIP_DAYS;
+  return legs
+    .map(leg => {
+      const days = Math.min(Math.max(1, Math.round(leg.days) || 1), remaining);
+      remaining -= days;
+      return { city: leg.city.trim(), days };
+    })
+    .filter(leg => leg.days > 0);
+}
+
+function toNumber(value: string): number {
+  return NUMBER_WORDS[value.toLowerCase()] || parseInt(value, 10) || 1;
+}
+
+function toItineraryPlace(entity: ParsedEntity): ItineraryPlace {
+  return {
+    id: String(entity.id || entity.name),
+    name: entity.name,
+    type: entity.type,
+    score: typeof entity.score === 'number' ? entity.score : null,
+    address: entity.properties?.address,
+    imageUrl: entity.imageUrl,
+    description: entity.description || entity.properties?.description,
+    tags: entity.tags || [],
+    coordinates: entity.coordinates
+  };
+}
+
+function centroid(places: ItineraryPlace[]): { lat: number; lon: number } | undefined {
+  const located = places.filter(place => place.coordinates);
+  if (located.length === 0) return undefined;
+  return {
+    lat: located.reduce((sum, place) => sum + place.coordinates!.lat, 0) / located.length,
+    lon: located.reduce((sum, place) => sum + place.coordinates!.lon, 0) / located.length
+  };
+}
+
+// Great-circle distance in meters
+function haversine(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(h));
+}
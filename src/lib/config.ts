@@ -1,3 +1,5 @@
+import { ENTITY_TYPE_URNS, EntityType } from './qloo/entity-types';
+
 // Configuration for QLOO AGENT system
 export const config = {
   // API Keys
@@ -9,27 +11,43 @@ export const config = {
   redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
   kvUrl: process.env.KV_URL || '',
   
+  // Storage backend behind DatabaseService: 'kv' (Vercel KV/Redis), 'prisma' (Postgres via DATABASE_URL) or 'memory'
+  storageBackend: (['prisma', 'memory'].includes(process.env.STORAGE_BACKEND || '') ? process.env.STORAGE_BACKEND : 'kv') as 'kv' | 'prisma' | 'memory',
+  
+  // Qloo transport: 'http' hits the live API, 'mock' serves local fixtures with no network
+  qlooTransport: (process.env.QLOO_TRANSPORT === 'mock' ? 'mock' : 'http') as 'http' | 'mock',
+  
+  // Cassettes: 'record' captures Qloo/LLM calls, 'replay' serves them back with no keys or network
+  recordMode: (['record', 'replay'].includes(process.env.RECORD_MODE || '') ? process.env.RECORD_MODE : 'off') as 'record' | 'replay' | 'off',
+  cassetteDir: process.env.CASSETTE_DIR || 'cassettes',
+  cassetteName: process.env.CASSETTE_NAME || 'default',
+  
+  // LLM model registry: each agent asks for a role, never a concrete model.
+  // Spec format is "<provider>:<modelId>" with provider google | openai-compatible | stub
+  models: {
+    extraction: process.env.MODEL_EXTRACTION || 'google:gemini-2.5-flash',
+    chat: process.env.MODEL_CHAT || 'google:gemini-2.5-flash',
+    summarization: process.env.MODEL_SUMMARIZATION || 'google:gemini-1.5-flash',
+  },
+  // Embeddings for semantic chat history search: google | openai-compatible | local (offline, deterministic)
+  embeddingModel: process.env.MODEL_EMBEDDING || 'local:hashing',
+  openaiCompatibleUrl: process.env.OPENAI_COMPATIBLE_URL || 'http://localhost:11434/v1',
+  openaiCompatibleApiKey: process.env.OPENAI_COMPATIBLE_API_KEY || '',
+  
   // Features
   debugMode: process.env.DEBUG_MODE === 'true',
   trackTokens: process.env.TRACK_TOKENS === 'true',
+  recommendationNarratives: process.env.RECOMMENDATION_NARRATIVES === 'true', // LLM blurb per recommendation, grounded in the Qloo payload
   
   // API Limits
   maxTokens: 4000,
   timeoutMs: 10000, // 10 seconds
   
-  // Entity Types supported by Qloo
-  entityTypes: [
-    'urn:entity:place',
-    'urn:entity:brand', 
-    'urn:entity:artist',
-    'urn:entity:movie',
-    'urn:entity:book',
-    'urn:entity:videogame',
-    'urn:entity:podcast',
-    'urn:entity:tvshow',
-    'urn:entity:destination',
-    'urn:entity:person'
-  ] as const,
+  // Entity Types supported by Qloo (see qloo/entity-types for aliases, labels and filters)
+  entityTypes: ENTITY_TYPE_URNS,
+  
+  // Below this confidence the LLM intent classifier defers to the rule-based router
+  intentConfidenceThreshold: 0.6,
   
   // Default parameters
   defaultLimit: 3,
@@ -37,18 +55,25 @@ export const config = {
 } as const;
 
 // Type exports
-export type EntityType = typeof config.entityTypes[number];
+export type { EntityType };
 export type DefaultEntityType = typeof config.defaultEntityType;
+export type ModelRole = keyof typeof config.models;
 
 // Validation
 export function validateConfig() {
   const errors: string[] = [];
   
-  if (!config.googleApiKey) {
+  // Replayed sessions never reach the real services
+  if (config.recordMode === 'replay') {
+    return;
+  }
+  
+  const usesGoogle = Object.values(config.models).some(spec => spec.startsWith('google:'));
+  if (!config.googleApiKey && usesGoogle) {
     errors.push('GOOGLE_API_KEY is required');
   }
   
-  if (!config.qlooApiKey) {
+  if (!config.qlooApiKey && config.qlooTransport !== 'mock') {
     errors.push('QLOO_API_KEY is required');
   }
   
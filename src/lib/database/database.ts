@@ -1,38 +1,132 @@
-import { kv } from '@vercel/kv';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import {
+  StorageAdapter,
+  SessionCollection,
+  SessionListQuery,
+  SessionSummaryFields,
+  StoredUser,
+  LibraryPersona,
+  EmbeddingRecord,
+  createStorageAdapter,
+  createEmptyCollections,
+  titleFromMessage,
+  previewFromMessage
+} from './storage';
+
+// Persona fields that carry over from one session to the user's next
+const PROFILE_FIELDS = ['name', 'location', 'gender', 'demographics'];
+// Long-term memory draws on this many of the user's most recent sessions
+const PROFILE_SESSION_LIMIT = 20;
+const MAX_MERGE_HOPS = 5;
+const MERGE_TOKEN_TTL_MS = 10 * 60 * 1000; // Long enough to open the app in the other browser
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest();
+
+const interestKey = (interest: any) => `${interest.sentiment || 'like'}:${interest.category}:${String(interest.name).toLowerCase()}`;
+const audienceKey = (audience: any) => `${audience.audienceType}:${audience.audienceId || audience.name}`;
+
+function pickProfile(persona: any): Record<string, any> {
+  return Object.fromEntries(
+    PROFILE_FIELDS
+      .map(field => [field, persona?.[field]])
+      .filter(([, value]) => value !== undefined && value !== null && value !== '' && value !== 'Unknown')
+  );
+}
+
+function normalizeTags(tags: string[] = []): string[] {
+  return Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+}
 
-// Database service class using Vercel KV with Redis fallback
+// How an attached library persona appears to the agents: the session's persona record with the
+// library's profile on top, so callers reading name/location/demographics need no special case
+function libraryPersonaView(persona: any, library: LibraryPersona) {
+  return {
+    ...persona,
+    ...library.profile,
+    name: library.profile.name || library.name,
+    confidence: library.profile.confidence ?? 0.9,
+    libraryPersonaId: library.id,
+    libraryPersonaName: library.name
+  };
+}
+
+// The same interest or audience is often recorded in several sessions; keep its most confident record
+function dedupeByConfidence(records: any[], keyOf: (record: any) => string) {
+  const byKey = new Map<string, any>();
+  records.forEach(record => {
+    const existing = byKey.get(keyOf(record));
+    if (!existing || (record.confidence || 0) >= (existing.confidence || 0)) {
+      byKey.set(keyOf(record), record);
+    }
+  });
+  return Array.from(byKey.values());
+}
+
+// Database service: session/persona bookkeeping on top of a pluggable StorageAdapter (KV, Prisma or in-memory)
 export class DatabaseService {
-  private kv: typeof kv;
-  private redisUrl: string | undefined;
+  private storage: StorageAdapter;
+
+  constructor(storage: StorageAdapter = createStorageAdapter()) {
+    this.storage = storage;
+    console.log(`✅ DatabaseService initialized with ${storage.name} storage`);
+  }
+
+  private createId(prefix: string) {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private async requireSession(sessionId: string) {
+    if (!(await this.storage.hasSession(sessionId))) {
+      throw new Error('Session not found');
+    }
+  }
+
+  // Stamp a record with id/sessionId/timestamp and append it to one of the session's collections
+  private async appendToSession(sessionId: string, collection: SessionCollection, prefix: string, data: any) {
+    await this.requireSession(sessionId);
+
+    const record = {
+      id: this.createId(prefix),
+      sessionId,
+      ...data,
+      timestamp: new Date().toISOString()
+    };
 
-  constructor() {
-    this.kv = kv;
-    this.redisUrl = process.env.REDIS_URL;
-    console.log('✅ DatabaseService initialized with Vercel KV/Redis');
+    await this.storage.appendRecords(sessionId, collection, [record]);
+    return record;
   }
 
   // Chat Session Management
-  async createChatSession(personaId?: string, debugMode: boolean = false) {
+  async createChatSession(personaId?: string, debugMode: boolean = false, userId?: string) {
     try {
-      const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const sessionId = this.createId('session');
       const session = {
         id: sessionId,
+        userId,
         personaId,
         debugMode,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
         messages: [],
-        apiCalls: [],
-        tokenUsage: [],
-        entities: [],
-        structuredExtractions: [],
-        personalInterests: [],
-        audienceCharacteristics: [],
-        qlooResponses: []
+        ...createEmptyCollections()
       };
 
-      await this.kv.set(`session:${sessionId}`, session);
+      await this.storage.createSession(session);
       console.log(`✅ Created chat session: ${sessionId}`);
+
+      // Returning users start from what earlier sessions learned instead of a blank persona
+      if (userId) {
+        const user = await this.storage.getUser(userId);
+        if (user && Object.keys(user.profile || {}).length > 0) {
+          await this.createPersona(sessionId, { ...user.profile, interests: [], audiences: [] });
+          console.log(`✅ Seeded persona for session ${sessionId} from user ${userId}`);
+        }
+      }
+
+      // A library persona given up front drives the session from its first message
+      if (personaId && await this.storage.getLibraryPersona(personaId)) {
+        await this.attachPersona(sessionId, personaId);
+      }
       return session;
     } catch (error) {
       console.error('❌ Failed to create chat session:', error);
@@ -42,7 +136,7 @@ export class DatabaseService {
 
   async getChatSession(sessionId: string) {
     try {
-      const session = await this.kv.get(`session:${sessionId}`);
+      const session = await this.storage.getSession(sessionId);
       if (!session) {
         console.log(`❌ Session not found: ${sessionId}`);
         return null;
@@ -57,18 +151,11 @@ export class DatabaseService {
 
   async updateChatSession(sessionId: string, updates: any) {
     try {
-      const session = await this.getChatSession(sessionId);
-      if (!session) {
+      const updatedSession = await this.storage.updateSession(sessionId, updates);
+      if (!updatedSession) {
         throw new Error('Session not found');
       }
 
-      const updatedSession = {
-        ...session,
-        ...updates,
-        updatedAt: new Date().toISOString()
-      };
-
-      await this.kv.set(`session:${sessionId}`, updatedSession);
       console.log(`✅ Updated session: ${sessionId}`);
       return updatedSession;
     } catch (error) {
@@ -80,23 +167,20 @@ export class DatabaseService {
   // Message Management
   async addMessage(sessionId: string, message: any) {
     try {
-      const session = await this.getChatSession(sessionId);
-      if (!session) {
-        throw new Error('Session not found');
-      }
+      await this.requireSession(sessionId);
 
-      const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
       const messageWithId = {
         ...message,
-        id: messageId,
+        id: this.createId('msg'),
         timestamp: new Date().toISOString()
       };
 
-      session.messages.push(messageWithId);
-      session.updatedAt = new Date().toISOString();
-
-      await this.kv.set(`session:${sessionId}`, session);
-      await this.kv.set(`message:${messageId}`, messageWithId);
+      await this.storage.addMessage(sessionId, messageWithId);
+      await this.storage.updateSessionSummary(
+        sessionId,
+        { lastMessagePreview: previewFromMessage(messageWithId.content) },
+        messageWithId.role === 'user' ? { title: titleFromMessage(messageWithId.content) } : {}
+      );
       
       console.log(`✅ Added message to session: ${sessionId}`);
       return messageWithId;
@@ -106,10 +190,36 @@ export class DatabaseService {
     }
   }
 
+  async saveMessageTrace(sessionId: string, messageId: string, trace: any) {
+    try {
+      const record = {
+        sessionId,
+        messageId,
+        ...trace,
+        createdAt: new Date().toISOString()
+      };
+
+      await this.storage.saveMessageTrace(messageId, record);
+      console.log(`✅ Saved trace for message: ${messageId} (${trace.events?.length || 0} events)`);
+      return record;
+    } catch (error) {
+      console.error('❌ Failed to save message trace:', error);
+      throw error;
+    }
+  }
+
+  async getMessageTrace(messageId: string) {
+    try {
+      return await this.storage.getMessageTrace(messageId);
+    } catch (error) {
+      console.error('❌ Failed to get message trace:', error);
+      return null;
+    }
+  }
+
   async getMessages(sessionId: string) {
     try {
-      const session = await this.getChatSession(sessionId);
-      return session?.messages || [];
+      return await this.storage.getMessages(sessionId);
     } catch (error) {
       console.error('❌ Failed to get messages:', error);
       return [];
@@ -119,7 +229,7 @@ export class DatabaseService {
   // Persona Management
   async createPersona(sessionId: string, personaData: any) {
     try {
-      const personaId = `persona_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const personaId = this.createId('persona');
       const persona = {
         id: personaId,
         sessionId,
@@ -128,8 +238,9 @@ export class DatabaseService {
         updatedAt: new Date().toISOString()
       };
 
-      await this.kv.set(`persona:${personaId}`, persona);
-      await this.kv.set(`session:${sessionId}:persona`, persona);
+      await this.storage.savePersona(persona);
+      await this.syncPersonaName(sessionId, persona);
+      await this.syncUserProfile(sessionId, persona);
       
       console.log(`✅ Created persona: ${personaId}`);
       return persona;
@@ -139,19 +250,22 @@ export class DatabaseService {
     }
   }
 
+  // The persona driving the session: an attached library persona, else the one learned in chat
   async getPersona(sessionId: string) {
     try {
-      const persona = await this.kv.get(`session:${sessionId}:persona`);
-      return persona as any;
+      const persona = await this.storage.getPersona(sessionId);
+      const library = await this.attachedLibraryPersona(persona);
+      return library ? libraryPersonaView(persona, library) : persona;
     } catch (error) {
       console.error('❌ Failed to get persona:', error);
       return null;
     }
   }
 
+  // Always updates the learned persona; an attached library persona is only changed through the library
   async updatePersona(sessionId: string, updates: any) {
     try {
-      const persona = await this.getPersona(sessionId);
+      const persona = await this.storage.getPersona(sessionId);
       if (!persona) {
         throw new Error('Persona not found');
       }
@@ -162,8 +276,9 @@ export class DatabaseService {
         updatedAt: new Date().toISOString()
       };
 
-      await this.kv.set(`persona:${persona.id}`, updatedPersona);
-      await this.kv.set(`session:${sessionId}:persona`, updatedPersona);
+      await this.storage.savePersona(updatedPersona);
+      await this.syncPersonaName(sessionId, updatedPersona);
+      await this.syncUserProfile(sessionId, updatedPersona);
       
       console.log(`✅ Updated persona: ${persona.id}`);
       return updatedPersona;
@@ -173,29 +288,400 @@ export class DatabaseService {
     }
   }
 
-  // Token Usage Tracking
-  async addTokenUsage(sessionId: string, usage: any) {
+  private async syncPersonaName(sessionId: string, persona: any) {
+    if (persona.name && persona.name !== 'Unknown') {
+      await this.storage.updateSessionSummary(sessionId, { personaName: persona.name });
+    }
+  }
+
+  // What a session learns about the person becomes the default for the owner's next session
+  private async syncUserProfile(sessionId: string, persona: any) {
+    const summary = await this.storage.getSessionSummary(sessionId);
+    if (!summary?.userId) return;
+
+    const learned = pickProfile(persona);
+    const user = await this.storage.getUser(summary.userId);
+    if (!user) return;
+
+    const changed = Object.entries(learned).some(([field, value]) => JSON.stringify(user.profile?.[field]) !== JSON.stringify(value));
+    if (changed) {
+      await this.storage.updateUser(user.id, { profile: { ...user.profile, ...learned } });
+      console.log(`✅ Updated profile of user ${user.id}`);
+    }
+  }
+
+  // User Management
+  async createUser(profile: Record<string, any> = {}, fields: Partial<StoredUser> = {}): Promise<StoredUser> {
     try {
-      const session = await this.getChatSession(sessionId);
-      if (!session) {
-        throw new Error('Session not found');
+      const user: StoredUser = {
+        ...fields,
+        id: this.createId('user'),
+        profile: pickProfile(profile),
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      };
+
+      await this.storage.createUser(user);
+      console.log(`✅ Created user: ${user.id}`);
+      return user;
+    } catch (error) {
+      console.error('❌ Failed to create user:', error);
+      throw new Error('Failed to create user');
+    }
+  }
+
+  // Follows merges, so a stale id still finds the user it was folded into
+  async getUser(userId: string): Promise<StoredUser | null> {
+    try {
+      let user = await this.storage.getUser(userId);
+      for (let hop = 0; user?.mergedInto && hop < MAX_MERGE_HOPS; hop++) {
+        user = await this.storage.getUser(user.mergedInto);
       }
+      return user;
+    } catch (error) {
+      console.error('❌ Failed to get user:', error);
+      return null;
+    }
+  }
 
-      const usageId = `usage_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const usageWithId = {
-        ...usage,
-        id: usageId,
+  // The user behind an id from a cookie or request, or a new one when there is none
+  async resolveUser(userId?: string | null): Promise<StoredUser> {
+    const user = userId ? await this.getUser(userId) : null;
+    return user || await this.createUser();
+  }
+
+  // Hands a session that has no owner yet (e.g. from before users existed) to a user
+  async claimSession(sessionId: string, userId: string) {
+    try {
+      const summary = await this.storage.getSessionSummary(sessionId);
+      if (!summary || summary.userId) return false;
+
+      await this.storage.updateSession(sessionId, { userId });
+      console.log(`✅ Session ${sessionId} now belongs to user ${userId}`);
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to claim session:', error);
+      return false;
+    }
+  }
+
+  async getUserSessionIds(userId: string, limit: number = PROFILE_SESSION_LIMIT): Promise<string[]> {
+    const page = await this.storage.listSessionSummaries({ userId, limit, sort: 'recent' });
+    return page.sessions.map(session => session.id);
+  }
+
+  // Everything the user's sessions have learned, as one profile
+  async getUserProfile(userId: string) {
+    const user = await this.getUser(userId);
+    if (!user) return null;
+
+    const sessionIds = await this.getUserSessionIds(user.id);
+    const [interests, audiences, feedback] = await Promise.all([
+      this.collectRecords(sessionIds, 'personalInterests'),
+      this.collectRecords(sessionIds, 'audienceCharacteristics'),
+      this.collectRecords(sessionIds, 'recommendationFeedback')
+    ]);
+
+    return {
+      user,
+      sessionIds,
+      interests: dedupeByConfidence(interests, interestKey),
+      audiences: dedupeByConfidence(audiences, audienceKey),
+      feedback
+    };
+  }
+
+  // Short-lived, single-use proof that the caller owns this user; another browser redeems it to merge the user in.
+  // Only a hash is stored, so reading the user record doesn't reveal a usable token
+  async issueMergeToken(userId: string) {
+    const token = randomBytes(24).toString('base64url');
+    const expiresAt = new Date(Date.now() + MERGE_TOKEN_TTL_MS).toISOString();
+
+    const user = await this.storage.updateUser(userId, { mergeToken: { hash: hashToken(token).toString('hex'), expiresAt } });
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return { token, expiresAt };
+  }
+
+  // Spends a merge token issued to this user. The match and the clear are one atomic update,
+  // so two concurrent redemptions can't both succeed
+  async redeemMergeToken(userId: string, token: string): Promise<boolean> {
+    const presented = hashToken(token);
+    const matches = (user: StoredUser) => {
+      const stored = Buffer.from(String(user.mergeToken?.hash || ''), 'hex');
+      return stored.length === presented.length && timingSafeEqual(stored, presented);
+    };
+
+    const consumed = await this.storage.updateUserIf(userId, matches, { mergeToken: null });
+    return !!consumed && new Date(consumed.mergeToken?.expiresAt).getTime() > Date.now();
+  }
+
+  // Fold one user into another: sessions move over, the target's profile keeps its own values
+  // and gains the source's where it has none, and the source points at the target from then on
+  async mergeUsers(sourceUserId: string, targetUserId: string) {
+    try {
+      const [source, target] = await Promise.all([this.getUser(sourceUserId), this.getUser(targetUserId)]);
+      if (!source || !target) {
+        throw new Error('User not found');
+      }
+      if (source.id === target.id) {
+        throw new Error('Cannot merge a user into itself');
+      }
+
+      let moved = 0;
+      const seen = new Set<string>();
+      // Each pass moves a page out of the source's index, so the first page is always the next batch
+      for (;;) {
+        const sessionIds = (await this.getUserSessionIds(source.id, 100)).filter(id => !seen.has(id));
+        if (sessionIds.length === 0) break;
+        for (const sessionId of sessionIds) {
+          seen.add(sessionId);
+          if (await this.storage.updateSession(sessionId, { userId: target.id })) moved++;
+        }
+      }
+
+      const merged = await this.storage.updateUser(target.id, { profile: { ...source.profile, ...target.profile } });
+      await this.storage.updateUser(source.id, { mergedInto: target.id });
+
+      console.log(`✅ Merged user ${source.id} into ${target.id} (${moved} sessions)`);
+      return { user: merged || target, movedSessions: moved };
+    } catch (error) {
+      console.error('❌ Failed to merge users:', error);
+      throw error;
+    }
+  }
+
+  // A fresh identity that remembers where it came from; sessions stay with the original user
+  async forkUser(userId: string, copyProfile: boolean = false) {
+    try {
+      const user = await this.getUser(userId);
+      if (!user) {
+        throw new Error('User not found');
+      }
+
+      const fork = await this.createUser(copyProfile ? user.profile : {}, { forkedFrom: user.id });
+      console.log(`✅ Forked user ${user.id} into ${fork.id}`);
+      return fork;
+    } catch (error) {
+      console.error('❌ Failed to fork user:', error);
+      throw error;
+    }
+  }
+
+  // Sessions whose records make up a session's long-term memory: its owner's recent sessions, or only itself
+  private async memorySessionIds(sessionId: string): Promise<string[]> {
+    const summary = await this.storage.getSessionSummary(sessionId);
+    if (!summary?.userId) return [sessionId];
+
+    const sessionIds = await this.getUserSessionIds(summary.userId);
+    return sessionIds.includes(sessionId) ? sessionIds : [sessionId, ...sessionIds];
+  }
+
+  // Records from several sessions, oldest session first like each session's own records
+  private async collectRecords(sessionIds: string[], collection: SessionCollection) {
+    const batches = await Promise.all([...sessionIds].reverse().map(id => this.storage.getRecords(id, collection)));
+    return batches.flat();
+  }
+
+  // Persona Library
+  async createLibraryPersona(data: Partial<LibraryPersona> & { name: string }, createdBy?: string): Promise<LibraryPersona> {
+    try {
+      const persona: LibraryPersona = {
+        id: this.createId('libpersona'),
+        name: data.name.trim(),
+        description: data.description,
+        tags: normalizeTags(data.tags),
+        profile: pickProfile(data.profile || {}),
+        interests: data.interests || [],
+        audiences: data.audiences || [],
+        duplicatedFrom: data.duplicatedFrom,
+        createdBy: createdBy || data.createdBy,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      };
+
+      await this.storage.saveLibraryPersona(persona);
+      console.log(`✅ Created library persona: ${persona.id} (${persona.name})`);
+      return persona;
+    } catch (error) {
+      console.error('❌ Failed to create library persona:', error);
+      throw error;
+    }
+  }
+
+  async getLibraryPersona(personaId: string) {
+    try {
+      return await this.storage.getLibraryPersona(personaId);
+    } catch (error) {
+      console.error('❌ Failed to get library persona:', error);
+      return null;
+    }
+  }
+
+  // Newest first; `tag` must match exactly, `search` matches name, description and tags
+  async listLibraryPersonas(filters: { tag?: string; search?: string } = {}) {
+    try {
+      const tag = filters.tag?.trim().toLowerCase();
+      const term = filters.search?.trim().toLowerCase();
+      const personas = await this.storage.listLibraryPersonas();
+      return personas
+        .filter(persona => !tag || persona.tags.includes(tag))
+        .filter(persona => !term || [persona.name, persona.description || '', ...persona.tags].some(text => text.toLowerCase().includes(term)))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    } catch (error) {
+      console.error('❌ Failed to list library personas:', error);
+      return [];
+    }
+  }
+
+  async updateLibraryPersona(personaId: string, updates: Partial<LibraryPersona>) {
+    try {
+      const persona = await this.storage.getLibraryPersona(personaId);
+      if (!persona) {
+        throw new Error('Library persona not found');
+      }
+
+      const updated: LibraryPersona = {
+        ...persona,
+        ...updates,
+        id: persona.id,
+        tags: updates.tags ? normalizeTags(updates.tags) : persona.tags,
+        profile: updates.profile ? pickProfile(updates.profile) : persona.profile,
+        createdAt: persona.createdAt,
+        updatedAt: new Date().toISOString()
+      };
+
+      await this.storage.saveLibraryPersona(updated);
+      console.log(`✅ Updated library persona: ${personaId}`);
+      return updated;
+    } catch (error) {
+      console.error('❌ Failed to update library persona:', error);
+      throw error;
+    }
+  }
+
+  async duplicateLibraryPersona(personaId: string, name?: string, createdBy?: string) {
+    const persona = await this.storage.getLibraryPersona(personaId);
+    if (!persona) {
+      throw new Error('Library persona not found');
+    }
+
+    return this.createLibraryPersona({
+      ...structuredClone(persona),
+      name: name || `${persona.name} (copy)`,
+      duplicatedFrom: persona.id
+    }, createdBy);
+  }
+
+  // Sessions still pointing at a deleted persona fall back to what they learned themselves
+  async deleteLibraryPersona(personaId: string) {
+    try {
+      await this.storage.deleteLibraryPersona(personaId);
+      console.log(`✅ Deleted library persona: ${personaId}`);
+    } catch (error) {
+      console.error('❌ Failed to delete library persona:', error);
+      throw error;
+    }
+  }
+
+  // Snapshot whatever currently drives a session (learned or attached) as a new library persona
+  // Only the session's owner may snapshot it; anyone else's session reads as missing
+  async savePersonaToLibrary(sessionId: string, data: { name?: string; description?: string; tags?: string[] } = {}, createdBy?: string) {
+    const summary = await this.storage.getSessionSummary(sessionId);
+    if (!summary || (summary.userId || undefined) !== createdBy) {
+      throw new Error('Session not found');
+    }
+
+    const [persona, interests, audiences] = await Promise.all([
+      this.getPersona(sessionId),
+      this.getPersonalInterests(sessionId),
+      this.getAudienceCharacteristics(sessionId)
+    ]);
+
+    return this.createLibraryPersona({
+      name: data.name || pickProfile(persona).name || 'Untitled persona',
+      description: data.description,
+      tags: data.tags,
+      profile: persona || {},
+      interests: interests.map((interest: any) => ({
+        category: interest.category,
+        name: interest.name,
+        confidence: interest.confidence ?? 0.5,
+        ...(interest.entityId ? { entityId: interest.entityId } : {}),
+        ...(interest.sentiment === 'dislike' ? { sentiment: 'dislike' as const } : {})
+      })),
+      audiences: audiences.map((audience: any) => ({
+        audienceType: audience.audienceType,
+        audienceId: audience.audienceId,
+        name: audience.name,
+        confidence: audience.confidence
+      }))
+    }, createdBy);
+  }
+
+  // Let a library persona drive the session from the next message on; what the session learned is kept
+  async attachPersona(sessionId: string, personaId: string) {
+    try {
+      await this.requireSession(sessionId);
+      const library = await this.storage.getLibraryPersona(personaId);
+      if (!library) {
+        throw new Error('Library persona not found');
+      }
+
+      const persona = await this.storage.getPersona(sessionId) || {
+        id: this.createId('persona'),
         sessionId,
-        timestamp: new Date().toISOString()
+        name: 'Unknown',
+        location: 'Unknown',
+        gender: 'Unknown',
+        createdAt: new Date().toISOString()
       };
+      await this.storage.savePersona({ ...persona, libraryPersonaId: library.id, updatedAt: new Date().toISOString() });
+      await this.storage.updateSessionSummary(sessionId, { personaName: library.name });
 
-      session.tokenUsage.push(usageWithId);
-      session.updatedAt = new Date().toISOString();
+      console.log(`✅ Attached library persona ${library.id} to session ${sessionId}`);
+      return libraryPersonaView(persona, library);
+    } catch (error) {
+      console.error('❌ Failed to attach library persona:', error);
+      throw error;
+    }
+  }
 
-      await this.kv.set(`session:${sessionId}`, session);
-      await this.kv.set(`usage:${usageId}`, usageWithId);
-      
-      console.log(`✅ Added token usage: ${usageId}`);
+  // Back to the persona learned in the conversation
+  async detachPersona(sessionId: string) {
+    try {
+      const persona = await this.storage.getPersona(sessionId);
+      if (!persona?.libraryPersonaId) return persona;
+
+      const detached = { ...persona, updatedAt: new Date().toISOString() };
+      delete detached.libraryPersonaId;
+      await this.storage.savePersona(detached);
+      await this.storage.updateSessionSummary(sessionId, { personaName: pickProfile(detached).name || null });
+
+      console.log(`✅ Detached library persona ${persona.libraryPersonaId} from session ${sessionId}`);
+      return detached;
+    } catch (error) {
+      console.error('❌ Failed to detach library persona:', error);
+      throw error;
+    }
+  }
+
+  // Which persona drives the session's recommendations
+  async getActivePersona(sessionId: string) {
+    const library = await this.attachedLibraryPersona(await this.storage.getPersona(sessionId));
+    return { source: library ? 'library' as const : 'session' as const, libraryPersona: library };
+  }
+
+  private async attachedLibraryPersona(persona: any): Promise<LibraryPersona | null> {
+    return persona?.libraryPersonaId ? await this.storage.getLibraryPersona(persona.libraryPersonaId) : null;
+  }
+
+  // Token Usage Tracking
+  async addTokenUsage(sessionId: string, usage: any) {
+    try {
+      const usageWithId = await this.appendToSession(sessionId, 'tokenUsage', 'usage', usage);
+      console.log(`✅ Added token usage: ${usageWithId.id}`);
       return usageWithId;
     } catch (error) {
       console.error('❌ Failed to add token usage:', error);
@@ -205,8 +691,8 @@ export class DatabaseService {
 
   async getGlobalTokenUsage() {
     try {
-      const usage = await this.kv.get('global:token_usage');
-      return usage as any || { totalTokens: 0, totalCost: 0, lastUpdated: null };
+      const usage = await this.storage.getGlobalTokenUsage();
+      return usage || { totalTokens: 0, totalCost: 0, lastUpdated: null };
     } catch (error) {
       console.error('❌ Failed to get global token usage:', error);
       return { totalTokens: 0, totalCost: 0, lastUpdated: null };
@@ -215,7 +701,7 @@ export class DatabaseService {
 
   async updateGlobalTokenUsage(usage: any) {
     try {
-      await this.kv.set('global:token_usage', {
+      await this.storage.saveGlobalTokenUsage({
         ...usage,
         lastUpdated: new Date().toISOString()
       });
@@ -228,26 +714,8 @@ export class DatabaseService {
   // Entity Management
   async addEntity(sessionId: string, entity: any) {
     try {
-      const session = await this.getChatSession(sessionId);
-      if (!session) {
-        throw new Error('Session not found');
-      }
-
-      const entityId = `entity_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const entityWithId = {
-        ...entity,
-        id: entityId,
-        sessionId,
-        timestamp: new Date().toISOString()
-      };
-
-      session.entities.push(entityWithId);
-      session.updatedAt = new Date().toISOString();
-
-      await this.kv.set(`session:${sessionId}`, session);
-      await this.kv.set(`entity:${entityId}`, entityWithId);
-      
-      console.log(`✅ Added entity: ${entityId}`);
+      const entityWithId = await this.appendToSession(sessionId, 'entities', 'entity', entity);
+      console.log(`✅ Added entity: ${entityWithId.id}`);
       return entityWithId;
     } catch (error) {
       console.error('❌ Failed to add entity:', error);
@@ -265,30 +733,14 @@ export class DatabaseService {
     extractedFields: string[]
   ) {
     try {
-      const session = await this.getChatSession(sessionId);
-      if (!session) {
-        throw new Error('Session not found');
-      }
-
-      const extractionId = `extraction_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const extraction = {
-        id: extractionId,
-        sessionId,
+      const extraction = await this.appendToSession(sessionId, 'structuredExtractions', 'extraction', {
         query,
         parameters,
         confidence,
         reasoning,
-        extractedFields,
-        timestamp: new Date().toISOString()
-      };
-
-      session.structuredExtractions.push(extraction);
-      session.updatedAt = new Date().toISOString();
-
-      await this.kv.set(`session:${sessionId}`, session);
-      await this.kv.set(`extraction:${extractionId}`, extraction);
-      
-      console.log(`✅ Logged structured extraction: ${extractionId}`);
+        extractedFields
+      });
+      console.log(`✅ Logged structured extraction: ${extraction.id}`);
       return extraction;
     } catch (error) {
       console.error('❌ Failed to log structured extraction:', error);
@@ -296,29 +748,22 @@ export class DatabaseService {
     }
   }
 
+  async logIntentClassification(sessionId: string, classificationData: any) {
+    try {
+      const classification = await this.appendToSession(sessionId, 'intentClassifications', 'intent', classificationData);
+      console.log(`✅ Logged intent classification: ${classification.id}`);
+      return classification;
+    } catch (error) {
+      console.error('❌ Failed to log intent classification:', error);
+      throw error;
+    }
+  }
+
   // Personal Interest Management
   async addPersonalInterest(sessionId: string, interestData: any) {
     try {
-      const session = await this.getChatSession(sessionId);
-      if (!session) {
-        throw new Error('Session not found');
-      }
-
-      const interestId = `interest_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const interest = {
-        id: interestId,
-        sessionId,
-        ...interestData,
-        timestamp: new Date().toISOString()
-      };
-
-      session.personalInterests.push(interest);
-      session.updatedAt = new Date().toISOString();
-
-      await this.kv.set(`session:${sessionId}`, session);
-      await this.kv.set(`interest:${interestId}`, interest);
-      
-      console.log(`✅ Added personal interest: ${interestId}`);
+      const interest = await this.appendToSession(sessionId, 'personalInterests', 'interest', interestData);
+      console.log(`✅ Added personal interest: ${interest.id}`);
       return interest;
     } catch (error) {
       console.error('❌ Failed to add personal interest:', error);
@@ -338,33 +783,16 @@ export class DatabaseService {
     metadata?: any
   ) {
     try {
-      const session = await this.getChatSession(sessionId);
-      if (!session) {
-        throw new Error('Session not found');
-      }
-
-      const feedbackId = `feedback_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const feedbackData = {
-        id: feedbackId,
-        sessionId,
+      const feedbackData = await this.appendToSession(sessionId, 'recommendationFeedback', 'feedback', {
         recommendationId,
         recommendationType,
         recommendationName,
         rating,
         feedback,
         comment,
-        metadata,
-        timestamp: new Date().toISOString()
-      };
-
-      session.recommendationFeedback = session.recommendationFeedback || [];
-      session.recommendationFeedback.push(feedbackData);
-      session.updatedAt = new Date().toISOString();
-
-      await this.kv.set(`session:${sessionId}`, session);
-      await this.kv.set(`feedback:${feedbackId}`, feedbackData);
-      
-      console.log(`✅ Stored recommendation feedback: ${feedbackId}`);
+        metadata
+      });
+      console.log(`✅ Stored recommendation feedback: ${feedbackData.id}`);
       return feedbackData;
     } catch (error) {
       console.error('❌ Failed to store recommendation feedback:', error);
@@ -374,11 +802,7 @@ export class DatabaseService {
 
   async getRecommendationFeedback(sessionId: string) {
     try {
-      const session = await this.getChatSession(sessionId);
-      if (!session) {
-        return [];
-      }
-      return session.recommendationFeedback || [];
+      return await this.collectRecords(await this.memorySessionIds(sessionId), 'recommendationFeedback');
     } catch (error) {
       console.error('❌ Failed to get recommendation feedback:', error);
       return [];
@@ -394,30 +818,16 @@ export class DatabaseService {
     });
   }
 
-  // Message Management
-  async getMessages(sessionId: string) {
-    try {
-      const session = await this.getChatSession(sessionId);
-      return session?.messages || [];
-    } catch (error) {
-      console.error('❌ Failed to get messages:', error);
-      return [];
-    }
-  }
-
   async deleteMessage(messageId: string, sessionId: string) {
     try {
-      const session = await this.getChatSession(sessionId);
-      if (!session) {
-        throw new Error('Session not found');
-      }
-      
-      session.messages = session.messages.filter(m => m.id !== messageId);
-      session.updatedAt = new Date().toISOString();
-      
-      await this.kv.set(`session:${sessionId}`, session);
-      await this.kv.del(`message:${messageId}`);
-      
+      await this.requireSession(sessionId);
+      await this.storage.deleteMessage(sessionId, messageId);
+
+      const messages = await this.storage.getMessages(sessionId);
+      const lastMessage = messages[messages.length - 1];
+      await this.storage.updateSessionSummary(sessionId, {
+        lastMessagePreview: lastMessage ? previewFromMessage(lastMessage.content) : null
+      });
       console.log(`✅ Deleted message: ${messageId}`);
     } catch (error) {
       console.error('❌ Failed to delete message:', error);
@@ -426,28 +836,36 @@ export class DatabaseService {
   }
 
   // Session Management
-  async getSessionsWithEntityCounts() {
-    try {
-      const sessions = await this.kv.keys('session:*');
-      const sessionData = await Promise.all(
-        sessions.map(async (key) => {
-          const session = await this.kv.get(key);
-          return {
-            ...session,
-            entityCount: session?.entities?.length || 0
-          };
-        })
-      );
-      return sessionData.filter(Boolean);
+  async getSessionSummary(sessionId: string) {
+    try {
+      return await this.storage.getSessionSummary(sessionId);
     } catch (error) {
-      console.error('❌ Failed to get sessions with entity counts:', error);
-      return [];
+      console.error('❌ Failed to get session summary:', error);
+      return null;
+    }
+  }
+
+  async saveSessionSummary(sessionId: string, fields: SessionSummaryFields) {
+    try {
+      await this.storage.updateSessionSummary(sessionId, fields);
+    } catch (error) {
+      console.error('❌ Failed to save session summary:', error);
+      throw new Error('Failed to save session summary');
+    }
+  }
+
+  async getSessionSummaries(query: SessionListQuery) {
+    try {
+      return await this.storage.listSessionSummaries(query);
+    } catch (error) {
+      console.error('❌ Failed to list session summaries:', error);
+      return { sessions: [], nextCursor: null, total: 0 };
     }
   }
 
   async deleteChatSession(sessionId: string) {
     try {
-      await this.kv.del(`session:${sessionId}`);
+      await this.storage.deleteSession(sessionId);
       console.log(`✅ Deleted chat session: ${sessionId}`);
     } catch (error) {
       console.error('❌ Failed to delete chat session:', error);
@@ -462,8 +880,8 @@ export class DatabaseService {
   // API Call Management
   async getApiCalls(sessionId: string, limit: number = 10) {
     try {
-      const session = await this.getChatSession(sessionId);
-      return session?.apiCalls?.slice(-limit) || [];
+      const apiCalls = await this.storage.getRecords(sessionId, 'apiCalls');
+      return apiCalls.slice(-limit);
     } catch (error) {
       console.error('❌ Failed to get API calls:', error);
       return [];
@@ -472,27 +890,8 @@ export class DatabaseService {
 
   async logApiCall(sessionId: string, callData: any) {
     try {
-      const session = await this.getChatSession(sessionId);
-      if (!session) {
-        throw new Error('Session not found');
-      }
-
-      const callId = `api_call_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const apiCall = {
-        id: callId,
-        sessionId,
-        ...callData,
-        timestamp: new Date().toISOString()
-      };
-
-      session.apiCalls = session.apiCalls || [];
-      session.apiCalls.push(apiCall);
-      session.updatedAt = new Date().toISOString();
-
-      await this.kv.set(`session:${sessionId}`, session);
-      await this.kv.set(`api_call:${callId}`, apiCall);
-      
-      console.log(`✅ Logged API call: ${callId}`);
+      const apiCall = await this.appendToSession(sessionId, 'apiCalls', 'api_call', callData);
+      console.log(`✅ Logged API call: ${apiCall.id}`);
       return apiCall;
     } catch (error) {
       console.error('❌ Failed to log API call:', error);
@@ -503,26 +902,37 @@ export class DatabaseService {
   // Entity Management
   async getSessionEntities(sessionId: string) {
     try {
-      const session = await this.getChatSession(sessionId);
-      return session?.entities || [];
+      return await this.storage.getRecords(sessionId, 'entities');
     } catch (error) {
       console.error('❌ Failed to get session entities:', error);
       return [];
     }
   }
 
-  async storeEntitiesFromResponse(sessionId: string, entities: any[]) {
+  // Semantic search index
+  async getEmbeddings(sessionId: string) {
     try {
-      const session = await this.getChatSession(sessionId);
-      if (!session) {
-        throw new Error('Session not found');
-      }
+      return await this.storage.getEmbeddings(sessionId);
+    } catch (error) {
+      console.error('❌ Failed to get embeddings:', error);
+      return [];
+    }
+  }
 
-      session.entities = session.entities || [];
-      session.entities.push(...entities);
-      session.updatedAt = new Date().toISOString();
+  async saveEmbeddings(sessionId: string, records: EmbeddingRecord[]) {
+    try {
+      await this.storage.saveEmbeddings(sessionId, records);
+    } catch (error) {
+      // The index is rebuilt on the next search, so a failed write only costs a re-embed
+      console.error('❌ Failed to save embeddings:', error);
+    }
+  }
 
-      await this.kv.set(`session:${sessionId}`, session);
+  async storeEntitiesFromResponse(sessionId: string, entities: any[]) {
+    try {
+      await this.requireSession(sessionId);
+      // Raw Qloo entities are kept as returned, without our own id/timestamp stamps
+      await this.storage.appendRecords(sessionId, 'entities', entities);
       
       console.log(`✅ Stored ${entities.length} entities from response`);
       return entities;
@@ -556,8 +966,21 @@ export class DatabaseService {
 
   async getPersonalInterests(sessionId: string) {
     try {
-      const session = await this.getChatSession(sessionId);
-      return session?.personalInterests || [];
+      const library = await this.attachedLibraryPersona(await this.storage.getPersona(sessionId));
+      if (library) {
+        return library.interests.map((interest, index) => ({
+          ...interest,
+          id: `${library.id}:interest:${index}`,
+          sessionId,
+          source: 'library',
+          libraryPersonaId: library.id,
+          createdAt: library.updatedAt,
+          timestamp: library.updatedAt
+        }));
+      }
+
+      const interests = await this.collectRecords(await this.memorySessionIds(sessionId), 'personalInterests');
+      return dedupeByConfidence(interests, interestKey);
     } catch (error) {
       console.error('❌ Failed to get personal interests:', error);
       return [];
@@ -566,8 +989,20 @@ export class DatabaseService {
 
   async getAudienceCharacteristics(sessionId: string) {
     try {
-      const session = await this.getChatSession(sessionId);
-      return session?.audienceCharacteristics || [];
+      const library = await this.attachedLibraryPersona(await this.storage.getPersona(sessionId));
+      if (library) {
+        return library.audiences.map((audience, index) => ({
+          ...audience,
+          id: `${library.id}:audience:${index}`,
+          sessionId,
+          libraryPersonaId: library.id,
+          createdAt: library.updatedAt,
+          timestamp: library.updatedAt
+        }));
+      }
+
+      const audiences = await this.collectRecords(await this.memorySessionIds(sessionId), 'audienceCharacteristics');
+      return dedupeByConfidence(audiences, audienceKey);
     } catch (error) {
       console.error('❌ Failed to get audience characteristics:', error);
       return [];
@@ -576,17 +1011,12 @@ export class DatabaseService {
 
   async updatePersonaConfidence(sessionId: string, confidence: number) {
     try {
-      const session = await this.getChatSession(sessionId);
-      if (!session) {
-        throw new Error('Session not found');
+      const persona = await this.getPersona(sessionId);
+      if (!persona) {
+        throw new Error('Persona not found');
       }
 
-      session.persona = session.persona || {};
-      session.persona.confidence = confidence;
-      session.updatedAt = new Date().toISOString();
-
-      await this.kv.set(`session:${sessionId}`, session);
-      
+      await this.updatePersona(sessionId, { confidence });
       console.log(`✅ Updated persona confidence: ${confidence}`);
     } catch (error) {
       console.error('❌ Failed to update persona confidence:', error);
@@ -600,10 +1030,8 @@ export class DatabaseService {
 
   async updatePersonalInterestEntityId(interestId: string, entityId: string) {
     try {
-      const interest = await this.kv.get(`interest:${interestId}`);
+      const interest = await this.storage.updateRecord('personalInterests', interestId, { entityId });
       if (interest) {
-        interest.entityId = entityId;
-        await this.kv.set(`interest:${interestId}`, interest);
         console.log(`✅ Updated personal interest entity ID: ${interestId}`);
       }
     } catch (error) {
@@ -612,18 +1040,25 @@ export class DatabaseService {
     }
   }
 
+  async updatePersonalInterest(interestId: string, updates: Record<string, any>) {
+    try {
+      return await this.storage.updateRecord('personalInterests', interestId, updates);
+    } catch (error) {
+      console.error('❌ Failed to update personal interest:', error);
+      throw error;
+    }
+  }
+
   async updatePersonalInterestConfidence(sessionId: string, interestName: string, delta: number) {
     try {
-      const session = await this.getChatSession(sessionId);
-      if (!session) {
-        throw new Error('Session not found');
-      }
+      await this.requireSession(sessionId);
 
-      const interest = session.personalInterests?.find(i => i.name === interestName);
+      // The interest may have been learned in an earlier session of the same user
+      const interests = await this.getPersonalInterests(sessionId);
+      const interest = interests.find(i => i.name === interestName);
       if (interest) {
-        interest.confidence = Math.max(0, Math.min(1, (interest.confidence || 0) + delta));
-        session.updatedAt = new Date().toISOString();
-        await this.kv.set(`session:${sessionId}`, session);
+        const confidence = Math.max(0, Math.min(1, (interest.confidence || 0) + delta));
+        await this.storage.updateRecord('personalInterests', interest.id, { confidence });
         console.log(`✅ Updated personal interest confidence: ${interestName}`);
       }
     } catch (error) {
@@ -635,7 +1070,7 @@ export class DatabaseService {
   // Token Usage Management
   async saveTokenUsage(usage: any) {
     try {
-      await this.kv.set('global_token_usage', usage);
+      await this.storage.saveGlobalTokenUsage(usage);
       console.log('✅ Saved token usage');
     } catch (error) {
       console.error('❌ Failed to save token usage:', error);
@@ -646,26 +1081,8 @@ export class DatabaseService {
   // Audience Characteristic Management
   async addAudienceCharacteristic(sessionId: string, characteristicData: any) {
     try {
-      const session = await this.getChatSession(sessionId);
-      if (!session) {
-        throw new Error('Session not found');
-      }
-
-      const characteristicId = `characteristic_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const characteristic = {
-        id: characteristicId,
-        sessionId,
-        ...characteristicData,
-        timestamp: new Date().toISOString()
-      };
-
-      session.audienceCharacteristics.push(characteristic);
-      session.updatedAt = new Date().toISOString();
-
-      await this.kv.set(`session:${sessionId}`, session);
-      await this.kv.set(`characteristic:${characteristicId}`, characteristic);
-      
-      console.log(`✅ Added audience characteristic: ${characteristicId}`);
+      const characteristic = await this.appendToSession(sessionId, 'audienceCharacteristics', 'characteristic', characteristicData);
+      console.log(`✅ Added audience characteristic: ${characteristic.id}`);
       return characteristic;
     } catch (error) {
       console.error('❌ Failed to add audience characteristic:', error);
@@ -676,26 +1093,8 @@ export class DatabaseService {
   // Qloo Response Management
   async addQlooResponse(sessionId: string, response: any) {
     try {
-      const session = await this.getChatSession(sessionId);
-      if (!session) {
-        throw new Error('Session not found');
-      }
-
-      const responseId = `qloo_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const responseWithId = {
-        ...response,
-        id: responseId,
-        sessionId,
-        timestamp: new Date().toISOString()
-      };
-
-      session.qlooResponses.push(responseWithId);
-      session.updatedAt = new Date().toISOString();
-
-      await this.kv.set(`session:${sessionId}`, session);
-      await this.kv.set(`qloo:${responseId}`, responseWithId);
-      
-      console.log(`✅ Added Qloo response: ${responseId}`);
+      const responseWithId = await this.appendToSession(sessionId, 'qlooResponses', 'qloo', response);
+      console.log(`✅ Added Qloo response: ${responseWithId.id}`);
       return responseWithId;
     } catch (error) {
       console.error('❌ Failed to add Qloo response:', error);
@@ -703,10 +1102,19 @@ export class DatabaseService {
     }
   }
 
+  // Storage Migration
+  async migrateStorage() {
+    if (!this.storage.migrateLegacySessions) {
+      console.log(`⚠️ ${this.storage.name} storage has no legacy layout to migrate`);
+      return { migrated: 0, total: 0 };
+    }
+    return await this.storage.migrateLegacySessions();
+  }
+
   // Cleanup
   async cleanup() {
     try {
-      // Close any open connections if needed
+      await this.storage.disconnect?.();
       console.log('✅ DatabaseService cleanup completed');
     } catch (error) {
       console.error('❌ Failed to cleanup database service:', error);
@@ -722,4 +1130,4 @@ export function getDatabaseService(): DatabaseService {
     databaseServiceInstance = new DatabaseService();
   }
   return databaseServiceInstance;
-} 
\ No newline at end of file
+}
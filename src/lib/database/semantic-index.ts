@@ -0,0 +1,175 @@
+import { createHash } from 'crypto';
+import { EmbeddingModel, cosineSimilarity, embedMany } from 'ai';
+import { getDatabaseService } from './database';
+import { EmbeddingRecord } from './storage';
+import { describeEmbeddingModel, getEmbeddingModel, getLocalEmbeddingModel } from '../llm/embeddings';
+
+// Ranking blends how well a document matches with how recent it is within its kind
+const SIMILARITY_WEIGHT = 0.8;
+const RECENCY_WEIGHT = 0.2;
+// Similarity scales differ per model, so besides a floor keep only matches close to the best one
+const MIN_SIMILARITY = 0.1;
+const RELATIVE_CUTOFF = 0.6;
+const MAX_DOCUMENT_CHARS = 2000;
+const SNIPPET_LENGTH = 200;
+
+export type SemanticDocumentKind = EmbeddingRecord['kind'];
+
+export interface SemanticMatch {
+  kind: SemanticDocumentKind;
+  sourceId: string;
+  source: any; // The stored message or entity
+  similarity: number;
+  score: number;
+}
+
+export interface SemanticSearchOptions {
+  limit?: number;
+  kinds?: SemanticDocumentKind[];
+  excludeText?: string; // Usually the question itself, which is already stored as the latest message
+}
+
+interface IndexedDocument {
+  id: string;
+  kind: SemanticDocumentKind;
+  sourceId: string;
+  text: string;
+  recency: number; // 0..1, 1 = newest of its kind
+  source: any;
+}
+
+function contentHash(text: string) {
+  return createHash('sha256').update(text).digest('hex').slice(0, 16);
+}
+
+// Everything that says what an entity is: name, kind, description and tags
+function entityText(entity: any): string {
+  const kind = String(entity.subtype || entity.type || '').split(':').pop();
+  const description = entity.properties?.description || entity.description || '';
+  const tags = (entity.tags || []).map((tag: any) => tag.name).filter(Boolean).join(', ');
+  return [entity.name, kind, description, tags].filter(Boolean).join('. ');
+}
+
+function entitySourceId(entity: any): string {
+  return String(entity.entity_id || entity.qlooId || entity.id || entity.name);
+}
+
+// Embedding index over one session's messages and stored entities. Vectors are persisted through
+// DatabaseService and only recomputed when the text or the embedding model changes.
+export class SemanticIndex {
+  constructor(private sessionId: string) {}
+
+  async search(query: string, options: SemanticSearchOptions = {}): Promise<SemanticMatch[]> {
+    const { limit = 5, kinds = ['message', 'entity'], excludeText } = options;
+    if (!query.trim()) return [];
+
+    const excluded = excludeText?.trim().toLowerCase();
+    const documents = (await this.collectDocuments())
+      .filter(document => kinds.includes(document.kind))
+      .filter(document => !(document.kind === 'message' && excluded && document.text.trim().toLowerCase() === excluded));
+    if (documents.length === 0) return [];
+
+    try {
+      return await this.rank(query, documents, getEmbeddingModel(), limit);
+    } catch (error) {
+      console.log('⚠️ Embedding provider failed, falling back to local embeddings:', error instanceof Error ? error.message : error);
+      return this.rank(query, documents, getLocalEmbeddingModel(), limit);
+    }
+  }
+
+  private async collectDocuments(): Promise<IndexedDocument[]> {
+    const databaseService = getDatabaseService();
+    const [messages, entities] = await Promise.all([
+      databaseService.getMessages(this.sessionId),
+      databaseService.getSessionEntities(this.sessionId)
+    ]);
+
+    const messageDocuments = messages
+      .filter((message: any) => message.id && message.content)
+      .map((message: any, index: number, all: any[]) => ({
+        id: `message:${message.id}`,
+        kind: 'message' as const,
+        sourceId: message.id,
+        text: String(message.content).slice(0, MAX_DOCUMENT_CHARS),
+        recency: (index + 1) / all.length,
+        source: message
+      }));
+
+    // The same entity can be stored once per response that returned it; the latest copy wins
+    const latestEntities = new Map<string, any>();
+    entities.filter((entity: any) => entity?.name).forEach((entity: any) => {
+      latestEntities.delete(entitySourceId(entity));
+      latestEntities.set(entitySourceId(entity), entity);
+    });
+    const entityDocuments = Array.from(latestEntities.entries()).map(([sourceId, entity], index, all) => ({
+      id: `entity:${sourceId}`,
+      kind: 'entity' as const,
+      sourceId,
+      text: entityText(entity).slice(0, MAX_DOCUMENT_CHARS),
+      recency: (index + 1) / all.length,
+      source: entity
+    }));
+
+    return [...messageDocuments, ...entityDocuments];
+  }
+
+  private async rank(query: string, documents: IndexedDocument[], model: EmbeddingModel<string>, limit: number): Promise<SemanticMatch[]> {
+    const databaseService = getDatabaseService();
+    const modelName = describeEmbeddingModel(model);
+    const stored = new Map((await databaseService.getEmbeddings(this.sessionId)).map(record => [record.id, record]));
+
+    const records = documents.map(document => {
+      const hash = contentHash(document.text);
+      const existing = stored.get(document.id);
+      return existing && existing.model === modelName && existing.contentHash === hash
+        ? existing
+        : { id: document.id, kind: document.kind, sourceId: document.sourceId, model: modelName, contentHash: hash, vector: [] as number[] };
+    });
+    const missing = records.filter(record => record.vector.length === 0);
+
+    // The query rides along with the documents that still need vectors
+    const { embeddings } = await embedMany({
+      model,
+      values: [query, ...missing.map(record => documents[records.indexOf(record)].text)]
+    });
+    missing.forEach((record, index) => {
+      record.vector = embeddings[index + 1];
+    });
+    if (missing.length > 0) {
+      await databaseService.saveEmbeddings(this.sessionId, missing);
+      console.log(`✅ Embedded ${missing.length} documents for session ${this.sessionId} with ${modelName}`);
+    }
+
+    const queryVector = embeddings[0];
+    const matches = documents
+      .map((document, index) => {
+        const similarity = cosineSimilarity(queryVector, records[index].vector);
+        return {
+          kind: document.kind,
+          sourceId: document.sourceId,
+          source: document.source,
+          similarity,
+          score: similarity * SIMILARITY_WEIGHT + document.recency * RECENCY_WEIGHT
+        };
+      });
+    const best = Math.max(...matches.map(match => match.similarity));
+
+    return matches
+      .filter(match => match.similarity >= Math.max(MIN_SIMILARITY, best * RELATIVE_CUTOFF))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
+
+// The sentence of a message closest to the query, so citations quote what actually matched
+export function extractSnippet(query: string, text: string, length: number = SNIPPET_LENGTH): string {
+  const sentences = text.split(/(?<=[.!?])\s+|\n+/).map(sentence => sentence.trim()).filter(Boolean);
+  if (sentences.length === 0) return '';
+
+  const localModel = getLocalEmbeddingModel();
+  const queryVector = localModel.embedText(query);
+  const scored = sentences.map(sentence => ({ sentence, similarity: cosineSimilarity(queryVector, localModel.embedText(sentence)) }));
+  const best = scored.reduce((bestSoFar, candidate) => candidate.similarity > bestSoFar.similarity ? candidate : bestSoFar);
+  const singleLine = best.sentence.replace(/\s+/g, ' ');
+  return singleLine.length > length ? `${singleLine.slice(0, length - 1)}…` : singleLine;
+}
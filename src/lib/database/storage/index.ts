@@ -0,0 +1,19 @@
+import { config } from '../../config';
+import { StorageAdapter, StorageBackend } from './types';
+import { KvStorageAdapter } from './kv-adapter';
+import { PrismaStorageAdapter } from './prisma-adapter';
+import { InMemoryStorageAdapter } from './memory-adapter';
+
+export * from './types';
+export { KvStorageAdapter, PrismaStorageAdapter, InMemoryStorageAdapter };
+
+export function createStorageAdapter(backend: StorageBackend = config.storageBackend): StorageAdapter {
+  switch (backend) {
+    case 'prisma':
+      return new PrismaStorageAdapter();
+    case 'memory':
+      return new InMemoryStorageAdapter();
+    default:
+      return new KvStorageAdapter();
+  }
+}
@@ -0,0 +1,684 @@
+import { kv } from '@vercel/kv';
+import {
+  StorageAdapter,
+  StoredSession,
+  StoredUser,
+  LibraryPersona,
+  SessionCollection,
+  SessionSummary,
+  SessionSummaryFields,
+  SessionListQuery,
+  SessionListPage,
+  EmbeddingRecord,
+  SESSION_COLLECTIONS,
+  encodeCursor,
+  decodeCursor,
+  titleFromMessage,
+  previewFromMessage
+} from './types';
+
+// Vercel KV / Redis, one key per session collection so writes never rewrite the whole session:
+//
+//   session:<id>                 { v, meta }       session fields, updated with compare-and-set on v
+//   session:<id>:messages        list              messages in order
+//   session:<id>:entities        hash qlooId ->    { v, at, record }, repeats of an entity overwrite it
+//   session:<id>:interests       hash id ->        { v, at, record }, updated in place
+//   session:<id>:audiences       hash id ->        { v, at, record }, updated in place
+//   session:<id>:api_calls       stream            capped raw API calls
+//   session:<id>:qloo_responses  stream            capped raw Qloo responses
+//   session:<id>:<collection>    list              everything else (token usage, extractions, ...)
+//   session:<id>:persona         persona
+//   session:<id>:embeddings      hash id ->        embedding record for semantic search
+//   sessions:by_updated          sorted set        session id scored by last update (ms)
+//   sessions:by_activity         sorted set        session id scored by message count, then last update
+//   sessions:titles / :previews / :persona_names   hash session id -> text for the session list
+//   sessions:summaries / :summary_counts            hash session id -> rolling summary, messages it covers
+//   record:<id>                  session id        lookup for hash records updated by id
+//   user:<id>                    { v, meta }       user and profile, updated with compare-and-set on v
+//   sessions:users               hash session id -> owning user id
+//   user:<id>:sessions:by_*      sorted set        the user's own copy of each session index
+//   personas:library             hash id ->        library persona
+//   trace:<messageId>            agent trace for one message
+//
+// Sessions written by the old layout (one blob holding everything) are migrated on first touch;
+// they only show up in session listings once migrateLegacySessions() (POST /api/sessions/migrate) has run.
+
+type CollectionLayout =
+  | { kind: 'list'; key: string }
+  | { kind: 'hash'; key: string; field: (record: Record<string, any>) => string }
+  | { kind: 'stream'; key: string; maxLength: number };
+
+const COLLECTION_LAYOUT: Record<SessionCollection, CollectionLayout> = {
+  apiCalls: { kind: 'stream', key: 'api_calls', maxLength: 500 },
+  qlooResponses: { kind: 'stream', key: 'qloo_responses', maxLength: 100 },
+  entities: { kind: 'hash', key: 'entities', field: record => String(record.entity_id || record.qlooId || record.id || record.name) },
+  personalInterests: { kind: 'hash', key: 'interests', field: record => record.id },
+  audienceCharacteristics: { kind: 'hash', key: 'audiences', field: record => record.id },
+  tokenUsage: { kind: 'list', key: 'token_usage' },
+  structuredExtractions: { kind: 'list', key: 'extractions' },
+  intentClassifications: { kind: 'list', key: 'intents' },
+  recommendationFeedback: { kind: 'list', key: 'feedback' }
+};
+
+// Key prefixes of the per-record copies the old layout kept next to each blob
+const LEGACY_RECORD_PREFIXES: Record<SessionCollection, string> = {
+  apiCalls: 'api_call',
+  tokenUsage: 'usage',
+  entities: 'entity',
+  structuredExtractions: 'extraction',
+  intentClassifications: 'intent',
+  personalInterests: 'interest',
+  audienceCharacteristics: 'characteristic',
+  qlooResponses: 'qloo',
+  recommendationFeedback: 'feedback'
+};
+
+const SESSION_INDEX_KEY = 'sessions:by_updated';
+const ACTIVITY_INDEX_KEY = 'sessions:by_activity';
+const SESSION_INDEXES = [SESSION_INDEX_KEY, ACTIVITY_INDEX_KEY];
+const SESSION_OWNERS_KEY = 'sessions:users';
+const PERSONA_LIBRARY_KEY = 'personas:library';
+const SUMMARY_FIELD_KEYS: Record<keyof SessionSummaryFields, string> = {
+  title: 'sessions:titles',
+  lastMessagePreview: 'sessions:previews',
+  personaName: 'sessions:persona_names',
+  summary: 'sessions:summaries',
+  summaryMessageCount: 'sessions:summary_counts'
+};
+// Extra index rows fetched past a cursor to step over entries sharing its score
+const CURSOR_TIE_SLACK = 50;
+const GLOBAL_TOKEN_USAGE_KEY = 'global:token_usage';
+const MAX_CAS_ATTEMPTS = 5;
+const MIGRATION_LOCK_SECONDS = 60;
+
+// Write ARGV[2] only if the stored document's version still equals ARGV[1] (field ARGV[3] for hashes)
+const COMPARE_AND_SET_SCRIPT = `
+local current
+if ARGV[3] then current = redis.call('HGET', KEYS[1], ARGV[3]) else current = redis.call('GET', KEYS[1]) end
+local version = 0
+if current then
+  local ok, doc = pcall(cjson.decode, current)
+  if ok and type(doc) == 'table' and doc.v then version = tonumber(doc.v) end
+end
+if version ~= tonumber(ARGV[1]) then return 0 end
+if ARGV[3] then redis.call('HSET', KEYS[1], ARGV[3], ARGV[2]) else redis.call('SET', KEYS[1], ARGV[2]) end
+return 1
+`;
+
+// Remove the first list element whose JSON id is ARGV[1], atomically (indexes shift under concurrent writers)
+const REMOVE_BY_ID_SCRIPT = `
+local items = redis.call('LRANGE', KEYS[1], 0, -1)
+for i, item in ipairs(items) do
+  local ok, doc = pcall(cjson.decode, item)
+  if ok and type(doc) == 'table' and doc.id == ARGV[1] then
+    redis.call('LSET', KEYS[1], i - 1, '__deleted__')
+    redis.call('LREM', KEYS[1], 1, '__deleted__')
+    return 1
+  end
+end
+return 0
+`;
+
+interface VersionedDoc<T> {
+  v: number;
+  [field: string]: any;
+  meta?: T;
+  record?: T;
+}
+
+const metaKey = (sessionId: string) => `session:${sessionId}`;
+const messagesKey = (sessionId: string) => `session:${sessionId}:messages`;
+const personaKey = (sessionId: string) => `session:${sessionId}:persona`;
+const embeddingsKey = (sessionId: string) => `session:${sessionId}:embeddings`;
+const userKey = (userId: string) => `user:${userId}`;
+const userIndexKey = (userId: string, index: string) => `user:${userId}:${index}`;
+const collectionKey = (sessionId: string, collection: SessionCollection) => `session:${sessionId}:${COLLECTION_LAYOUT[collection].key}`;
+
+// Message count dominates; seconds since epoch break ties so busier-and-newer chats come first
+function activityScore(messageCount: number, at: number = Date.now()) {
+  return messageCount * 1e10 + Math.floor(at / 1000);
+}
+
+function isLegacySession(doc: any): boolean {
+  return !!doc && Array.isArray(doc.messages);
+}
+
+// Session fields stored in the meta document (collections live under their own keys)
+function pickSessionFields(session: Record<string, any>) {
+  const fields = { ...session };
+  delete fields.messages;
+  delete fields.updatedAt;
+  SESSION_COLLECTIONS.forEach(collection => delete fields[collection]);
+  return fields;
+}
+
+function unwrapHash(values: Record<string, any> | null): any[] {
+  return Object.values(values || {})
+    .sort((a: any, b: any) => (a.at || 0) - (b.at || 0))
+    .map((doc: any) => doc.record);
+}
+
+function unwrapStream(entries: Record<string, Record<string, unknown>> | null): any[] {
+  return Object.values(entries || {}).map(entry => entry.record);
+}
+
+export class KvStorageAdapter implements StorageAdapter {
+  readonly name = 'kv' as const;
+  private kv: typeof kv;
+  private migratedSessions = new Set<string>();
+
+  constructor(client: typeof kv = kv) {
+    this.kv = client;
+  }
+
+  // Optimistic concurrency: re-read and retry when someone else wrote in between
+  private async compareAndSet<T>(
+    key: string,
+    field: string | null,
+    update: (current: VersionedDoc<T> | null) => Omit<VersionedDoc<T>, 'v'> | null
+  ): Promise<VersionedDoc<T> | null> {
+    for (let attempt = 0; attempt < MAX_CAS_ATTEMPTS; attempt++) {
+      const current = (field ? await this.kv.hget(key, field) : await this.kv.get(key)) as VersionedDoc<T> | null;
+      const next = update(current);
+      if (!next) return null;
+
+      const expected = current?.v || 0;
+      const doc = { ...next, v: expected + 1 } as VersionedDoc<T>;
+      const args = [String(expected), JSON.stringify(doc), ...(field ? [field] : [])];
+      if ((await this.kv.eval(COMPARE_AND_SET_SCRIPT, [key], args)) === 1) {
+        return doc;
+      }
+      console.log(`⚠️ Concurrent write on ${key}${field ? `#${field}` : ''}, retrying (${attempt + 1}/${MAX_CAS_ATTEMPTS})`);
+    }
+    throw new Error(`Gave up updating ${key} after ${MAX_CAS_ATTEMPTS} conflicting writes`);
+  }
+
+  private async touch(sessionId: string, at: number = Date.now()) {
+    await this.indexSession(SESSION_INDEX_KEY, sessionId, at);
+  }
+
+  // Score a session in a global index and in its owner's copy of that index
+  private async indexSession(index: string, sessionId: string, score: number, options?: { gt: true }) {
+    const owner = await this.kv.hget<string>(SESSION_OWNERS_KEY, sessionId);
+    const keys = [index, ...(owner ? [userIndexKey(owner, index)] : [])];
+    await Promise.all(keys.map(key => options
+      ? this.kv.zadd(key, options, { score, member: sessionId })
+      : this.kv.zadd(key, { score, member: sessionId })
+    ));
+  }
+
+  // Move a session's entries from its previous owner's indexes to the new owner's
+  private async assignOwner(sessionId: string, userId: string | null) {
+    const previous = await this.kv.hget<string>(SESSION_OWNERS_KEY, sessionId);
+    if ((previous || null) === userId) return;
+
+    const scores = await Promise.all(SESSION_INDEXES.map(index => this.kv.zscore(index, sessionId)));
+    if (previous) {
+      await Promise.all(SESSION_INDEXES.map(index => this.kv.zrem(userIndexKey(previous, index), sessionId)));
+    }
+    if (userId) {
+      await this.kv.hset(SESSION_OWNERS_KEY, { [sessionId]: userId });
+      await Promise.all(SESSION_INDEXES.map((index, i) => scores[i] !== null
+        ? this.kv.zadd(userIndexKey(userId, index), { score: Number(scores[i]), member: sessionId })
+        : null
+      ));
+    } else {
+      await this.kv.hdel(SESSION_OWNERS_KEY, sessionId);
+    }
+  }
+
+  // Resolve the session, upgrading a legacy blob first; false when it doesn't exist
+  private async ensureMigrated(sessionId: string, useCache: boolean = true): Promise<boolean> {
+    if (useCache && this.migratedSessions.has(sessionId)) return true;
+
+    const doc = await this.kv.get(metaKey(sessionId));
+    if (!doc) {
+      this.migratedSessions.delete(sessionId);
+      return false;
+    }
+    if (isLegacySession(doc)) {
+      await this.migrateLegacySession(doc as StoredSession);
+    }
+    this.migratedSessions.add(sessionId);
+    return true;
+  }
+
+  private async requireSession(sessionId: string) {
+    if (!(await this.ensureMigrated(sessionId))) {
+      throw new Error('Session not found');
+    }
+  }
+
+  private async migrateLegacySession(blob: StoredSession) {
+    const sessionId = blob.id;
+    const lockKey = `migrate:${sessionId}`;
+
+    if (!(await this.kv.set(lockKey, 1, { nx: true, ex: MIGRATION_LOCK_SECONDS }))) {
+      // Another request is migrating this session; wait for it to finish
+      for (let attempt = 0; attempt < 25; attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        if (!isLegacySession(await this.kv.get(metaKey(sessionId)))) return;
+      }
+      throw new Error(`Timed out waiting for migration of session ${sessionId}`);
+    }
+
+    try {
+      console.log(`🔄 Migrating legacy KV session: ${sessionId}`);
+
+      // Start from empty keys so a crashed earlier attempt can't leave duplicates
+      await this.kv.del(messagesKey(sessionId), ...SESSION_COLLECTIONS.map(collection => collectionKey(sessionId, collection)));
+
+      if (blob.messages.length > 0) {
+        await this.kv.rpush(messagesKey(sessionId), ...blob.messages);
+      }
+      for (const collection of SESSION_COLLECTIONS) {
+        const layout = COLLECTION_LAYOUT[collection];
+        const records: any[] = blob[collection] || [];
+        const kept = layout.kind === 'stream' ? records.slice(-layout.maxLength) : records;
+        await this.writeRecords(sessionId, collection, kept);
+      }
+
+      // Drop the per-record copies the old layout wrote next to the blob
+      const legacyKeys = [
+        ...blob.messages.filter(m => m.id).map(m => `message:${m.id}`),
+        ...SESSION_COLLECTIONS.flatMap(collection =>
+          (blob[collection] || []).filter((record: any) => record?.id).map((record: any) => `${LEGACY_RECORD_PREFIXES[collection]}:${record.id}`)
+        )
+      ];
+      for (let i = 0; i < legacyKeys.length; i += 100) {
+        await this.kv.del(...legacyKeys.slice(i, i + 100));
+      }
+
+      // Session list index
+      const updatedAt = Date.parse(blob.updatedAt) || Date.now();
+      const firstUserMessage = blob.messages.find(m => m.role === 'user');
+      const lastMessage = blob.messages[blob.messages.length - 1];
+      const persona = await this.kv.get<Record<string, any>>(personaKey(sessionId));
+      await this.touch(sessionId, updatedAt);
+      await this.indexSession(ACTIVITY_INDEX_KEY, sessionId, activityScore(blob.messages.length, updatedAt));
+      await this.updateSessionSummary(
+        sessionId,
+        {
+          lastMessagePreview: lastMessage ? previewFromMessage(lastMessage.content) : null,
+          personaName: persona?.name && persona.name !== 'Unknown' ? persona.name : null
+        },
+        { title: blob.title || (firstUserMessage ? titleFromMessage(firstUserMessage.content) : null) }
+      );
+
+      await this.kv.set(metaKey(sessionId), { v: 1, meta: pickSessionFields(blob) });
+      console.log(`✅ Migrated legacy KV session: ${sessionId} (${blob.messages.length} messages)`);
+    } finally {
+      await this.kv.del(lockKey);
+    }
+  }
+
+  private async writeRecords(sessionId: string, collection: SessionCollection, records: Array<Record<string, any>>) {
+    if (records.length === 0) return;
+    const layout = COLLECTION_LAYOUT[collection];
+    const key = collectionKey(sessionId, collection);
+
+    if (layout.kind === 'list') {
+      await this.kv.rpush(key, ...records);
+    } else if (layout.kind === 'hash') {
+      const now = Date.now();
+      const fields = Object.fromEntries(records.map((record, index) => [layout.field(record), { v: 1, at: now + index, record }]));
+      await this.kv.hset(key, fields);
+
+      // Records updated by id need a way back to their session
+      if (collection !== 'entities') {
+        await Promise.all(records.map(record => this.kv.set(`record:${record.id}`, sessionId)));
+      }
+    } else {
+      const pipeline = this.kv.pipeline();
+      records.forEach(record => pipeline.xadd(key, '*', { record }, {
+        trim: { type: 'MAXLEN', threshold: layout.maxLength, comparison: '~' }
+      }));
+      await pipeline.exec();
+    }
+  }
+
+  private async readRecords(sessionId: string, collection: SessionCollection): Promise<any[]> {
+    const layout = COLLECTION_LAYOUT[collection];
+    const key = collectionKey(sessionId, collection);
+
+    if (layout.kind === 'list') {
+      return (await this.kv.lrange(key, 0, -1)) || [];
+    }
+    if (layout.kind === 'hash') {
+      return unwrapHash(await this.kv.hgetall(key));
+    }
+    return unwrapStream(await this.kv.xrange(key, '-', '+'));
+  }
+
+  async createSession(session: StoredSession) {
+    const createdAt = Date.parse(session.updatedAt) || Date.now();
+    await this.kv.set(metaKey(session.id), { v: 1, meta: pickSessionFields(session) });
+    if (session.userId) {
+      await this.kv.hset(SESSION_OWNERS_KEY, { [session.id]: session.userId });
+    }
+    await this.touch(session.id, createdAt);
+    await this.indexSession(ACTIVITY_INDEX_KEY, session.id, activityScore(0, createdAt));
+    this.migratedSessions.add(session.id);
+  }
+
+  async getSession(sessionId: string) {
+    if (!(await this.ensureMigrated(sessionId, false))) return null;
+
+    const [doc, messages, updatedAt, title, ...collections] = await Promise.all([
+      this.kv.get<VersionedDoc<Record<string, any>>>(metaKey(sessionId)),
+      this.kv.lrange(messagesKey(sessionId), 0, -1),
+      this.kv.zscore(SESSION_INDEX_KEY, sessionId),
+      this.kv.hget<string>(SUMMARY_FIELD_KEYS.title, sessionId),
+      ...SESSION_COLLECTIONS.map(collection => this.readRecords(sessionId, collection))
+    ]);
+    if (!doc?.meta) return null;
+
+    const session: StoredSession = {
+      ...(doc.meta as StoredSession),
+      title: title || doc.meta.title || null,
+      updatedAt: updatedAt ? new Date(Number(updatedAt)).toISOString() : doc.meta.createdAt,
+      messages: messages || []
+    };
+    SESSION_COLLECTIONS.forEach((collection, index) => {
+      session[collection] = collections[index];
+    });
+    return session;
+  }
+
+  async hasSession(sessionId: string) {
+    return this.ensureMigrated(sessionId, false);
+  }
+
+  async updateSession(sessionId: string, updates: Record<string, any>) {
+    if (!(await this.ensureMigrated(sessionId))) return null;
+
+    const written = await this.compareAndSet<Record<string, any>>(metaKey(sessionId), null, current =>
+      current?.meta ? { meta: { ...current.meta, ...pickSessionFields(updates) } } : null
+    );
+    if (!written) return null;
+
+    if ('userId' in updates) {
+      await this.assignOwner(sessionId, updates.userId || null);
+    }
+    await this.touch(sessionId);
+    return this.getSession(sessionId);
+  }
+
+  async deleteSession(sessionId: string) {
+    await this.ensureMigrated(sessionId);
+
+    const [messages, interestIds, audienceIds] = await Promise.all([
+      this.kv.lrange(messagesKey(sessionId), 0, -1),
+      this.kv.hkeys(collectionKey(sessionId, 'personalInterests')),
+      this.kv.hkeys(collectionKey(sessionId, 'audienceCharacteristics'))
+    ]);
+
+    const keys = [
+      metaKey(sessionId),
+      messagesKey(sessionId),
+      personaKey(sessionId),
+      embeddingsKey(sessionId),
+      ...SESSION_COLLECTIONS.map(collection => collectionKey(sessionId, collection)),
+      ...(messages || []).map((message: any) => `trace:${message.id}`),
+      ...[...(interestIds || []), ...(audienceIds || [])].map(id => `record:${id}`)
+    ];
+    for (let i = 0; i < keys.length; i += 100) {
+      await this.kv.del(...keys.slice(i, i + 100));
+    }
+    await this.assignOwner(sessionId, null);
+    await Promise.all(SESSION_INDEXES.map(index => this.kv.zrem(index, sessionId)));
+    await Promise.all(Object.values(SUMMARY_FIELD_KEYS).map(key => this.kv.hdel(key, sessionId)));
+    this.migratedSessions.delete(sessionId);
+  }
+
+  async createUser(user: StoredUser) {
+    await this.kv.set(userKey(user.id), { v: 1, meta: user });
+  }
+
+  async getUser(userId: string) {
+    const doc = await this.kv.get<VersionedDoc<StoredUser>>(userKey(userId));
+    return doc?.meta || null;
+  }
+
+  async updateUser(userId: string, updates: Partial<StoredUser>) {
+    const written = await this.compareAndSet<StoredUser>(userKey(userId), null, current =>
+      current?.meta ? { meta: { ...current.meta, ...updates, updatedAt: new Date().toISOString() } } : null
+    );
+    return written?.meta || null;
+  }
+
+  async updateUserIf(userId: string, condition: (user: StoredUser) => boolean, updates: Partial<StoredUser>) {
+    let before = null as StoredUser | null;
+    const written = await this.compareAndSet<StoredUser>(userKey(userId), null, current => {
+      // Re-evaluated on every CAS attempt, so the result reflects the version actually replaced
+      before = current?.meta && condition(current.meta) ? current.meta : null;
+      return before ? { meta: { ...before, ...updates, updatedAt: new Date().toISOString() } } : null;
+    });
+    return written ? before : null;
+  }
+
+  async updateSessionSummary(sessionId: string, fields: SessionSummaryFields, defaults: SessionSummaryFields = {}) {
+    await Promise.all([
+      ...Object.entries(fields).map(([field, value]) => {
+        const key = SUMMARY_FIELD_KEYS[field as keyof SessionSummaryFields];
+        return value ? this.kv.hset(key, { [sessionId]: value }) : this.kv.hdel(key, sessionId);
+      }),
+      ...Object.entries(defaults)
+        .filter(([, value]) => value)
+        .map(([field, value]) => this.kv.hsetnx(SUMMARY_FIELD_KEYS[field as keyof SessionSummaryFields], sessionId, value))
+    ]);
+  }
+
+  async getSessionSummary(sessionId: string) {
+    if (!(await this.ensureMigrated(sessionId))) return null;
+    const [summary] = await this.readSummaries([sessionId]);
+    return summary;
+  }
+
+  async listSessionSummaries({ limit, cursor, sort = 'recent', search, userId }: SessionListQuery): Promise<SessionListPage> {
+    const globalIndex = sort === 'activity' ? ACTIVITY_INDEX_KEY : SESSION_INDEX_KEY;
+    const indexKey = userId ? userIndexKey(userId, globalIndex) : globalIndex;
+    const after = decodeCursor<{ score: number; id: string }>(cursor);
+    const term = search?.trim().toLowerCase();
+    let ranked: Array<{ id: string; score: number }>;
+    let total: number;
+
+    if (term) {
+      // Titles are short; scanning them beats keeping a separate search structure in KV
+      const titles = (await this.kv.hgetall<Record<string, string>>(SUMMARY_FIELD_KEYS.title)) || {};
+      const matches = Object.entries(titles)
+        .filter(([, title]) => String(title).toLowerCase().includes(term))
+        .map(([id]) => id);
+      const scores = matches.length > 0 ? (await this.kv.zmscore(indexKey, matches)) || [] : [];
+      // Sessions missing from the (user's) index aren't part of this listing
+      ranked = matches
+        .map((id, index) => ({ id, score: scores[index] }))
+        .filter(entry => entry.score !== null && entry.score !== undefined)
+        .map(entry => ({ id: entry.id, score: Number(entry.score) }))
+        .sort((a, b) => b.score - a.score || b.id.localeCompare(a.id));
+      total = ranked.length;
+    } else {
+      const rows = await this.kv.zrange<Array<string | number>>(indexKey, after ? after.score : '+inf', '-inf', {
+        byScore: true,
+        rev: true,
+        withScores: true,
+        offset: 0,
+        count: limit + 1 + CURSOR_TIE_SLACK
+      });
+      ranked = [];
+      for (let i = 0; i < rows.length; i += 2) {
+        ranked.push({ id: String(rows[i]), score: Number(rows[i + 1]) });
+      }
+      total = await this.kv.zcard(indexKey);
+    }
+
+    // Keyset pagination: everything strictly after the cursor in (score desc, id desc) order
+    const remaining = after
+      ? ranked.filter(entry => entry.score < after.score || (entry.score === after.score && entry.id < after.id))
+      : ranked;
+    const page = remaining.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      sessions: await this.readSummaries(page.map(entry => entry.id)),
+      nextCursor: remaining.length > limit && last ? encodeCursor({ score: last.score, id: last.id }) : null,
+      total
+    };
+  }
+
+  private async readSummaries(sessionIds: string[]): Promise<SessionSummary[]> {
+    if (sessionIds.length === 0) return [];
+
+    const [owners, titles, previews, personaNames, summaries, summaryCounts, updatedAts, counts] = await Promise.all([
+      this.kv.hmget<Record<string, string | null>>(SESSION_OWNERS_KEY, ...sessionIds),
+      this.kv.hmget<Record<string, string | null>>(SUMMARY_FIELD_KEYS.title, ...sessionIds),
+      this.kv.hmget<Record<string, string | null>>(SUMMARY_FIELD_KEYS.lastMessagePreview, ...sessionIds),
+      this.kv.hmget<Record<string, string | null>>(SUMMARY_FIELD_KEYS.personaName, ...sessionIds),
+      this.kv.hmget<Record<string, string | null>>(SUMMARY_FIELD_KEYS.summary, ...sessionIds),
+      this.kv.hmget<Record<string, number | null>>(SUMMARY_FIELD_KEYS.summaryMessageCount, ...sessionIds),
+      this.kv.zmscore(SESSION_INDEX_KEY, sessionIds),
+      (() => {
+        const pipeline = this.kv.pipeline();
+        sessionIds.forEach(sessionId => {
+          pipeline.llen(messagesKey(sessionId));
+          pipeline.hlen(collectionKey(sessionId, 'entities'));
+        });
+        return pipeline.exec<number[]>();
+      })()
+    ]);
+
+    return sessionIds.map((id, index) => ({
+      id,
+      userId: owners?.[id] ? String(owners[id]) : null,
+      title: titles?.[id] ? String(titles[id]) : null,
+      lastMessagePreview: previews?.[id] ? String(previews[id]) : null,
+      personaName: personaNames?.[id] ? String(personaNames[id]) : null,
+      summary: summaries?.[id] ? String(summaries[id]) : null,
+      summaryMessageCount: Number(summaryCounts?.[id]) || 0,
+      messageCount: counts[index * 2] || 0,
+      entityCount: counts[index * 2 + 1] || 0,
+      updatedAt: new Date(Number(updatedAts?.[index]) || 0).toISOString()
+    }));
+  }
+
+  async addMessage(sessionId: string, message: Record<string, any>) {
+    await this.requireSession(sessionId);
+    const messageCount = await this.kv.rpush(messagesKey(sessionId), message);
+    await this.touch(sessionId);
+    // GT keeps the highest score when concurrent appends finish out of order
+    await this.indexSession(ACTIVITY_INDEX_KEY, sessionId, activityScore(messageCount), { gt: true });
+  }
+
+  async getMessages(sessionId: string) {
+    if (!(await this.ensureMigrated(sessionId))) return [];
+    return (await this.kv.lrange(messagesKey(sessionId), 0, -1)) || [];
+  }
+
+  async deleteMessage(sessionId: string, messageId: string) {
+    await this.requireSession(sessionId);
+    await this.kv.eval(REMOVE_BY_ID_SCRIPT, [messagesKey(sessionId)], [messageId]);
+    await this.kv.del(`trace:${messageId}`);
+    await this.touch(sessionId);
+    const messageCount = await this.kv.llen(messagesKey(sessionId));
+    await this.indexSession(ACTIVITY_INDEX_KEY, sessionId, activityScore(messageCount));
+  }
+
+  async saveMessageTrace(messageId: string, trace: Record<string, any>) {
+    await this.kv.set(`trace:${messageId}`, trace);
+  }
+
+  async getMessageTrace(messageId: string) {
+    return (await this.kv.get(`trace:${messageId}`)) || null;
+  }
+
+  async appendRecords(sessionId: string, collection: SessionCollection, records: Array<Record<string, any>>) {
+    await this.requireSession(sessionId);
+    await this.writeRecords(sessionId, collection, records);
+    await this.touch(sessionId);
+  }
+
+  async getRecords(sessionId: string, collection: SessionCollection) {
+    if (!(await this.ensureMigrated(sessionId))) return [];
+    return this.readRecords(sessionId, collection);
+  }
+
+  // Only id-keyed hash collections (interests, audiences) can be updated in place
+  async updateRecord(collection: SessionCollection, recordId: string, updates: Record<string, any>) {
+    const layout = COLLECTION_LAYOUT[collection];
+    if (layout.kind !== 'hash' || collection === 'entities') {
+      console.log(`⚠️ KV storage can't update ${collection} records in place`);
+      return null;
+    }
+
+    const sessionId = await this.kv.get<string>(`record:${recordId}`);
+    if (!sessionId || !(await this.ensureMigrated(sessionId))) return null;
+
+    const written = await this.compareAndSet<Record<string, any>>(collectionKey(sessionId, collection), recordId, current =>
+      current?.record ? { at: current.at, record: { ...current.record, ...updates } } : null
+    );
+    if (!written) return null;
+
+    await this.touch(sessionId);
+    return written.record;
+  }
+
+  async getEmbeddings(sessionId: string) {
+    return Object.values((await this.kv.hgetall<Record<string, EmbeddingRecord>>(embeddingsKey(sessionId))) || {});
+  }
+
+  async saveEmbeddings(sessionId: string, records: EmbeddingRecord[]) {
+    if (records.length === 0) return;
+    await this.kv.hset(embeddingsKey(sessionId), Object.fromEntries(records.map(record => [record.id, record])));
+  }
+
+  async getPersona(sessionId: string) {
+    return (await this.kv.get(personaKey(sessionId))) || null;
+  }
+
+  async savePersona(persona: Record<string, any>) {
+    await this.kv.set(personaKey(persona.sessionId), persona);
+  }
+
+  async saveLibraryPersona(persona: LibraryPersona) {
+    await this.kv.hset(PERSONA_LIBRARY_KEY, { [persona.id]: persona });
+  }
+
+  async getLibraryPersona(personaId: string) {
+    return (await this.kv.hget<LibraryPersona>(PERSONA_LIBRARY_KEY, personaId)) || null;
+  }
+
+  async listLibraryPersonas() {
+    return Object.values((await this.kv.hgetall<Record<string, LibraryPersona>>(PERSONA_LIBRARY_KEY)) || {});
+  }
+
+  async deleteLibraryPersona(personaId: string) {
+    await this.kv.hdel(PERSONA_LIBRARY_KEY, personaId);
+  }
+
+  async getGlobalTokenUsage() {
+    return (await this.kv.get(GLOBAL_TOKEN_USAGE_KEY)) || null;
+  }
+
+  async saveGlobalTokenUsage(usage: Record<string, any>) {
+    await this.kv.set(GLOBAL_TOKEN_USAGE_KEY, usage);
+  }
+
+  // One-shot upgrade of every session still stored as a single blob; SCAN walks the keyspace in pages
+  async migrateLegacySessions() {
+    let migrated = 0;
+    let total = 0;
+
+    for await (const key of this.kv.scanIterator({ match: 'session:*', count: 500 })) {
+      if (key.split(':').length !== 2) continue;
+      total++;
+      const doc = await this.kv.get(key);
+      if (isLegacySession(doc)) {
+        await this.migrateLegacySession(doc as StoredSession);
+        migrated++;
+      }
+    }
+
+    console.log(`✅ KV migration finished: ${migrated} of ${total} sessions upgraded`);
+    return { migrated, total };
+  }
+}
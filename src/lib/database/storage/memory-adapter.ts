@@ -0,0 +1,245 @@
+import {
+  StorageAdapter,
+  StoredSession,
+  StoredUser,
+  LibraryPersona,
+  SessionCollection,
+  SessionSummary,
+  SessionSummaryFields,
+  SessionListQuery,
+  SessionListPage,
+  EmbeddingRecord,
+  encodeCursor,
+  decodeCursor
+} from './types';
+
+// Process-local storage for tests and offline demos; nothing survives a restart.
+// Reads return copies so callers can't mutate stored state by accident, like a real backend.
+export class InMemoryStorageAdapter implements StorageAdapter {
+  readonly name = 'memory' as const;
+  private sessions = new Map<string, StoredSession>();
+  private users = new Map<string, StoredUser>();
+  private personas = new Map<string, Record<string, any>>();
+  private libraryPersonas = new Map<string, LibraryPersona>();
+  private traces = new Map<string, Record<string, any>>();
+  private embeddings = new Map<string, Map<string, EmbeddingRecord>>();
+  private recordSessions = new Map<string, string>(); // `${collection}:${recordId}` -> sessionId
+  private globalTokenUsage: Record<string, any> | null = null;
+
+  private requireSession(sessionId: string): StoredSession {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+    return session;
+  }
+
+  private touch(session: StoredSession) {
+    session.updatedAt = new Date().toISOString();
+  }
+
+  async createSession(session: StoredSession) {
+    this.sessions.set(session.id, structuredClone(session));
+  }
+
+  async getSession(sessionId: string) {
+    const session = this.sessions.get(sessionId);
+    return session ? structuredClone(session) : null;
+  }
+
+  async hasSession(sessionId: string) {
+    return this.sessions.has(sessionId);
+  }
+
+  async updateSession(sessionId: string, updates: Record<string, any>) {
+    const session = this.sessions.get(sessionId);
+    if (!session) return null;
+
+    Object.assign(session, structuredClone(updates));
+    this.touch(session);
+    return structuredClone(session);
+  }
+
+  async deleteSession(sessionId: string) {
+    const session = this.sessions.get(sessionId);
+    session?.messages.forEach(message => this.traces.delete(message.id));
+    this.sessions.delete(sessionId);
+    this.personas.delete(sessionId);
+    this.embeddings.delete(sessionId);
+  }
+
+  async createUser(user: StoredUser) {
+    this.users.set(user.id, structuredClone(user));
+  }
+
+  async getUser(userId: string) {
+    const user = this.users.get(userId);
+    return user ? structuredClone(user) : null;
+  }
+
+  async updateUser(userId: string, updates: Partial<StoredUser>) {
+    const user = this.users.get(userId);
+    if (!user) return null;
+
+    Object.assign(user, structuredClone(updates), { updatedAt: new Date().toISOString() });
+    return structuredClone(user);
+  }
+
+  async updateUserIf(userId: string, condition: (user: StoredUser) => boolean, updates: Partial<StoredUser>) {
+    const user = this.users.get(userId);
+    if (!user || !condition(structuredClone(user))) return null;
+
+    const before = structuredClone(user);
+    Object.assign(user, structuredClone(updates), { updatedAt: new Date().toISOString() });
+    return before;
+  }
+
+  async updateSessionSummary(sessionId: string, fields: SessionSummaryFields, defaults: SessionSummaryFields = {}) {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    Object.entries(defaults).forEach(([field, value]) => {
+      if (!session[field]) session[field] = value;
+    });
+    Object.assign(session, fields);
+  }
+
+  private toSummary(session: StoredSession): SessionSummary {
+    return {
+      id: session.id,
+      userId: session.userId || null,
+      title: session.title || null,
+      lastMessagePreview: session.lastMessagePreview || null,
+      personaName: session.personaName || this.personas.get(session.id)?.name || null,
+      summary: session.summary || null,
+      summaryMessageCount: session.summaryMessageCount || 0,
+      messageCount: session.messages.length,
+      entityCount: (session.entities || []).length,
+      updatedAt: session.updatedAt
+    };
+  }
+
+  async getSessionSummary(sessionId: string) {
+    const session = this.sessions.get(sessionId);
+    return session ? this.toSummary(session) : null;
+  }
+
+  async listSessionSummaries({ limit, cursor, sort = 'recent', search, userId }: SessionListQuery): Promise<SessionListPage> {
+    const term = search?.trim().toLowerCase();
+    const summaries = Array.from(this.sessions.values())
+      .filter(session => !userId || session.userId === userId)
+      .map(session => this.toSummary(session))
+      .filter(summary => !term || (summary.title || '').toLowerCase().includes(term))
+      .sort((a, b) =>
+        (sort === 'activity' ? b.messageCount - a.messageCount : 0) ||
+        b.updatedAt.localeCompare(a.updatedAt) ||
+        b.id.localeCompare(a.id)
+      );
+
+    const after = decodeCursor<{ id: string }>(cursor);
+    const start = after ? summaries.findIndex(summary => summary.id === after.id) + 1 : 0;
+    const page = summaries.slice(start, start + limit);
+    const hasMore = start + limit < summaries.length;
+
+    return {
+      sessions: page,
+      nextCursor: hasMore ? encodeCursor({ id: page[page.length - 1].id }) : null,
+      total: summaries.length
+    };
+  }
+
+  async addMessage(sessionId: string, message: Record<string, any>) {
+    const session = this.requireSession(sessionId);
+    session.messages.push(structuredClone(message));
+    this.touch(session);
+  }
+
+  async getMessages(sessionId: string) {
+    return structuredClone(this.sessions.get(sessionId)?.messages || []);
+  }
+
+  async deleteMessage(sessionId: string, messageId: string) {
+    const session = this.requireSession(sessionId);
+    session.messages = session.messages.filter(m => m.id !== messageId);
+    this.traces.delete(messageId);
+    this.touch(session);
+  }
+
+  async saveMessageTrace(messageId: string, trace: Record<string, any>) {
+    this.traces.set(messageId, structuredClone(trace));
+  }
+
+  async getMessageTrace(messageId: string) {
+    const trace = this.traces.get(messageId);
+    return trace ? structuredClone(trace) : null;
+  }
+
+  async appendRecords(sessionId: string, collection: SessionCollection, records: Array<Record<string, any>>) {
+    const session = this.requireSession(sessionId);
+    session[collection] = session[collection] || [];
+    session[collection].push(...structuredClone(records));
+    records
+      .filter(record => record.id)
+      .forEach(record => this.recordSessions.set(`${collection}:${record.id}`, sessionId));
+    this.touch(session);
+  }
+
+  async getRecords(sessionId: string, collection: SessionCollection) {
+    return structuredClone(this.sessions.get(sessionId)?.[collection] || []);
+  }
+
+  async updateRecord(collection: SessionCollection, recordId: string, updates: Record<string, any>) {
+    const sessionId = this.recordSessions.get(`${collection}:${recordId}`);
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    const record = session?.[collection]?.find((item: any) => item.id === recordId);
+    if (!session || !record) return null;
+
+    Object.assign(record, structuredClone(updates));
+    this.touch(session);
+    return structuredClone(record);
+  }
+
+  async getEmbeddings(sessionId: string) {
+    return structuredClone(Array.from(this.embeddings.get(sessionId)?.values() || []));
+  }
+
+  async saveEmbeddings(sessionId: string, records: EmbeddingRecord[]) {
+    const stored = this.embeddings.get(sessionId) || new Map<string, EmbeddingRecord>();
+    records.forEach(record => stored.set(record.id, structuredClone(record)));
+    this.embeddings.set(sessionId, stored);
+  }
+
+  async getPersona(sessionId: string) {
+    const persona = this.personas.get(sessionId);
+    return persona ? structuredClone(persona) : null;
+  }
+
+  async savePersona(persona: Record<string, any>) {
+    this.personas.set(persona.sessionId, structuredClone(persona));
+  }
+
+  async saveLibraryPersona(persona: LibraryPersona) {
+    this.libraryPersonas.set(persona.id, structuredClone(persona));
+  }
+
+  async getLibraryPersona(personaId: string) {
+    const persona = this.libraryPersonas.get(personaId);
+    return persona ? structuredClone(persona) : null;
+  }
+
+  async listLibraryPersonas() {
+    return Array.from(this.libraryPersonas.values()).map(persona => structuredClone(persona));
+  }
+
+  async deleteLibraryPersona(personaId: string) {
+    this.libraryPersonas.delete(personaId);
+  }
+
+  async getGlobalTokenUsage() {
+    return this.globalTokenUsage ? structuredClone(this.globalTokenUsage) : null;
+  }
+
+  async saveGlobalTokenUsage(usage: Record<string, any>) {
+    this.globalTokenUsage = structuredClone(usage);
+  }
+}
@@ -0,0 +1,618 @@
+import {
+  StorageAdapter,
+  StoredSession,
+  StoredUser,
+  LibraryPersona,
+  SessionCollection,
+  SessionSummary,
+  SessionSummaryFields,
+  SessionListQuery,
+  SessionListPage,
+  EmbeddingRecord,
+  SESSION_COLLECTIONS,
+  encodeCursor,
+  decodeCursor
+} from './types';
+
+type Row = Record<string, any>;
+
+interface CollectionModel {
+  delegate: string;           // Prisma client property, e.g. prisma.apiCall
+  columns: string[];          // Record fields with a column of their own
+  defaults?: Row;             // Values for required columns the record may lack
+  metadataColumn?: boolean;   // Fold the remaining fields into the `metadata` JSON column
+  createdAtColumn?: boolean;  // Table uses createdAt where the KV records use timestamp
+  toRow?: (record: Row) => Row;
+  fromRow?: (row: Row) => Row;
+}
+
+// How each session collection maps onto the relational schema in prisma/schema.prisma
+const COLLECTION_MODELS: Record<SessionCollection, CollectionModel> = {
+  apiCalls: {
+    delegate: 'apiCall',
+    columns: ['endpoint', 'method', 'parameters', 'response', 'status', 'duration', 'error'],
+    defaults: { endpoint: '', method: 'GET', parameters: {}, status: 0, duration: 0 },
+  },
+  tokenUsage: {
+    delegate: 'tokenUsage',
+    columns: ['promptTokens', 'completionTokens', 'totalTokens', 'cost', 'source'],
+    defaults: { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, source: 'chat' },
+  },
+  entities: {
+    delegate: 'entity',
+    columns: [],
+    // Entities arrive as raw Qloo objects; the full object is kept in metadata and returned as-is
+    toRow: record => ({
+      qlooId: record.entity_id || record.qlooId || record.id || record.name,
+      name: record.name || 'Unknown',
+      type: record.type || record.types?.[0] || record.subtype || 'unknown',
+      subtype: record.subtype || null,
+      description: record.properties?.description || record.description || null,
+      metadata: record,
+      tags: record.tags || null,
+      location: record.location || null,
+      confidence: typeof record.confidence === 'number' ? record.confidence : (record.popularity ?? 0.5),
+      source: record.source || 'qloo',
+    }),
+    fromRow: row => row.metadata,
+  },
+  structuredExtractions: {
+    delegate: 'structuredExtraction',
+    columns: ['query', 'parameters', 'confidence', 'reasoning', 'extractedFields'],
+    defaults: { query: '', parameters: {}, confidence: 0, reasoning: '', extractedFields: [] },
+  },
+  intentClassifications: {
+    delegate: 'intentClassification',
+    columns: ['query', 'intent', 'confidence', 'source', 'shouldUseQloo', 'classifierIntent', 'classifierConfidence', 'reasoning', 'alternatives', 'fallbackReason'],
+    defaults: { query: '', reasoning: '', alternatives: [], shouldUseQloo: false },
+  },
+  personalInterests: {
+    delegate: 'personalInterest',
+    columns: ['category', 'name', 'entityId', 'confidence', 'source', 'sentiment', 'metadata'],
+    defaults: { category: 'other', source: 'inferred', sentiment: 'like' },
+    metadataColumn: true,
+    createdAtColumn: true,
+  },
+  audienceCharacteristics: {
+    delegate: 'audienceCharacteristic',
+    columns: ['audienceType', 'audienceId', 'name', 'confidence', 'metadata'],
+    defaults: { audienceType: '', audienceId: '', name: 'Unknown' },
+    metadataColumn: true,
+    createdAtColumn: true,
+  },
+  qlooResponses: {
+    delegate: 'qlooResponse',
+    columns: [],
+    toRow: record => ({ data: record }),
+    fromRow: row => row.data,
+  },
+  recommendationFeedback: {
+    delegate: 'recommendationFeedback',
+    columns: ['recommendationId', 'recommendationType', 'recommendationName', 'rating', 'feedback', 'comment', 'metadata'],
+    defaults: { recommendationType: 'other', recommendationName: '', rating: 0, feedback: 'neutral' },
+    metadataColumn: true,
+  },
+};
+
+// Persona interests and audiences reference the persona row, so it must exist first
+const PERSONA_COLLECTIONS: SessionCollection[] = ['personalInterests', 'audienceCharacteristics'];
+
+const SESSION_COLUMNS = ['userId', 'personaId', 'debugMode', 'title', 'lastMessagePreview'];
+const MESSAGE_COLUMNS = ['role', 'content', 'usage', 'metadata'];
+const PERSONA_COLUMNS = ['name', 'location', 'gender', 'demographics', 'confidence'];
+const USER_COLUMNS = ['profile', 'mergedInto', 'forkedFrom'];
+const MAX_CONDITIONAL_ATTEMPTS = 3;
+const LIBRARY_PERSONA_COLUMNS = ['name', 'description', 'tags', 'profile', 'interests', 'audiences', 'duplicatedFrom', 'createdBy'];
+
+const BOOKKEEPING_FIELDS = ['id', 'sessionId', 'timestamp', 'createdAt', 'updatedAt'];
+
+// Dates come back as Date objects; the rest of the app works with ISO strings
+function toPlain(row: Row): Row {
+  return Object.fromEntries(
+    Object.entries(row).map(([key, value]) => [key, value instanceof Date ? value.toISOString() : value])
+  );
+}
+
+function toDate(value: any): Date | undefined {
+  return value ? new Date(value) : undefined;
+}
+
+// Split a record into its own columns and everything else
+function splitColumns(record: Row, columns: string[]) {
+  const row: Row = {};
+  const extras: Row = {};
+  Object.entries(record).forEach(([key, value]) => {
+    if (value === undefined || BOOKKEEPING_FIELDS.includes(key)) return;
+    if (columns.includes(key)) row[key] = value;
+    else extras[key] = value;
+  });
+  return { row, extras };
+}
+
+// Just what the session list needs, with relation counts instead of loading the rows
+const SUMMARY_SELECT = {
+  id: true,
+  userId: true,
+  title: true,
+  lastMessagePreview: true,
+  summary: true,
+  summaryMessageCount: true,
+  updatedAt: true,
+  persona: { select: { name: true } },
+  _count: { select: { messages: true, entities: true } },
+};
+
+function fromSummaryRow(row: Row): SessionSummary {
+  return {
+    id: row.id,
+    userId: row.userId,
+    title: row.title,
+    lastMessagePreview: row.lastMessagePreview,
+    personaName: row.persona?.name || null,
+    summary: row.summary,
+    summaryMessageCount: row.summaryMessageCount,
+    messageCount: row._count.messages,
+    entityCount: row._count.entities,
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function sanitizeJson(value: any) {
+  // Prisma rejects undefined inside Json columns
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+// Postgres via Prisma, using the relational schema instead of one blob per session
+export class PrismaStorageAdapter implements StorageAdapter {
+  readonly name = 'prisma' as const;
+  private clientPromise: Promise<any> | null = null;
+
+  constructor(private client?: any) {}
+
+  // Loaded lazily so KV/in-memory deployments don't need a generated Prisma client
+  private async prisma(): Promise<any> {
+    if (this.client) return this.client;
+    if (!this.clientPromise) {
+      this.clientPromise = import('@prisma/client').then(prismaModule => {
+        const { PrismaClient } = prismaModule as any;
+        this.client = new PrismaClient();
+        console.log('✅ Prisma client connected');
+        return this.client;
+      });
+    }
+    return this.clientPromise;
+  }
+
+  private sessionInclude() {
+    const include: Row = { messages: { orderBy: { timestamp: 'asc' } } };
+    SESSION_COLLECTIONS.forEach(collection => {
+      const model = COLLECTION_MODELS[collection];
+      include[collection] = { orderBy: { [model.createdAtColumn ? 'createdAt' : 'timestamp']: 'asc' } };
+    });
+    return include;
+  }
+
+  private fromSessionRow(row: Row): StoredSession {
+    const session: StoredSession = {
+      ...(row.metadata || {}),
+      id: row.id,
+      title: row.title,
+      lastMessagePreview: row.lastMessagePreview,
+      userId: row.userId || undefined,
+      personaId: row.personaId || undefined,
+      debugMode: row.debugMode,
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+      messages: (row.messages || []).map((message: Row) => this.fromMessageRow(message)),
+    };
+    SESSION_COLLECTIONS.forEach(collection => {
+      session[collection] = (row[collection] || []).map((record: Row) => this.fromRecordRow(collection, record));
+    });
+    return session;
+  }
+
+  private toMessageRow(message: Row): Row {
+    const { row, extras } = splitColumns(message, MESSAGE_COLUMNS);
+    if (Object.keys(extras).length > 0) {
+      row.metadata = { ...(row.metadata || {}), ...extras };
+    }
+    return { ...row, content: row.content ?? '', metadata: sanitizeJson(row.metadata), usage: sanitizeJson(row.usage) };
+  }
+
+  private fromMessageRow(row: Row): Row {
+    const message = toPlain(row);
+    delete message.trace;
+    return message;
+  }
+
+  private toRecordRow(collection: SessionCollection, record: Row): Row {
+    const model = COLLECTION_MODELS[collection];
+    if (model.toRow) {
+      return sanitizeJson(model.toRow(record));
+    }
+
+    const { row, extras } = splitColumns(record, model.columns);
+    if (model.metadataColumn && Object.keys(extras).length > 0) {
+      row.metadata = { ...(row.metadata || {}), ...extras };
+    }
+    return sanitizeJson({ ...model.defaults, ...row });
+  }
+
+  private fromRecordRow(collection: SessionCollection, row: Row): Row {
+    const model = COLLECTION_MODELS[collection];
+    if (model.fromRow) {
+      return model.fromRow(row);
+    }
+
+    const record = toPlain(row);
+    if (model.createdAtColumn) {
+      record.timestamp = record.createdAt;
+    }
+    return record;
+  }
+
+  private async ensurePersona(sessionId: string) {
+    const prisma = await this.prisma();
+    await prisma.persona.upsert({ where: { sessionId }, create: { sessionId }, update: {} });
+  }
+
+  async createSession(session: StoredSession) {
+    const prisma = await this.prisma();
+    const { row, extras } = splitColumns(session, SESSION_COLUMNS);
+    SESSION_COLLECTIONS.forEach(collection => delete extras[collection]);
+    delete extras.messages;
+
+    await prisma.chatSession.create({
+      data: {
+        id: session.id,
+        ...row,
+        metadata: Object.keys(extras).length > 0 ? sanitizeJson(extras) : undefined,
+        createdAt: toDate(session.createdAt),
+      },
+    });
+  }
+
+  async getSession(sessionId: string) {
+    const prisma = await this.prisma();
+    const row = await prisma.chatSession.findUnique({ where: { id: sessionId }, include: this.sessionInclude() });
+    return row ? this.fromSessionRow(row) : null;
+  }
+
+  async hasSession(sessionId: string) {
+    const prisma = await this.prisma();
+    return (await prisma.chatSession.count({ where: { id: sessionId } })) > 0;
+  }
+
+  async updateSession(sessionId: string, updates: Record<string, any>) {
+    const prisma = await this.prisma();
+    const existing = await prisma.chatSession.findUnique({ where: { id: sessionId } });
+    if (!existing) return null;
+
+    const { row, extras } = splitColumns(updates, SESSION_COLUMNS);
+    SESSION_COLLECTIONS.forEach(collection => delete extras[collection]);
+    delete extras.messages;
+
+    await prisma.chatSession.update({
+      where: { id: sessionId },
+      data: {
+        ...row,
+        metadata: Object.keys(extras).length > 0 ? sanitizeJson({ ...(existing.metadata || {}), ...extras }) : undefined,
+      },
+    });
+    return this.getSession(sessionId);
+  }
+
+  async deleteSession(sessionId: string) {
+    const prisma = await this.prisma();
+    // Relations cascade on delete
+    await prisma.chatSession.deleteMany({ where: { id: sessionId } });
+  }
+
+  private fromUserRow(row: Row): StoredUser {
+    const { metadata, ...user } = toPlain(row);
+    return { ...(metadata || {}), ...user, mergedInto: user.mergedInto || undefined, forkedFrom: user.forkedFrom || undefined } as StoredUser;
+  }
+
+  async createUser(user: StoredUser) {
+    const prisma = await this.prisma();
+    const { row, extras } = splitColumns(user, USER_COLUMNS);
+    await prisma.user.create({
+      data: {
+        id: user.id,
+        ...row,
+        profile: sanitizeJson(row.profile || {}),
+        metadata: Object.keys(extras).length > 0 ? sanitizeJson(extras) : undefined,
+        createdAt: toDate(user.createdAt),
+      },
+    });
+  }
+
+  async getUser(userId: string) {
+    const prisma = await this.prisma();
+    const row = await prisma.user.findUnique({ where: { id: userId } });
+    return row ? this.fromUserRow(row) : null;
+  }
+
+  async updateUser(userId: string, updates: Partial<StoredUser>) {
+    const prisma = await this.prisma();
+    const existing = await prisma.user.findUnique({ where: { id: userId } });
+    if (!existing) return null;
+
+    const { row, extras } = splitColumns(updates, USER_COLUMNS);
+    const updated = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        ...row,
+        profile: sanitizeJson(row.profile),
+        metadata: Object.keys(extras).length > 0 ? sanitizeJson({ ...(existing.metadata || {}), ...extras }) : undefined,
+      },
+    });
+    return this.fromUserRow(updated);
+  }
+
+  // Optimistic: the write only lands if updatedAt is still what the condition was checked against
+  async updateUserIf(userId: string, condition: (user: StoredUser) => boolean, updates: Partial<StoredUser>) {
+    const prisma = await this.prisma();
+    for (let attempt = 0; attempt < MAX_CONDITIONAL_ATTEMPTS; attempt++) {
+      const existing = await prisma.user.findUnique({ where: { id: userId } });
+      if (!existing) return null;
+      const before = this.fromUserRow(existing);
+      if (!condition(before)) return null;
+
+      const { row, extras } = splitColumns(updates, USER_COLUMNS);
+      const { count } = await prisma.user.updateMany({
+        where: { id: userId, updatedAt: existing.updatedAt },
+        data: {
+          ...row,
+          profile: sanitizeJson(row.profile),
+          metadata: Object.keys(extras).length > 0 ? sanitizeJson({ ...(existing.metadata || {}), ...extras }) : undefined,
+        },
+      });
+      if (count === 1) return before;
+    }
+    return null;
+  }
+
+  async updateSessionSummary(sessionId: string, fields: SessionSummaryFields, defaults: SessionSummaryFields = {}) {
+    const prisma = await this.prisma();
+    // Persona names come from the persona relation, so they have no column here
+    const { row } = splitColumns(fields, ['title', 'lastMessagePreview', 'summary', 'summaryMessageCount']);
+    if (Object.keys(row).length > 0) {
+      await prisma.chatSession.updateMany({ where: { id: sessionId }, data: row });
+    }
+    if (defaults.title) {
+      await prisma.chatSession.updateMany({ where: { id: sessionId, title: null }, data: { title: defaults.title } });
+    }
+  }
+
+  async getSessionSummary(sessionId: string) {
+    const prisma = await this.prisma();
+    const row = await prisma.chatSession.findUnique({ where: { id: sessionId }, select: SUMMARY_SELECT });
+    return row ? fromSummaryRow(row) : null;
+  }
+
+  async listSessionSummaries({ limit, cursor, sort = 'recent', search, userId }: SessionListQuery): Promise<SessionListPage> {
+    const prisma = await this.prisma();
+    const where = {
+      ...(userId ? { userId } : {}),
+      ...(search?.trim() ? { title: { contains: search.trim(), mode: 'insensitive' } } : {}),
+    };
+    const orderBy = sort === 'activity'
+      ? [{ messages: { _count: 'desc' } }, { updatedAt: 'desc' }, { id: 'desc' }]
+      : [{ updatedAt: 'desc' }, { id: 'desc' }];
+    const after = decodeCursor<{ id: string }>(cursor);
+
+    const [rows, total] = await Promise.all([
+      prisma.chatSession.findMany({
+        where,
+        orderBy,
+        take: limit + 1,
+        ...(after ? { cursor: { id: after.id }, skip: 1 } : {}),
+        select: SUMMARY_SELECT,
+      }),
+      prisma.chatSession.count({ where }),
+    ]);
+
+    const page = rows.slice(0, limit);
+    return {
+      sessions: page.map(fromSummaryRow),
+      nextCursor: rows.length > limit ? encodeCursor({ id: page[page.length - 1].id }) : null,
+      total,
+    };
+  }
+
+  async addMessage(sessionId: string, message: Record<string, any>) {
+    const prisma = await this.prisma();
+    await prisma.message.create({
+      data: {
+        id: message.id,
+        sessionId,
+        ...this.toMessageRow(message),
+        timestamp: toDate(message.timestamp),
+      },
+    });
+    await prisma.chatSession.update({ where: { id: sessionId }, data: { updatedAt: new Date() } });
+  }
+
+  async getMessages(sessionId: string) {
+    const prisma = await this.prisma();
+    const rows = await prisma.message.findMany({ where: { sessionId }, orderBy: { timestamp: 'asc' } });
+    return rows.map((row: Row) => this.fromMessageRow(row));
+  }
+
+  async deleteMessage(sessionId: string, messageId: string) {
+    const prisma = await this.prisma();
+    await prisma.message.deleteMany({ where: { id: messageId, sessionId } });
+  }
+
+  async saveMessageTrace(messageId: string, trace: Record<string, any>) {
+    const prisma = await this.prisma();
+    await prisma.message.update({ where: { id: messageId }, data: { trace: sanitizeJson(trace) } });
+  }
+
+  async getMessageTrace(messageId: string) {
+    const prisma = await this.prisma();
+    const row = await prisma.message.findUnique({ where: { id: messageId }, select: { trace: true } });
+    return row?.trace || null;
+  }
+
+  async appendRecords(sessionId: string, collection: SessionCollection, records: Array<Record<string, any>>) {
+    if (records.length === 0) return;
+    const prisma = await this.prisma();
+    const model = COLLECTION_MODELS[collection];
+
+    if (PERSONA_COLLECTIONS.includes(collection)) {
+      await this.ensurePersona(sessionId);
+    }
+
+    const timestampField = model.createdAtColumn ? 'createdAt' : 'timestamp';
+    await prisma[model.delegate].createMany({
+      data: records.map(record => ({
+        // Raw Qloo entities may carry Qloo's own id, which must not become our primary key
+        ...(record.id && collection !== 'entities' ? { id: record.id } : {}),
+        sessionId,
+        ...this.toRecordRow(collection, record),
+        [timestampField]: toDate(record.timestamp),
+      })),
+      // Entities are unique per (sessionId, qlooId); repeats are expected
+      skipDuplicates: collection === 'entities',
+    });
+    await prisma.chatSession.update({ where: { id: sessionId }, data: { updatedAt: new Date() } });
+  }
+
+  async getRecords(sessionId: string, collection: SessionCollection) {
+    const prisma = await this.prisma();
+    const model = COLLECTION_MODELS[collection];
+    const rows = await prisma[model.delegate].findMany({
+      where: { sessionId },
+      orderBy: { [model.createdAtColumn ? 'createdAt' : 'timestamp']: 'asc' },
+    });
+    return rows.map((row: Row) => this.fromRecordRow(collection, row));
+  }
+
+  async updateRecord(collection: SessionCollection, recordId: string, updates: Record<string, any>) {
+    const prisma = await this.prisma();
+    const model = COLLECTION_MODELS[collection];
+    const existing = await prisma[model.delegate].findUnique({ where: { id: recordId } });
+    if (!existing) return null;
+
+    const current = this.fromRecordRow(collection, existing);
+    const data = this.toRecordRow(collection, { ...current, ...updates });
+    const row = await prisma[model.delegate].update({ where: { id: recordId }, data });
+    return this.fromRecordRow(collection, row);
+  }
+
+  async getEmbeddings(sessionId: string) {
+    const prisma = await this.prisma();
+    const rows = await prisma.embeddingVector.findMany({ where: { sessionId } });
+    return rows.map((row: Row) => ({
+      id: row.id,
+      kind: row.kind,
+      sourceId: row.sourceId,
+      model: row.model,
+      contentHash: row.contentHash,
+      vector: row.vector,
+    }));
+  }
+
+  async saveEmbeddings(sessionId: string, records: EmbeddingRecord[]) {
+    if (records.length === 0) return;
+    const prisma = await this.prisma();
+    await prisma.$transaction(records.map(record => {
+      const data = { kind: record.kind, sourceId: record.sourceId, model: record.model, contentHash: record.contentHash, vector: record.vector };
+      return prisma.embeddingVector.upsert({
+        where: { sessionId_id: { sessionId, id: record.id } },
+        create: { sessionId, id: record.id, ...data },
+        update: data,
+      });
+    }));
+  }
+
+  async getPersona(sessionId: string) {
+    const prisma = await this.prisma();
+    const row = await prisma.persona.findUnique({ where: { sessionId } });
+    if (!row) return null;
+
+    const { metadata, ...persona } = toPlain(row);
+    return { ...(metadata || {}), ...persona };
+  }
+
+  async savePersona(persona: Record<string, any>) {
+    const prisma = await this.prisma();
+    const { row, extras } = splitColumns(persona, PERSONA_COLUMNS);
+    const data = {
+      ...row,
+      demographics: sanitizeJson(row.demographics),
+      metadata: sanitizeJson(extras),
+    };
+
+    await prisma.persona.upsert({
+      where: { sessionId: persona.sessionId },
+      create: { id: persona.id, sessionId: persona.sessionId, ...data },
+      update: data,
+    });
+  }
+
+  async saveLibraryPersona(persona: LibraryPersona) {
+    const prisma = await this.prisma();
+    const { row } = splitColumns(persona, LIBRARY_PERSONA_COLUMNS);
+    const data = sanitizeJson(row);
+
+    await prisma.libraryPersona.upsert({
+      where: { id: persona.id },
+      create: { id: persona.id, ...data, createdAt: toDate(persona.createdAt) },
+      update: data,
+    });
+  }
+
+  async getLibraryPersona(personaId: string) {
+    const prisma = await this.prisma();
+    const row = await prisma.libraryPersona.findUnique({ where: { id: personaId } });
+    return row ? this.fromLibraryPersonaRow(row) : null;
+  }
+
+  async listLibraryPersonas() {
+    const prisma = await this.prisma();
+    const rows = await prisma.libraryPersona.findMany({ orderBy: { updatedAt: 'desc' } });
+    return rows.map((row: Row) => this.fromLibraryPersonaRow(row));
+  }
+
+  async deleteLibraryPersona(personaId: string) {
+    const prisma = await this.prisma();
+    await prisma.libraryPersona.deleteMany({ where: { id: personaId } });
+  }
+
+  private fromLibraryPersonaRow(row: Row): LibraryPersona {
+    const persona = toPlain(row);
+    return {
+      ...persona,
+      description: persona.description || undefined,
+      duplicatedFrom: persona.duplicatedFrom || undefined,
+      createdBy: persona.createdBy || undefined,
+    } as LibraryPersona;
+  }
+
+  async getGlobalTokenUsage() {
+    const prisma = await this.prisma();
+    const row = await prisma.globalTokenUsage.findUnique({ where: { id: 'global' } });
+    return row ? toPlain(row) : null;
+  }
+
+  async saveGlobalTokenUsage(usage: Record<string, any>) {
+    const prisma = await this.prisma();
+    const { row } = splitColumns(usage, ['totalPromptTokens', 'totalCompletionTokens', 'totalTokens', 'sessionTokens', 'costEstimate']);
+    const data = { ...row, lastUpdated: toDate(usage.lastUpdated) || new Date() };
+
+    await prisma.globalTokenUsage.upsert({
+      where: { id: 'global' },
+      create: { id: 'global', ...data },
+      update: data,
+    });
+  }
+
+  async disconnect() {
+    if (this.client) {
+      await this.client.$disconnect();
+    }
+  }
+}
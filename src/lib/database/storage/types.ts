@@ -0,0 +1,206 @@
+// Storage backends behind DatabaseService. Whatever the backend, sessions come back
+// hydrated (messages plus every collection below) in the shape the KV blob always had.
+
+export type StorageBackend = 'kv' | 'prisma' | 'memory';
+
+// Per-session record lists; each maps to its own table in the Prisma schema
+export const SESSION_COLLECTIONS = [
+  'apiCalls',
+  'tokenUsage',
+  'entities',
+  'structuredExtractions',
+  'intentClassifications',
+  'personalInterests',
+  'audienceCharacteristics',
+  'qlooResponses',
+  'recommendationFeedback'
+] as const;
+
+export type SessionCollection = typeof SESSION_COLLECTIONS[number];
+
+export interface StoredSession {
+  id: string;
+  userId?: string;
+  personaId?: string;
+  debugMode: boolean;
+  createdAt: string;
+  updatedAt: string;
+  messages: any[];
+  [field: string]: any;
+}
+
+// Long-lived identity that owns its sessions; its profile seeds the persona of every new session
+export interface StoredUser {
+  id: string;
+  profile: Record<string, any>;
+  mergedInto?: string; // Merged users resolve to this one
+  forkedFrom?: string;
+  createdAt: string;
+  updatedAt: string;
+  [field: string]: any;
+}
+
+// Saved taste profile ("28-year-old vegan in Krakow") that can drive any session it's attached to
+export interface LibraryPersona {
+  id: string;
+  name: string;                   // Label shown in the library
+  description?: string;
+  tags: string[];
+  profile: Record<string, any>;   // Persona fields: name, location, gender, demographics
+  interests: LibraryPersonaInterest[];
+  audiences: LibraryPersonaAudience[];
+  duplicatedFrom?: string;
+  createdBy?: string;             // User id
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LibraryPersonaInterest {
+  category: string;
+  name: string;
+  confidence: number;
+  entityId?: string;
+  sentiment?: 'like' | 'dislike';
+}
+
+export interface LibraryPersonaAudience {
+  audienceType: string;
+  audienceId: string;
+  name: string;
+  confidence?: number;
+}
+
+// Lightweight row for session lists; kept up to date on write so listing never loads full sessions
+export interface SessionSummary {
+  id: string;
+  userId: string | null;
+  title: string | null;
+  lastMessagePreview: string | null;
+  personaName: string | null;
+  summary: string | null;       // Rolling LLM summary of the conversation
+  summaryMessageCount: number;  // How many messages the summary covers
+  messageCount: number;
+  entityCount: number;
+  updatedAt: string;
+}
+
+export type SessionSort = 'recent' | 'activity';
+
+export interface SessionListQuery {
+  limit: number;
+  cursor?: string | null; // Opaque, from a previous page's nextCursor
+  sort?: SessionSort;     // recent = last update, activity = message count (ties by recency)
+  search?: string;        // Case-insensitive substring match on titles
+  userId?: string;        // Only sessions owned by this user
+}
+
+export interface SessionListPage {
+  sessions: SessionSummary[];
+  nextCursor: string | null;
+  total: number;
+}
+
+export type SessionSummaryFields = Partial<Pick<SessionSummary, 'title' | 'lastMessagePreview' | 'personaName' | 'summary' | 'summaryMessageCount'>>;
+
+// Vector for one message or entity of a session; only vectors from the same `model` are comparable
+export interface EmbeddingRecord {
+  id: string;          // `${kind}:${sourceId}`, unique within the session
+  kind: 'message' | 'entity';
+  sourceId: string;
+  model: string;
+  contentHash: string; // Re-embed when the source text changes
+  vector: number[];
+}
+
+export interface StorageAdapter {
+  readonly name: StorageBackend;
+
+  // Sessions
+  createSession(session: StoredSession): Promise<void>;
+  getSession(sessionId: string): Promise<StoredSession | null>;
+  hasSession(sessionId: string): Promise<boolean>;
+  updateSession(sessionId: string, updates: Record<string, any>): Promise<StoredSession | null>;
+  deleteSession(sessionId: string): Promise<void>;
+
+  // Users
+  createUser(user: StoredUser): Promise<void>;
+  getUser(userId: string): Promise<StoredUser | null>;
+  updateUser(userId: string, updates: Partial<StoredUser>): Promise<StoredUser | null>;
+  // Atomic check-and-update: applies updates only if `condition` holds for the stored user at write time.
+  // Returns the user as the condition saw it (before the update), or null when it didn't hold
+  updateUserIf(userId: string, condition: (user: StoredUser) => boolean, updates: Partial<StoredUser>): Promise<StoredUser | null>;
+
+  // Session index: `fields` overwrite, `defaults` are only written when the field is still empty
+  updateSessionSummary(sessionId: string, fields: SessionSummaryFields, defaults?: SessionSummaryFields): Promise<void>;
+  getSessionSummary(sessionId: string): Promise<SessionSummary | null>;
+  listSessionSummaries(query: SessionListQuery): Promise<SessionListPage>;
+
+  // Messages and their agent traces
+  addMessage(sessionId: string, message: Record<string, any>): Promise<void>;
+  getMessages(sessionId: string): Promise<any[]>;
+  deleteMessage(sessionId: string, messageId: string): Promise<void>;
+  saveMessageTrace(messageId: string, trace: Record<string, any>): Promise<void>;
+  getMessageTrace(messageId: string): Promise<any | null>;
+
+  // Session collections; records without an id (raw Qloo entities) are stored as-is
+  appendRecords(sessionId: string, collection: SessionCollection, records: Array<Record<string, any>>): Promise<void>;
+  getRecords(sessionId: string, collection: SessionCollection): Promise<any[]>;
+  updateRecord(collection: SessionCollection, recordId: string, updates: Record<string, any>): Promise<any | null>;
+
+  // Semantic search index; saving upserts by record id
+  getEmbeddings(sessionId: string): Promise<EmbeddingRecord[]>;
+  saveEmbeddings(sessionId: string, records: EmbeddingRecord[]): Promise<void>;
+
+  // One persona per session
+  getPersona(sessionId: string): Promise<any | null>;
+  savePersona(persona: Record<string, any>): Promise<void>;
+
+  // Persona library, shared by all sessions
+  saveLibraryPersona(persona: LibraryPersona): Promise<void>;
+  getLibraryPersona(personaId: string): Promise<LibraryPersona | null>;
+  listLibraryPersonas(): Promise<LibraryPersona[]>;
+  deleteLibraryPersona(personaId: string): Promise<void>;
+
+  // Global counters
+  getGlobalTokenUsage(): Promise<any | null>;
+  saveGlobalTokenUsage(usage: Record<string, any>): Promise<void>;
+
+  // Upgrade data written by an older layout of the same backend
+  migrateLegacySessions?(): Promise<{ migrated: number; total: number }>;
+
+  disconnect?(): Promise<void>;
+}
+
+export function createEmptyCollections(): Record<SessionCollection, any[]> {
+  return Object.fromEntries(SESSION_COLLECTIONS.map(collection => [collection, []])) as Record<SessionCollection, any[]>;
+}
+
+const TITLE_LENGTH = 60;
+const PREVIEW_LENGTH = 120;
+
+function truncate(text: string, length: number) {
+  const singleLine = (text || '').replace(/\s+/g, ' ').trim();
+  return singleLine.length > length ? `${singleLine.slice(0, length - 1)}…` : singleLine;
+}
+
+// Until a chat gets a better title, its first user message stands in for one
+export function titleFromMessage(content: string): string | null {
+  return truncate(content, TITLE_LENGTH) || null;
+}
+
+export function previewFromMessage(content: string): string | null {
+  return truncate(content, PREVIEW_LENGTH) || null;
+}
+
+export function encodeCursor(position: Record<string, any>): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+export function decodeCursor<T = Record<string, any>>(cursor?: string | null): T | null {
+  if (!cursor) return null;
+  try {
+    return JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as T;
+  } catch {
+    return null;
+  }
+}
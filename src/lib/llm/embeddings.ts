@@ -0,0 +1,149 @@
+import { EmbeddingModel } from 'ai';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { config } from '@/lib/config';
+
+const LOCAL_DIMENSIONS = 512;
+
+// Too common to say anything about what a text is about
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'from', 'by', 'as',
+  'is', 'are', 'was', 'were', 'be', 'been', 'it', 'its', 'this', 'that', 'these', 'those', 'there',
+  'i', 'me', 'my', 'you', 'your', 'we', 'our', 'us', 'he', 'she', 'they', 'them', 'their',
+  'what', 'which', 'who', 'do', 'did', 'does', 'have', 'has', 'had', 'can', 'could', 'would', 'should',
+  'about', 'some', 'any', 'so', 'if', 'then', 'than', 'just', 'like', 'also', 'very', 'really', 'one'
+]);
+
+// FNV-1a; stable across processes so stored vectors stay comparable
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').match(/[a-z0-9]+/g) ?? ([] as string[]))
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .map(word => word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word);
+}
+
+// Deterministic offline embedder: words and their character trigrams are hashed into signed buckets.
+// It only knows about shared wording, but needs no keys and gives the same vector for the same text.
+export class LocalHashingEmbeddingModel implements EmbeddingModel<string> {
+  readonly specificationVersion = 'v1' as const;
+  readonly provider = 'local';
+  readonly maxEmbeddingsPerCall = undefined;
+  readonly supportsParallelCalls = true;
+
+  constructor(readonly modelId: string = 'hashing', private dimensions: number = LOCAL_DIMENSIONS) {}
+
+  embedText(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const hash = hashToken(feature);
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -weight : weight;
+    };
+
+    tokenize(text).forEach(word => {
+      add(`w:${word}`, 1);
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`t:${padded.slice(i, i + 3)}`, 0.25);
+      }
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  async doEmbed({ values }: { values: string[] }) {
+    return { embeddings: values.map(value => this.embedText(value)) };
+  }
+}
+
+// Any server speaking the OpenAI embeddings API (Ollama, LM Studio, vLLM, ...)
+export class OpenAICompatibleEmbeddingModel implements EmbeddingModel<string> {
+  readonly specificationVersion = 'v1' as const;
+  readonly provider = 'openai-compatible';
+  readonly maxEmbeddingsPerCall = 64;
+  readonly supportsParallelCalls = false;
+
+  constructor(
+    readonly modelId: string,
+    private baseUrl: string,
+    private apiKey?: string
+  ) {}
+
+  async doEmbed({ values, abortSignal, headers }: { values: string[]; abortSignal?: AbortSignal; headers?: Record<string, string | undefined> }) {
+    const requestHeaders: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      requestHeaders['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/embeddings`, {
+      method: 'POST',
+      headers: { ...requestHeaders, ...(headers as Record<string, string>) },
+      body: JSON.stringify({ model: this.modelId, input: values }),
+      signal: abortSignal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`OpenAI-compatible embeddings error: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    const embeddings = [...(data.data || [])]
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((item: any) => item.embedding as number[]);
+
+    return {
+      embeddings,
+      usage: data.usage?.prompt_tokens !== undefined ? { tokens: data.usage.prompt_tokens } : undefined,
+    };
+  }
+}
+
+const embeddingModelCache = new Map<string, EmbeddingModel<string>>();
+
+// Resolve a "<provider>:<modelId>" spec (see config.embeddingModel) to an AI SDK embedding model
+export function createEmbeddingModel(spec: string): EmbeddingModel<string> {
+  const separator = spec.indexOf(':');
+  const provider = separator === -1 ? spec : spec.slice(0, separator);
+  const modelId = separator === -1 ? '' : spec.slice(separator + 1);
+
+  switch (provider) {
+    case 'google':
+      return createGoogleGenerativeAI({ apiKey: config.googleApiKey || undefined }).textEmbeddingModel(modelId || 'text-embedding-004');
+    case 'openai-compatible':
+      return new OpenAICompatibleEmbeddingModel(modelId, config.openaiCompatibleUrl, config.openaiCompatibleApiKey);
+    case 'local':
+      return new LocalHashingEmbeddingModel(modelId || 'hashing');
+    default:
+      throw new Error(`Unknown embedding provider "${provider}" in model spec "${spec}"`);
+  }
+}
+
+export function getEmbeddingModel(): EmbeddingModel<string> {
+  const spec = config.embeddingModel;
+  if (!embeddingModelCache.has(spec)) {
+    embeddingModelCache.set(spec, createEmbeddingModel(spec));
+    console.log('🧠 Embedding model:', spec);
+  }
+  return embeddingModelCache.get(spec)!;
+}
+
+// Used when the configured provider is unreachable
+export function getLocalEmbeddingModel(): LocalHashingEmbeddingModel {
+  if (!embeddingModelCache.has('local:hashing')) {
+    embeddingModelCache.set('local:hashing', new LocalHashingEmbeddingModel());
+  }
+  return embeddingModelCache.get('local:hashing') as LocalHashingEmbeddingModel;
+}
+
+// Vectors from different models live in different spaces; stored vectors are tagged with this
+export function describeEmbeddingModel(model: EmbeddingModel<string>): string {
+  return `${model.provider}:${model.modelId}`;
+}
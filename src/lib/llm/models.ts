@@ -0,0 +1,35 @@
+import { LanguageModelV1 } from 'ai';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { config, ModelRole } from '@/lib/config';
+import { OpenAICompatibleChatModel } from './openai-compatible';
+import { StubChatModel } from './stub-model';
+
+const modelCache = new Map<string, LanguageModelV1>();
+
+// Resolve a "<provider>:<modelId>" spec (see config.models) to an AI SDK model
+export function createModel(spec: string): LanguageModelV1 {
+  const separator = spec.indexOf(':');
+  const provider = separator === -1 ? spec : spec.slice(0, separator);
+  const modelId = separator === -1 ? '' : spec.slice(separator + 1);
+
+  switch (provider) {
+    case 'google':
+      return createGoogleGenerativeAI({ apiKey: config.googleApiKey || undefined })(modelId || 'gemini-2.5-flash');
+    case 'openai-compatible':
+      return new OpenAICompatibleChatModel(modelId, config.openaiCompatibleUrl, config.openaiCompatibleApiKey);
+    case 'stub':
+      return new StubChatModel(modelId || 'echo');
+    default:
+      throw new Error(`Unknown model provider "${provider}" in model spec "${spec}"`);
+  }
+}
+
+// Agents ask for a role; which model backs it is decided by config
+export function getModel(role: ModelRole): LanguageModelV1 {
+  const spec = config.models[role];
+  if (!modelCache.has(spec)) {
+    modelCache.set(spec, createModel(spec));
+    console.log(`🧠 Model for ${role}:`, spec);
+  }
+  return modelCache.get(spec)!;
+}
@@ -0,0 +1,113 @@
+import {
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1Prompt,
+  LanguageModelV1StreamPart,
+  simulateReadableStream,
+} from 'ai';
+
+type FinishReason = Awaited<ReturnType<LanguageModelV1['doGenerate']>>['finishReason'];
+
+// Flatten the SDK prompt into plain role/content chat messages (text parts only)
+export function promptToChatMessages(prompt: LanguageModelV1Prompt): Array<{ role: string; content: string }> {
+  return prompt.map(message => {
+    if (message.role === 'system') {
+      return { role: 'system', content: message.content };
+    }
+
+    const content = (message.content as any[])
+      .map(part => {
+        if (part.type === 'text') return part.text;
+        if (part.type === 'tool-result') return JSON.stringify(part.result);
+        return '';
+      })
+      .join('');
+
+    return { role: message.role === 'tool' ? 'user' : message.role, content };
+  });
+}
+
+function mapFinishReason(reason: string | null | undefined): FinishReason {
+  switch (reason) {
+    case 'stop': return 'stop';
+    case 'length': return 'length';
+    case 'content_filter': return 'content-filter';
+    case 'tool_calls': return 'tool-calls';
+    default: return 'unknown';
+  }
+}
+
+// Minimal LanguageModelV1 for any server speaking the OpenAI chat completions API
+// (Ollama, LM Studio, vLLM, llama.cpp server, ...). Tool calling is not supported.
+export class OpenAICompatibleChatModel implements LanguageModelV1 {
+  readonly specificationVersion = 'v1' as const;
+  readonly provider = 'openai-compatible';
+  readonly defaultObjectGenerationMode = 'json' as const;
+
+  constructor(
+    readonly modelId: string,
+    private baseUrl: string,
+    private apiKey?: string
+  ) {}
+
+  async doGenerate(options: LanguageModelV1CallOptions) {
+    const messages = promptToChatMessages(options.prompt);
+    const body: Record<string, any> = {
+      model: this.modelId,
+      messages,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      top_p: options.topP,
+      stop: options.stopSequences,
+      seed: options.seed,
+    };
+
+    if (options.mode.type === 'object-json') {
+      body.response_format = { type: 'json_object' };
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: { ...headers, ...(options.headers as Record<string, string>) },
+      body: JSON.stringify(body),
+      signal: options.abortSignal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`OpenAI-compatible endpoint error: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    const choice = data.choices?.[0];
+
+    return {
+      text: choice?.message?.content ?? '',
+      finishReason: mapFinishReason(choice?.finish_reason),
+      usage: {
+        promptTokens: data.usage?.prompt_tokens ?? NaN,
+        completionTokens: data.usage?.completion_tokens ?? NaN,
+      },
+      rawCall: { rawPrompt: messages, rawSettings: body },
+    };
+  }
+
+  // Streams the completed response as a single delta; good enough for local development
+  async doStream(options: LanguageModelV1CallOptions) {
+    const result = await this.doGenerate(options);
+    const chunks: LanguageModelV1StreamPart[] = [
+      { type: 'text-delta', textDelta: result.text },
+      { type: 'finish', finishReason: result.finishReason, usage: result.usage },
+    ];
+
+    return {
+      stream: simulateReadableStream({ chunks, initialDelayInMs: null, chunkDelayInMs: null }),
+      rawCall: result.rawCall,
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1StreamPart,
+  simulateReadableStream,
+} from 'ai';
+import { promptToChatMessages } from './openai-compatible';
+
+// Deterministic model for tests and offline runs: the same prompt always yields the same text.
+// Object generation gets "{}" so callers exercise their schema/fallback paths.
+export class StubChatModel implements LanguageModelV1 {
+  readonly specificationVersion = 'v1' as const;
+  readonly provider = 'stub';
+  readonly defaultObjectGenerationMode = 'json' as const;
+
+  constructor(readonly modelId: string = 'echo') {}
+
+  private respond(options: LanguageModelV1CallOptions): string {
+    if (options.mode.type !== 'regular') {
+      return '{}';
+    }
+
+    const messages = promptToChatMessages(options.prompt);
+    const lastUser = [...messages].reverse().find(message => message.role === 'user');
+    const excerpt = (lastUser?.content || '').replace(/\s+/g, ' ').trim().slice(0, 120);
+    return `[stub:${this.modelId}] ${excerpt}`;
+  }
+
+  async doGenerate(options: LanguageModelV1CallOptions) {
+    const text = this.respond(options);
+    return {
+      text,
+      finishReason: 'stop' as const,
+      usage: { promptTokens: 0, completionTokens: text.split(/\s+/).length },
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+    };
+  }
+
+  async doStream(options: LanguageModelV1CallOptions) {
+    const result = await this.doGenerate(options);
+    const chunks: LanguageModelV1StreamPart[] = [
+      ...result.text.split(/(?<= )/).map(word => ({ type: 'text-delta' as const, textDelta: word })),
+      { type: 'finish', finishReason: result.finishReason, usage: result.usage },
+    ];
+
+    return {
+      stream: simulateReadableStream({ chunks, initialDelayInMs: null, chunkDelayInMs: null }),
+      rawCall: result.rawCall,
+    };
+  }
+}
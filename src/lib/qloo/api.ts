@@ -11,6 +11,9 @@ import { trackApiCall, trackError } from '@/lib/utils/debug';
 import { getDatabaseService } from '@/lib/database/database';
 import { parseQlooResponse, ParsingLevel, getParsingLevelFromIntent } from './parser';
 import { buildLocationFilter, extractLocationFromQuery } from './location';
+import { getQlooTransport } from './transport';
+import { appendRange, supportsLocationFilter, validateInsightsParameters } from './insights-params';
+import { entityTypeFallbackKeywords, tagParentTypes } from './entity-types';
 
 // Base API call function with timeout and error handling
 async function qlooApiCall<T>(
@@ -25,22 +28,16 @@ async function qlooApiCall<T>(
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), config.timeoutMs);
 
-  try {
-    const url = `${config.qlooApiUrl}${endpoint}`;
-    const headers: Record<string, string> = {
-      'X-API-Key': config.qlooApiKey,
-    };
+  const transport = getQlooTransport();
 
-    if (method === 'POST') {
-      headers['Content-Type'] = 'application/json';
-    }
-
-    const response = await fetch(url, {
+  try {
+    const response = await transport.request({
+      endpoint,
       method,
-      headers,
-      body: body ? JSON.stringify(body) : undefined,
+      body,
       signal: controller.signal,
     });
+    const url = response.url;
 
     clearTimeout(timeoutId);
 
@@ -60,7 +57,7 @@ async function qlooApiCall<T>(
       );
       
       const duration = Date.now() - startTime;
-      trackApiCall(`${method} ${endpoint}`, { url, headers, body }, duration, false, errorText);
+      trackApiCall(`${method} ${endpoint}`, { url, transport: transport.name, body }, duration, false, errorText);
       throw error;
     }
 
@@ -71,7 +68,10 @@ async function qlooApiCall<T>(
     let parsedData;
     const responseSize = JSON.stringify(data).length;
     
-    if (responseSize > 50000) {
+    if (endpoint.startsWith('/v2/audiences')) {
+      // The audience taxonomy has no entities, so entity parsing would only throw it away
+      parsedData = data;
+    } else if (responseSize > 50000) {
       // Very large response - use minimal parsing
       parsedData = parseQlooResponse(data, 'minimal');
       console.log('📏 Large response detected, using minimal parsing:', responseSize, 'bytes');
@@ -87,7 +87,7 @@ async function qlooApiCall<T>(
     }
 
     // Track successful API call
-    trackApiCall(`${method} ${endpoint}`, { url, headers, body }, processingTime, true);
+    trackApiCall(`${method} ${endpoint}`, { url, transport: transport.name, body }, processingTime, true);
 
     // Log API call to database if session is available
     if (sessionId) {
@@ -129,7 +129,7 @@ async function qlooApiCall<T>(
 
     if (error instanceof QlooAgentError) {
       const duration = Date.now() - startTime;
-      trackApiCall(`${method} ${endpoint}`, { url: `${config.qlooApiUrl}${endpoint}` }, duration, false, error.message);
+      trackApiCall(`${method} ${endpoint}`, { endpoint, transport: transport.name }, duration, false, error.message);
       throw error;
     }
 
@@ -139,7 +139,7 @@ async function qlooApiCall<T>(
         'TIMEOUT_ERROR'
       );
       const duration = Date.now() - startTime;
-      trackApiCall(`${method} ${endpoint}`, { url: `${config.qlooApiUrl}${endpoint}` }, duration, false, 'Timeout');
+      trackApiCall(`${method} ${endpoint}`, { endpoint, transport: transport.name }, duration, false, 'Timeout');
       throw timeoutError;
     }
 
@@ -149,7 +149,7 @@ async function qlooApiCall<T>(
       { originalError: error }
     );
     const duration = Date.now() - startTime;
-    trackApiCall(`${method} ${endpoint}`, { url: `${config.qlooApiUrl}${endpoint}` }, duration, false, error instanceof Error ? error.message : 'Unknown error');
+    trackApiCall(`${method} ${endpoint}`, { endpoint, transport: transport.name }, duration, false, error instanceof Error ? error.message : 'Unknown error');
     throw networkError;
   }
 }
@@ -163,6 +163,11 @@ export async function getInsights(
   const endpoint = '/v2/insights';
   const method = 'GET';
   
+  // Drop whatever the entity type can't take before building the request
+  const validation = validateInsightsParameters(params);
+  validation.warnings.forEach(warning => console.log('⚠️ Insights parameter issue:', warning));
+  params = validation.params;
+  
   console.log('🔍 Calling Qloo Insights API with parameters:', params);
   
   // Build query parameters for GET request
@@ -178,6 +183,12 @@ export async function getInsights(
   } else {
     queryParams.append('take', '3');
   }
+
+  if (params.offset !== undefined) {
+    queryParams.append('offset', params.offset.toString());
+  } else if (params.page !== undefined) {
+    queryParams.append('page', params.page.toString());
+  }
   
   if (params.query) {
     queryParams.append('reason', params.query);
@@ -187,10 +198,40 @@ export async function getInsights(
     queryParams.append('feature.explainability', 'true');
   }
 
-  // Add location filter if provided
-  if (params.location?.city) {
-    queryParams.append('filter.location.query', params.location.city);
-    console.log('📍 Using location filter:', params.location.city);
+  // Add location filter if provided: WKT wins over geohash, geohash over the city name
+  if (params.location?.wkt) {
+    queryParams.append('filter.location', params.location.wkt);
+    console.log('📍 Using WKT location filter:', params.location.wkt);
+  } else if (params.location?.geohash) {
+    queryParams.append('filter.geohash', params.location.geohash);
+    console.log('📍 Using geohash location filter:', params.location.geohash);
+  } else if (params.location?.city) {
+    // Only places can be filtered by location; other types are biased toward it instead
+    const locationParam = supportsLocationFilter(params.entityType) ? 'filter.location.query' : 'signal.location.query';
+    queryParams.append(locationParam, params.location.city);
+    console.log('📍 Using location', locationParam, params.location.city);
+  }
+
+  if (params.location?.radius && supportsLocationFilter(params.entityType)) {
+    queryParams.append('filter.location.radius', params.location.radius.toString());
+  }
+
+  // Numeric range filters
+  appendRange(queryParams, 'filter.price_level', params.priceLevel);
+  appendRange(queryParams, 'filter.rating', params.rating);
+  appendRange(queryParams, 'filter.release_year', params.releaseYear);
+  appendRange(queryParams, 'filter.popularity', params.popularity);
+
+  if (params.biasTrends) {
+    queryParams.append('bias.trends', params.biasTrends);
+  }
+
+  // Demographic signals
+  if (params.demographics?.age) {
+    queryParams.append('signal.demographics.age', params.demographics.age);
+  }
+  if (params.demographics?.gender) {
+    queryParams.append('signal.demographics.gender', params.demographics.gender);
   }
 
   // Add signal entities if provided (these should be valid entity IDs)
@@ -225,6 +266,12 @@ export async function getInsights(
     }
   }
 
+  // Add audience signals if provided
+  if (params.signalAudiences && params.signalAudiences.length > 0) {
+    queryParams.append('signal.interests.audiences', params.signalAudiences.join(','));
+    console.log('👥 Using signal audiences:', params.signalAudiences);
+  }
+
   // Add filter tags if provided (these are category filters like 'fashion', 'tech', etc.)
   if (params.filterTags && params.filterTags.length > 0) {
     // Join filter tags with commas
@@ -232,6 +279,19 @@ export async function getInsights(
     console.log('🏷️ Using filter tags:', params.filterTags);
   }
 
+  // Exclusions: what the persona dislikes and what the user already rejected
+  const excludeTagIds = Array.from(new Set((params.excludeTags || []).filter(tagId => tagId && tagId.startsWith('urn:tag:'))));
+  if (excludeTagIds.length > 0) {
+    queryParams.append('filter.exclude.tags', excludeTagIds.join(','));
+    console.log('🚫 Excluding tags:', excludeTagIds);
+  }
+
+  const excludeEntityIds = Array.from(new Set((params.excludeEntities || []).filter(Boolean)));
+  if (excludeEntityIds.length > 0) {
+    queryParams.append('filter.exclude.entities', excludeEntityIds.join(','));
+    console.log('🚫 Excluding entities:', excludeEntityIds);
+  }
+
   const startTime = Date.now();
   const fullEndpoint = `${endpoint}?${queryParams.toString()}`;
   
@@ -377,7 +437,7 @@ export async function getTags(
   });
 
   if (entityType) {
-    searchParams.append('filter.parents.types', entityType);
+    searchParams.append('filter.parents.types', tagParentTypes(entityType).join(','));
   }
 
   return qlooApiCall<QlooTagsResponse>(`/v2/tags?${searchParams}`, 'GET', undefined, sessionId, parsingLevel);
@@ -403,7 +463,7 @@ export async function searchTagsWithTolerance(
       });
 
       if (entityType) {
-        searchParams.append('filter.parents.types', entityType);
+        searchParams.append('filter.parents.types', tagParentTypes(entityType).join(','));
       }
 
       const response = await qlooApiCall<QlooTagsResponse>(
@@ -468,7 +528,7 @@ export async function searchTagsEnhanced(
       });
 
       // Filter results manually for the entity type
-      const fallbackQueries = getEntitySpecificFallbacks(entityType);
+      const fallbackQueries = entityTypeFallbackKeywords(entityType);
       let filteredResults = broaderResults.data?.results || [];
 
       if (fallbackQueries.length > 0) {
@@ -507,20 +567,6 @@ export async function searchTagsEnhanced(
   }
 }
 
-// Helper function for entity-specific fallback queries
-function getEntitySpecificFallbacks(entityType: string): string[] {
-  const fallbacks: Record<string, string[]> = {
-    'urn:entity:brand': ['brand', 'company', 'product', 'fashion', 'luxury', 'premium'],
-    'urn:entity:place': ['restaurant', 'cafe', 'bar', 'hotel', 'museum', 'venue', 'location'],
-    'urn:entity:movie': ['film', 'cinema', 'movie', 'action', 'comedy', 'drama'],
-    'urn:entity:videogame': ['game', 'video game', 'gaming', 'rpg', 'fps', 'strategy'],
-    'urn:entity:artist': ['musician', 'band', 'singer', 'rapper', 'rock', 'pop'],
-    'urn:entity:book': ['book', 'novel', 'fiction', 'non-fiction', 'literature'],
-  };
-
-  return fallbacks[entityType] || [];
-}
-
 // Utility function to determine which API to call based on parameters
 export function determineTargetAPI(params: QlooParameters): 'GETINSIGHTS' | 'GETENTITY' | 'GETTAGS' {
   const { targetAPI, query } = params;
@@ -555,36 +601,12 @@ export function determineTargetAPI(params: QlooParameters): 'GETINSIGHTS' | 'GET
 // Get tag types for an entity type (step 1)
 export async function getTagTypes(entityType: string): Promise<any> {
   try {
-    const url = `https://hackathon.api.qloo.com/v2/tags/types`;
     const params = new URLSearchParams();
-    if (entityType) { params.append('filter.parents.types', entityType); }
+    if (entityType) { params.append('filter.parents.types', tagParentTypes(entityType).join(',')); }
     
-    console.log('🔑 Tag Types API Key check:', {
-      hasKey: !!config.qlooApiKey,
-      keyLength: config.qlooApiKey ? config.qlooApiKey.length : 0,
-      keyPrefix: config.qlooApiKey ? config.qlooApiKey.substring(0, 10) + '...' : 'none',
-      url: url,
-      params: params.toString()
-    });
-
-    const response = await fetch(`${url}?${params.toString()}`, {
-      method: 'GET',
-      headers: {
-        'accept': 'application/json',
-        'X-Api-Key': config.qlooApiKey
-      }
-    });
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new QlooAgentError(
-        `Tag types search failed: ${response.status} ${response.statusText} - ${errorText}`,
-        'API_ERROR',
-        { status: response.status, errorText }
-      );
-    }
-    const data = await response.json();
-    console.log('🏷️ Tag types results:', data);
-    return data;
+    const response = await qlooApiCall<any>(`/v2/tags/types?${params.toString()}`, 'GET');
+    console.log('🏷️ Tag types results:', response.data);
+    return response.data;
   } catch (error) {
     console.error('🏷️ Tag types search error:', error);
     throw error;
@@ -594,37 +616,13 @@ export async function getTagTypes(entityType: string): Promise<any> {
 // Search for tags using the correct format (step 2)
 export async function searchTags(query: string, entityType?: string): Promise<any> {
   try {
-    const url = `https://hackathon.api.qloo.com/v2/tags`;
     const params = new URLSearchParams();
     if (query) { params.append('query', query); }
-    if (entityType) { params.append('filter.parents.types', entityType); }
+    if (entityType) { params.append('filter.parents.types', tagParentTypes(entityType).join(',')); }
     
-    console.log('🔑 Tags API Key check:', {
-      hasKey: !!config.qlooApiKey,
-      keyLength: config.qlooApiKey ? config.qlooApiKey.length : 0,
-      keyPrefix: config.qlooApiKey ? config.qlooApiKey.substring(0, 10) + '...' : 'none',
-      url: url,
-      params: params.toString()
-    });
-
-    const response = await fetch(`${url}?${params.toString()}`, {
-      method: 'GET',
-      headers: {
-        'accept': 'application/json',
-        'X-Api-Key': config.qlooApiKey
-      }
-    });
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new QlooAgentError(
-        `Tags search failed: ${response.status} ${response.statusText} - ${errorText}`,
-        'API_ERROR',
-        { status: response.status, errorText }
-      );
-    }
-    const data = await response.json();
-    console.log('🏷️ Tags search results:', data);
-    return data;
+    const response = await qlooApiCall<any>(`/v2/tags?${params.toString()}`, 'GET');
+    console.log('🏷️ Tags search results:', response.data);
+    return response.data;
   } catch (error) {
     console.error('🏷️ Tags search error:', error);
     throw error;
@@ -633,7 +631,7 @@ export async function searchTags(query: string, entityType?: string): Promise<an
 
 // GETAUDIENCETYPES: Get available audience types
 export async function getAudienceTypes(): Promise<ApiResponse<any>> {
-  const endpoint = '/audience-types';
+  const endpoint = '/v2/audiences/types';
   const method = 'GET';
   
   console.log('🔍 Calling Qloo Audience Types API');
@@ -655,7 +653,7 @@ export async function getAudienceTypes(): Promise<ApiResponse<any>> {
 
 // GETAUDIENCES: Get audiences for a specific parent type
 export async function getAudiences(parentType: string): Promise<ApiResponse<any>> {
-  const endpoint = '/audiences';
+  const endpoint = '/v2/audiences';
   const method = 'GET';
   
   console.log('🔍 Calling Qloo Audiences API with parent type:', parentType);
@@ -683,7 +681,8 @@ export async function getAudiences(parentType: string): Promise<ApiResponse<any>
 export async function getAllAudienceCategories(): Promise<Record<string, any[]>> {
   const categories: Record<string, any[]> = {};
   
-  const audienceTypes = [
+  // Prefer the live list of parent types; fall back to the known ones
+  let audienceTypes = [
     'urn:audience:communities',
     'urn:audience:global_issues',
     'urn:audience:hobbies_and_interests',
@@ -695,13 +694,20 @@ export async function getAllAudienceCategories(): Promise<Record<string, any[]>>
     'urn:audience:professional_area',
     'urn:audience:spending_habits'
   ];
+  try {
+    const typesResponse = await getAudienceTypes();
+    const liveTypes = typesResponse.data?.results?.audience_types || typesResponse.data?.audience_types;
+    if (Array.isArray(liveTypes) && liveTypes.length > 0) {
+      audienceTypes = liveTypes;
+    }
+  } catch (error) {
+    console.error('❌ Failed to get audience types, using defaults:', error);
+  }
   
   for (const type of audienceTypes) {
     try {
       const response = await getAudiences(type);
-      if (response.data && 'audiences' in response.data) {
-        categories[type] = response.data.audiences || [];
-      }
+      categories[type] = response.data?.results?.audiences || response.data?.audiences || [];
     } catch (error) {
       console.error(`❌ Failed to get audiences for ${type}:`, error);
       categories[type] = [];
@@ -725,24 +731,12 @@ export async function getQlooTags(params: {
   try {
     console.log('🔍 Calling Qloo Tags API with parameters:', params);
     
-    const url = new URL(`${config.qlooApiUrl}/tags`);
-    url.searchParams.append('tagType', params.tagType);
-    if (params.query) url.searchParams.append('query', params.query);
-    if (params.limit) url.searchParams.append('limit', params.limit.toString());
-
-    const response = await fetch(url.toString(), {
-      method: 'GET',
-      headers: {
-        'x-api-key': config.qlooApiKey,
-        'Content-Type': 'application/json',
-      },
-    });
+    const queryParams = new URLSearchParams();
+    if (params.tagType && params.tagType !== 'all') queryParams.append('filter.tag.types', params.tagType);
+    if (params.query) queryParams.append('query', params.query);
+    if (params.limit) queryParams.append('take', params.limit.toString());
 
-    const data = await response.json();
-    
-    if (!response.ok) {
-      throw new Error(`Qloo API error: ${response.status} ${response.statusText} - ${JSON.stringify(data)}`);
-    }
+    const { data } = await qlooApiCall<any>(`/v2/tags?${queryParams.toString()}`, 'GET');
 
     console.log('✅ Tags API response received');
     return { success: true, data };
@@ -770,18 +764,7 @@ export async function getDemographics(entities: string[], tags?: string[]): Prom
       params.append('signal.interests.tags', tags.join(','));
     }
 
-    const response = await fetch(`${config.qlooApiUrl}/insights?${params.toString()}`, {
-      headers: {
-        'x-api-key': config.qlooApiKey,
-        'Content-Type': 'application/json'
-      }
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const data = await response.json();
+    const { data } = await qlooApiCall<any>(`/v2/insights?${params.toString()}`, 'GET');
     return { success: true, data };
   } catch (error) {
     console.error('❌ Failed to fetch demographics:', error);
@@ -0,0 +1,204 @@
+// Canonical registry of Qloo entity types. Config, prompts, parameter extraction,
+// the parser and the UI all read entity types from here instead of keeping their own lists.
+
+// Canonical URNs, the values sent to Qloo in filter.type; everything else (e.g. "video_game")
+// is an alias. Order matters: guessEntityType returns the first type with a matching keyword,
+// so specific types come before generic ones
+export const ENTITY_TYPE_URNS = [
+  'urn:entity:movie',
+  'urn:entity:brand',
+  'urn:entity:artist',
+  'urn:entity:book',
+  'urn:entity:place',
+  'urn:entity:destination',
+  'urn:entity:person',
+  'urn:entity:podcast',
+  'urn:entity:tv_show',
+  'urn:entity:videogame'
+] as const;
+
+export type EntityType = typeof ENTITY_TYPE_URNS[number];
+
+// Insights filters that only apply to some entity types
+export type InsightsFilter = 'location' | 'priceLevel' | 'rating' | 'releaseYear';
+
+export interface EntityTypeDefinition {
+  urn: EntityType;
+  aliases: string[]; // Other spellings seen from the LLM, older code and the API
+  displayName: string;
+  pluralName: string;
+  icon: string;
+  insightsFilters: InsightsFilter[];
+  tagParentTypes: string[]; // Sent as filter.parents.types when searching tags for this type
+  keywords: string[]; // Words in a query or interest name that point at this type
+  fallbackKeywords: string[]; // Broad tag searches when the user's keywords find nothing
+}
+
+export const ENTITY_TYPES: Record<EntityType, EntityTypeDefinition> = {
+  'urn:entity:movie': {
+    urn: 'urn:entity:movie',
+    aliases: ['movies', 'film', 'films'],
+    displayName: 'Movie',
+    pluralName: 'Movies',
+    icon: '🎬',
+    insightsFilters: ['rating', 'releaseYear'],
+    tagParentTypes: ['urn:entity:movie'],
+    keywords: ['movie', 'film', 'cinema'],
+    fallbackKeywords: ['film', 'cinema', 'movie', 'action', 'comedy', 'drama']
+  },
+  'urn:entity:brand': {
+    urn: 'urn:entity:brand',
+    aliases: ['brands', 'company'],
+    displayName: 'Brand',
+    pluralName: 'Brands',
+    icon: '🏢',
+    insightsFilters: [],
+    tagParentTypes: ['urn:entity:brand'],
+    keywords: ['brand', 'company', 'product'],
+    fallbackKeywords: ['brand', 'company', 'product', 'fashion', 'luxury', 'premium']
+  },
+  'urn:entity:artist': {
+    urn: 'urn:entity:artist',
+    aliases: ['artists', 'music', 'musician'],
+    displayName: 'Artist',
+    pluralName: 'Artists',
+    icon: '🎵',
+    insightsFilters: [],
+    tagParentTypes: ['urn:entity:artist'],
+    keywords: ['artist', 'musician', 'band', 'singer', 'music'],
+    fallbackKeywords: ['musician', 'band', 'singer', 'rapper', 'rock', 'pop']
+  },
+  'urn:entity:book': {
+    urn: 'urn:entity:book',
+    aliases: ['books'],
+    displayName: 'Book',
+    pluralName: 'Books',
+    icon: '📚',
+    insightsFilters: [],
+    tagParentTypes: ['urn:entity:book'],
+    keywords: ['book', 'novel', 'literature'],
+    fallbackKeywords: ['book', 'novel', 'fiction', 'non-fiction', 'literature']
+  },
+  'urn:entity:place': {
+    urn: 'urn:entity:place',
+    aliases: ['places', 'restaurant', 'venue'],
+    displayName: 'Place',
+    pluralName: 'Places',
+    icon: '📍',
+    insightsFilters: ['location', 'priceLevel', 'rating'],
+    tagParentTypes: ['urn:entity:place'],
+    keywords: ['restaurant', 'cafe', 'food', 'pizza', 'dining', 'museum', 'hotel', 'store', 'place'],
+    fallbackKeywords: ['restaurant', 'cafe', 'bar', 'hotel', 'museum', 'venue', 'location']
+  },
+  'urn:entity:destination': {
+    urn: 'urn:entity:destination',
+    aliases: ['destinations'],
+    displayName: 'Destination',
+    pluralName: 'Destinations',
+    icon: '✈️',
+    insightsFilters: ['location'],
+    tagParentTypes: ['urn:entity:destination'],
+    keywords: ['destination', 'travel', 'city', 'country'],
+    fallbackKeywords: ['travel', 'city', 'beach', 'island', 'nature', 'culture']
+  },
+  'urn:entity:person': {
+    urn: 'urn:entity:person',
+    aliases: ['people', 'persons'],
+    displayName: 'Person',
+    pluralName: 'People',
+    icon: '👤',
+    insightsFilters: [],
+    tagParentTypes: ['urn:entity:person'],
+    keywords: ['person', 'celebrity', 'actor', 'author', 'writer'],
+    fallbackKeywords: ['actor', 'author', 'athlete', 'celebrity']
+  },
+  'urn:entity:podcast': {
+    urn: 'urn:entity:podcast',
+    aliases: ['podcasts'],
+    displayName: 'Podcast',
+    pluralName: 'Podcasts',
+    icon: '🎙️',
+    insightsFilters: [],
+    tagParentTypes: ['urn:entity:podcast'],
+    keywords: ['podcast'],
+    fallbackKeywords: ['podcast', 'interview', 'news', 'comedy', 'true crime']
+  },
+  'urn:entity:tv_show': {
+    urn: 'urn:entity:tv_show',
+    aliases: ['urn:entity:tvshow', 'tvshow', 'tv show', 'tv shows', 'tv'],
+    displayName: 'TV Show',
+    pluralName: 'TV Shows',
+    icon: '📺',
+    insightsFilters: ['rating', 'releaseYear'],
+    tagParentTypes: ['urn:entity:tv_show'],
+    keywords: ['tv', 'show', 'series'],
+    fallbackKeywords: ['series', 'drama', 'comedy', 'reality', 'documentary']
+  },
+  'urn:entity:videogame': {
+    urn: 'urn:entity:videogame',
+    aliases: ['urn:entity:video_game', 'video_game', 'video game', 'video games', 'game'],
+    displayName: 'Video Game',
+    pluralName: 'Video Games',
+    icon: '🎮',
+    insightsFilters: ['releaseYear'],
+    tagParentTypes: ['urn:entity:videogame'],
+    keywords: ['video game', 'game', 'gaming'],
+    fallbackKeywords: ['game', 'video game', 'gaming', 'rpg', 'fps', 'strategy']
+  }
+};
+
+export const ENTITY_TYPE_DEFINITIONS: EntityTypeDefinition[] = ENTITY_TYPE_URNS.map(urn => ENTITY_TYPES[urn]);
+
+// Canonical URN for a URN, alias, short name ("tv_show") or display name; undefined when unknown
+export function normalizeEntityType(value?: string | null): EntityType | undefined {
+  if (!value || typeof value !== 'string') return undefined;
+  const key = value.trim().toLowerCase();
+
+  return ENTITY_TYPE_DEFINITIONS.find(definition =>
+    definition.urn === key ||
+    definition.urn.slice('urn:entity:'.length) === key ||
+    definition.displayName.toLowerCase() === key ||
+    definition.pluralName.toLowerCase() === key ||
+    definition.aliases.includes(key)
+  )?.urn;
+}
+
+export function getEntityTypeDefinition(value?: string | null): EntityTypeDefinition | undefined {
+  const urn = normalizeEntityType(value);
+  return urn ? ENTITY_TYPES[urn] : undefined;
+}
+
+// First entity type whose keywords appear in free text such as a query or interest name
+export function guessEntityType(text?: string | null): EntityType | undefined {
+  if (!text) return undefined;
+  const textLower = text.toLowerCase();
+  return ENTITY_TYPE_DEFINITIONS.find(definition => definition.keywords.some(keyword => textLower.includes(keyword)))?.urn;
+}
+
+export function supportsInsightsFilter(entityType: string | undefined, filter: InsightsFilter): boolean {
+  return !!getEntityTypeDefinition(entityType)?.insightsFilters.includes(filter);
+}
+
+export function entityTypeLabel(entityType?: string | null, plural = false): string {
+  const definition = getEntityTypeDefinition(entityType);
+  if (definition) return plural ? definition.pluralName : definition.displayName;
+  return entityType ? entityType.replace('urn:entity:', '') : 'Recommendation';
+}
+
+export function entityTypeIcon(entityType?: string | null): string {
+  return getEntityTypeDefinition(entityType)?.icon || '🎯';
+}
+
+// Types of tag that can describe entities of this type, for filter.parents.types
+export function tagParentTypes(entityType: string): string[] {
+  return getEntityTypeDefinition(entityType)?.tagParentTypes || [entityType];
+}
+
+export function entityTypeFallbackKeywords(entityType: string): string[] {
+  return getEntityTypeDefinition(entityType)?.fallbackKeywords || [];
+}
+
+// One line per type for LLM prompts, so the model always sees the canonical URNs
+export function describeEntityTypesForPrompt(): string {
+  return ENTITY_TYPE_DEFINITIONS.map(definition => `${definition.urn} (${definition.pluralName.toLowerCase()})`).join(', ');
+}
@@ -0,0 +1,114 @@
+// Qloo Insights explainability (feature.explainability=true): which of the request's signals
+// pulled each recommendation in, and how strongly. No server imports so the UI can use the types.
+
+export type ExplanationSignalKind = 'entity' | 'tag' | 'audience';
+
+// Persona interest that produced a signal ID
+export interface SignalSource {
+  interestId?: string;
+  interestName: string;
+  category?: string;
+}
+
+export interface ExplanationContribution {
+  kind: ExplanationSignalKind;
+  id: string;
+  name?: string;
+  score: number; // As reported by Qloo
+  share: number; // Fraction of everything that explained this recommendation, 0-1
+  source?: SignalSource; // Missing for signals that came from the request rather than the persona
+}
+
+export interface RecommendationExplanation {
+  entityId: string;
+  contributions: ExplanationContribution[]; // Strongest first
+}
+
+// Explainability keys look like "signal.interests.entities" or "signal.demographics.audiences"
+const SIGNAL_KINDS: Array<[RegExp, ExplanationSignalKind]> = [
+  [/audience/, 'audience'],
+  [/tag/, 'tag'],
+  [/entit/, 'entity']
+];
+
+export const SIGNAL_KIND_ICONS: Record<ExplanationSignalKind, string> = {
+  entity: '🎯',
+  tag: '🏷️',
+  audience: '👥'
+};
+
+function toContributions(kind: ExplanationSignalKind, value: any): Array<Omit<ExplanationContribution, 'share'>> {
+  // Either a list of { entity_id | tag_id | audience_id | id, name?, score } or a map of ID -> score
+  const items: any[] = Array.isArray(value)
+    ? value
+    : value && typeof value === 'object' ? Object.entries(value).map(([id, score]) => ({ id, score })) : [];
+
+  return items
+    .map(item => ({
+      kind,
+      id: String(item?.entity_id || item?.tag_id || item?.audience_id || item?.id || ''),
+      name: typeof item?.name === 'string' ? item.name : undefined,
+      score: Number(item?.score ?? item?.weight ?? item?.affinity ?? 0)
+    }))
+    .filter(contribution => contribution.id && Number.isFinite(contribution.score) && contribution.score > 0);
+}
+
+// Explanation for one raw Insights entity, from its own query.explainability or the response-level map
+export function parseExplainability(entity: any, explanations?: Record<string, any>): RecommendationExplanation | undefined {
+  const entityId = entity?.entity_id || entity?.id;
+  const raw = entity?.query?.explainability || entity?.explainability || (entityId ? explanations?.[entityId] : undefined);
+  if (!raw || typeof raw !== 'object') return undefined;
+
+  const contributions = Object.entries(raw).flatMap(([key, value]) => {
+    const kind = SIGNAL_KINDS.find(([pattern]) => pattern.test(key))?.[1];
+    return kind ? toContributions(kind, value) : [];
+  });
+  if (contributions.length === 0) return undefined;
+
+  const total = contributions.reduce((sum, contribution) => sum + contribution.score, 0);
+  return {
+    entityId: String(entityId),
+    contributions: contributions
+      .map(contribution => ({ ...contribution, share: contribution.score / total }))
+      .sort((a, b) => b.score - a.score)
+  };
+}
+
+// Link each contribution to the persona interest whose signal it was
+export function attachSignalSources(
+  explanation: RecommendationExplanation,
+  sources: Record<string, SignalSource> = {}
+): RecommendationExplanation {
+  return {
+    ...explanation,
+    contributions: explanation.contributions.map(contribution =>
+      sources[contribution.id] ? { ...contribution, source: sources[contribution.id] } : contribution
+    )
+  };
+}
+
+// Persona interests ranked by their average share across a set of recommendations
+export function summarizeDrivers(explanations: RecommendationExplanation[]): Array<{ interestName: string; share: number }> {
+  const shares = new Map<string, number>();
+  explanations.forEach(explanation => explanation.contributions.forEach(contribution => {
+    if (contribution.source) {
+      const name = contribution.source.interestName;
+      shares.set(name, (shares.get(name) || 0) + contribution.share);
+    }
+  }));
+
+  return Array.from(shares.entries())
+    .map(([interestName, share]) => ({ interestName, share: explanations.length > 0 ? share / explanations.length : 0 }))
+    .sort((a, b) => b.share - a.share);
+}
+
+// "Your interest in Radiohead", the signal's own name, or a readable tail of its ID
+export function describeContribution(contribution: ExplanationContribution): string {
+  if (contribution.source) {
+    return `Your interest in ${contribution.source.interestName}`;
+  }
+  if (contribution.name) {
+    return contribution.name;
+  }
+  return contribution.id.split(':').pop()?.replace(/_/g, ' ') || contribution.id;
+}
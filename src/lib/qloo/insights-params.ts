@@ -0,0 +1,160 @@
+import { AgeBucket, NumericRange, QlooParameters } from '@/types';
+import { InsightsFilter, normalizeEntityType, supportsInsightsFilter } from './entity-types';
+
+export interface InsightsParameterValidation {
+  params: QlooParameters;
+  warnings: string[];
+}
+
+// Registry filter that each entity-specific parameter needs; parameters not listed here work for every type
+const PARAMETER_FILTERS: Partial<Record<keyof QlooParameters, InsightsFilter>> = {
+  priceLevel: 'priceLevel',
+  rating: 'rating',
+  releaseYear: 'releaseYear',
+};
+
+const RANGE_BOUNDS: Record<'priceLevel' | 'rating' | 'releaseYear' | 'popularity', [number, number]> = {
+  priceLevel: [1, 4],
+  rating: [0, 5],
+  releaseYear: [1800, new Date().getFullYear() + 5],
+  popularity: [0, 1],
+};
+
+const AGE_BUCKETS: AgeBucket[] = ['35_and_younger', '36_to_55', '55_and_older'];
+const GENDERS = ['male', 'female'];
+const BIAS_LEVELS = ['off', 'low', 'medium', 'high'];
+const WKT_PATTERN = /^(POINT|POLYGON|MULTIPOLYGON)\s*\(.+\)$/i;
+const GEOHASH_PATTERN = /^[0-9b-hjkmnp-z]{1,12}$/i;
+const MAX_TAKE = 50;
+
+// Location filters only narrow places; other types are located through signal.location instead
+export function supportsLocationFilter(entityType?: string): boolean {
+  return !entityType || supportsInsightsFilter(entityType, 'location');
+}
+
+// Drop every Insights parameter that is malformed, out of range or not supported by the entity type
+export function validateInsightsParameters(params: QlooParameters): InsightsParameterValidation {
+  const warnings: string[] = [];
+  const validated: QlooParameters = { ...params };
+
+  // Older spellings such as urn:entity:tvshow are sent as the canonical URN
+  const entityType = normalizeEntityType(params.entityType);
+  if (entityType) {
+    validated.entityType = entityType;
+  } else if (params.entityType) {
+    warnings.push(`${params.entityType} is not a known entity type`);
+  }
+
+  for (const [key, filter] of Object.entries(PARAMETER_FILTERS) as Array<[keyof QlooParameters, InsightsFilter]>) {
+    if (validated[key] !== undefined && entityType && !supportsInsightsFilter(entityType, filter)) {
+      warnings.push(`${key} is not supported for ${entityType}`);
+      delete validated[key];
+    }
+  }
+
+  for (const key of Object.keys(RANGE_BOUNDS) as Array<keyof typeof RANGE_BOUNDS>) {
+    if (validated[key]) {
+      validated[key] = validateRange(key, validated[key] as NumericRange, RANGE_BOUNDS[key], warnings);
+    }
+  }
+
+  if (validated.biasTrends && !BIAS_LEVELS.includes(validated.biasTrends)) {
+    warnings.push(`biasTrends must be one of ${BIAS_LEVELS.join(', ')}`);
+    delete validated.biasTrends;
+  }
+
+  if (validated.demographics) {
+    const { age, gender } = validated.demographics;
+    const demographics = { ...validated.demographics };
+    if (age && !AGE_BUCKETS.includes(age)) {
+      warnings.push(`demographics.age must be one of ${AGE_BUCKETS.join(', ')}`);
+      delete demographics.age;
+    }
+    if (gender && !GENDERS.includes(gender)) {
+      warnings.push(`demographics.gender must be one of ${GENDERS.join(', ')}`);
+      delete demographics.gender;
+    }
+    validated.demographics = demographics.age || demographics.gender ? demographics : undefined;
+  }
+
+  if (validated.signalAudiences) {
+    const audiences = validated.signalAudiences.filter(id => id && id.startsWith('urn:audience:'));
+    if (audiences.length < validated.signalAudiences.length) {
+      warnings.push(`${validated.signalAudiences.length - audiences.length} signalAudiences are not urn:audience: IDs`);
+    }
+    validated.signalAudiences = audiences;
+  }
+
+  if (validated.location) {
+    const location = { ...validated.location };
+    if (location.wkt && !WKT_PATTERN.test(location.wkt.trim())) {
+      warnings.push('location.wkt must be a WKT POINT, POLYGON or MULTIPOLYGON');
+      delete location.wkt;
+    }
+    if (location.geohash && !GEOHASH_PATTERN.test(location.geohash)) {
+      warnings.push('location.geohash is not a valid geohash');
+      delete location.geohash;
+    }
+    if (location.radius !== undefined && !(Number.isFinite(location.radius) && location.radius > 0)) {
+      warnings.push('location.radius must be a positive number of meters');
+      delete location.radius;
+    }
+    if ((location.wkt || location.geohash) && !supportsLocationFilter(validated.entityType)) {
+      warnings.push(`Geographic location filters are not supported for ${entityType}`);
+      delete location.wkt;
+      delete location.geohash;
+    }
+    validated.location = location;
+  }
+
+  if (validated.limit !== undefined && !(Number.isInteger(validated.limit) && validated.limit >= 1 && validated.limit <= MAX_TAKE)) {
+    warnings.push(`limit must be an integer between 1 and ${MAX_TAKE}`);
+    delete validated.limit;
+  }
+
+  if (validated.page !== undefined && !(Number.isInteger(validated.page) && validated.page >= 1)) {
+    warnings.push('page must be an integer of at least 1');
+    delete validated.page;
+  }
+
+  if (validated.offset !== undefined && !(Number.isInteger(validated.offset) && validated.offset >= 0)) {
+    warnings.push('offset must be a non-negative integer');
+    delete validated.offset;
+  }
+
+  if (validated.page !== undefined && validated.offset !== undefined) {
+    warnings.push('page and offset are exclusive, using offset');
+    delete validated.page;
+  }
+
+  return { params: validated, warnings };
+}
+
+// Appends "<name>.min" / "<name>.max" for whichever bounds are set
+export function appendRange(queryParams: URLSearchParams, name: string, range?: NumericRange) {
+  if (range?.min !== undefined) {
+    queryParams.append(`${name}.min`, range.min.toString());
+  }
+  if (range?.max !== undefined) {
+    queryParams.append(`${name}.max`, range.max.toString());
+  }
+}
+
+function validateRange(
+  key: string,
+  range: NumericRange,
+  [lower, upper]: [number, number],
+  warnings: string[]
+): NumericRange | undefined {
+  const inBounds = (value?: number) => value === undefined || (Number.isFinite(value) && value >= lower && value <= upper);
+
+  if (!inBounds(range.min) || !inBounds(range.max)) {
+    warnings.push(`${key} must be between ${lower} and ${upper}`);
+    return undefined;
+  }
+  if (range.min !== undefined && range.max !== undefined && range.min > range.max) {
+    warnings.push(`${key}.min is greater than ${key}.max`);
+    return undefined;
+  }
+  return range.min === undefined && range.max === undefined ? undefined : range;
+}
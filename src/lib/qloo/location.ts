@@ -1,3 +1,5 @@
+import gazetteer from './gazetteer.json';
+
 export interface LocationInfo {
   query: string;
   city?: string;
@@ -13,200 +15,235 @@ export interface ExtractedLocation {
   radius: number;
   confidence: number;
   reasoning: string;
+  resolved?: ResolvedLocation;
+}
+
+// One entry of the bundled offline gazetteer (gazetteer.json)
+export interface GazetteerPlace {
+  name: string;
+  kind: 'city' | 'neighborhood';
+  city?: string; // Parent city of a neighborhood
+  country: string;
+  lat: number;
+  lon: number;
+  radius: number; // Meters that roughly cover the place
+  aliases: string[];
+  bbox?: [number, number, number, number]; // [west, south, east, north]
+  generic?: boolean; // Name like "Old Town" that only counts when its city is in play
+}
+
+export interface ResolvedLocation {
+  place?: GazetteerPlace; // Undefined when the name isn't in the gazetteer
+  name: string;
+  city: string;
+  country?: string;
+  neighborhood?: string;
+  radius?: number; // Meters; set for point searches, not for polygons
+  wkt?: string; // POINT(lon lat) or POLYGON(...) for filter.location
+  source: 'query' | 'persona';
+  confidence: number;
+  reasoning: string;
+}
+
+export interface ResolveLocationOptions {
+  personaLocation?: string; // Used for "near me" and to pick between same-named neighborhoods
+}
+
+const PLACES = gazetteer.places as GazetteerPlace[];
+const NEAR_ME_PATTERN = /\b(near me|nearby|close to me|close by|around me|around here|near here|in my area)\b/i;
+const MAX_RADIUS = 100000;
+const WALKING_METERS_PER_MINUTE = 80;
+// What has to come right before a place name for it to mean a location rather than a band, film or club
+// ("Florence and the Machine", "Austin Powers", "Chelsea FC")
+const LOCATION_PREPOSITION = /\b(in|at|near|around|visiting|(?:trip|going|travel(?:l)?ing|heading|headed|flying|moving)\s+to)\s+(?:the\s+)?$/i;
+// With a radius or "near me" in the query, "within 2 km of Soho" and "a short walk from Alfama" count too
+const DISTANCE_PREPOSITION = /\b(of|from)\s+(?:the\s+)?$/i;
+// Names the gazetteer doesn't know; case-sensitive so only capitalized words count
+const UNKNOWN_PLACE_PATTERN = /\b(?:in|at|near|around)\s+([A-Z][\p{L}'-]+(?:\s+[A-Z][\p{L}'-]+)*)/u;
+
+// Lowercase and strip accents so "Kraków" and "krakow" compare equal
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
 }
 
-// Common location patterns and their Qloo equivalents
-const LOCATION_ALIASES: Record<string, string> = {
-  // US Cities
-  'the big apple': 'New York City',
-  'nyc': 'New York City',
-  'new york': 'New York City',
-  'la': 'Los Angeles',
-  'los angeles': 'Los Angeles',
-  'sf': 'San Francisco',
-  'san francisco': 'San Francisco',
-  'chicago': 'Chicago',
-  'miami': 'Miami',
-  'las vegas': 'Las Vegas',
-  'boston': 'Boston',
-  'seattle': 'Seattle',
-  'portland': 'Portland',
-  'austin': 'Austin',
-  'nashville': 'Nashville',
-  
-  // European Cities
-  'paris': 'Paris',
-  'london': 'London',
-  'rome': 'Rome',
-  'madrid': 'Madrid',
-  'barcelona': 'Barcelona',
-  'amsterdam': 'Amsterdam',
-  'berlin': 'Berlin',
-  'munich': 'Munich',
-  'vienna': 'Vienna',
-  'prague': 'Prague',
-  'budapest': 'Budapest',
-  'krakow': 'Krakow',
-  'cracow': 'Krakow',
-  'milan': 'Milan',
-  'florence': 'Florence',
-  'venice': 'Venice',
-  'athens': 'Athens',
-  'dublin': 'Dublin',
-  'edinburgh': 'Edinburgh',
-  
-  // Asian Cities
-  'tokyo': 'Tokyo',
-  'osaka': 'Osaka',
-  'kyoto': 'Kyoto',
-  'seoul': 'Seoul',
-  'beijing': 'Beijing',
-  'shanghai': 'Shanghai',
-  'hong kong': 'Hong Kong',
-  'singapore': 'Singapore',
-  'bangkok': 'Bangkok',
-  'manila': 'Manila',
-  'jakarta': 'Jakarta',
-  'kuala lumpur': 'Kuala Lumpur',
-  'mumbai': 'Mumbai',
-  'delhi': 'Delhi',
-  'bangalore': 'Bangalore',
-  
-  // Other Major Cities
-  'sydney': 'Sydney',
-  'melbourne': 'Melbourne',
-  'toronto': 'Toronto',
-  'vancouver': 'Vancouver',
-  'montreal': 'Montreal',
-  'mexico city': 'Mexico City',
-  'sao paulo': 'São Paulo',
-  'rio de janeiro': 'Rio de Janeiro',
-  'buenos aires': 'Buenos Aires',
-  'santiago': 'Santiago',
-  'lima': 'Lima',
-  'bogota': 'Bogotá',
-  'cairo': 'Cairo',
-  'nairobi': 'Nairobi',
-  'lagos': 'Lagos',
-  'johannesburg': 'Johannesburg',
-  'cape town': 'Cape Town',
-};
-
-// Location extraction patterns
-const LOCATION_PATTERNS = [
-  // "in [location]"
-  /\b(?:in|at|near|around)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/gi,
-  // "[location] restaurants"
-  /([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)\s+(?:restaurants?|places?|spots?|venues?)/gi,
-  // "restaurants in [location]"
-  /(?:restaurants?|places?|spots?|venues?)\s+(?:in|at|near)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/gi,
-  // "find [location]"
-  /\b(?:find|search|look\s+for)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/gi,
-];
-
-export function extractLocationFromQuery(userQuery: string): ExtractedLocation {
-  const query = userQuery.toLowerCase();
-  let primaryLocation = '';
-  let localities: string[] = [];
-  let radius = 10; // Default radius for nearby entities
-  let confidence = 0.5;
-  let reasoning = '';
-
-  // Check for explicit location mentions
-  for (const pattern of LOCATION_PATTERNS) {
-    const matches = [...userQuery.matchAll(pattern)];
-    for (const match of matches) {
-      const location = match[1]?.trim();
-      if (location && location.length > 2) {
-        primaryLocation = location;
-        localities.push(location);
-        confidence = 0.8;
-        reasoning = `Found location mention: "${location}"`;
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+interface GazetteerMatch {
+  place: GazetteerPlace;
+  matched: string;
+  index: number;
+  cued: boolean; // Preceded by a location preposition, so the name is meant as a place
+}
+
+// Every gazetteer place named in the text, matched on whole words only
+export function findPlaces(text: string): GazetteerMatch[] {
+  const normalized = normalize(text);
+  const matches: GazetteerMatch[] = [];
+  const distanceCue = extractRadius(text) !== undefined || mentionsCurrentLocation(text);
+
+  for (const place of PLACES) {
+    for (const name of [place.name, ...place.aliases]) {
+      // Short aliases like "LA" or "SF" only count when written in capitals
+      const match = name.length <= 3 && name === name.toUpperCase()
+        ? new RegExp(`(^|[^A-Za-z0-9])${escapeRegExp(name)}(?=$|[^A-Za-z0-9])`).exec(text)
+        : new RegExp(`(^|[^a-z0-9])${escapeRegExp(normalize(name))}(?=$|[^a-z0-9])`).exec(normalized);
+      if (match) {
+        const index = match.index + match[1].length;
+        const before = text.slice(0, index);
+        const cued = LOCATION_PREPOSITION.test(before) || (distanceCue && DISTANCE_PREPOSITION.test(before));
+        matches.push({ place, matched: name, index, cued });
         break;
       }
     }
-    if (primaryLocation) break;
   }
 
-  // Check for location aliases
-  for (const [alias, canonical] of Object.entries(LOCATION_ALIASES)) {
-    if (query.includes(alias)) {
-      primaryLocation = canonical;
-      localities = [canonical];
-      confidence = 0.9;
-      reasoning = `Matched location alias: "${alias}" → "${canonical}"`;
-      break;
-    }
+  return matches;
+}
+
+// Meters from expressions like "within 2 km", "within 500m" or "10 minute walk"
+export function extractRadius(text: string): number | undefined {
+  const distance = text.match(/\bwithin\s+(\d+(?:[.,]\d+)?)\s*(km|kms|kilomet(?:er|re)s?|mi|miles?|m|met(?:er|re)s?)\b/i);
+  if (distance) {
+    const value = parseFloat(distance[1].replace(',', '.'));
+    const unit = distance[2].toLowerCase();
+    const meters = unit.startsWith('k') ? value * 1000 : unit.startsWith('mi') ? value * 1609 : value;
+    return Math.min(Math.round(meters), MAX_RADIUS);
+  }
+
+  const walk = text.match(/\b(\d+)[-\s]?min(?:ute)?s?(?:'s)?\s+walk/i);
+  if (walk) {
+    return Math.min(parseInt(walk[1], 10) * WALKING_METERS_PER_MINUTE, MAX_RADIUS);
   }
 
-  // Check for strict boundary requests
-  if (query.includes('strict') || query.includes('exact') || query.includes('only')) {
-    radius = 0;
-    reasoning += ' (strict boundaries requested)';
+  return undefined;
+}
+
+export function mentionsCurrentLocation(text: string): boolean {
+  return NEAR_ME_PATTERN.test(text);
+}
+
+// Pick one place from the matches: neighborhoods whose city is also named win, then the longest name.
+// In a query only cued matches count; a location field ("Austin, TX") is all place
+function pickPlace(matches: GazetteerMatch[], personaCity?: string, requireCue: boolean = true): GazetteerMatch | undefined {
+  const namedCities = new Set(matches.filter(match => match.place.kind === 'city').map(match => match.place.name));
+  const inPlay = (place: GazetteerPlace) => !!place.city && (namedCities.has(place.city) || place.city === personaCity);
+
+  const score = (match: GazetteerMatch) =>
+    (match.place.kind === 'neighborhood' && inPlay(match.place) ? 100 : 0) +
+    (match.cued ? 50 : 0) +
+    match.matched.length;
+
+  return matches
+    .filter(match => match.cued || !requireCue)
+    .filter(match => !match.place.generic || inPlay(match.place))
+    .sort((a, b) => score(b) - score(a))[0];
+}
+
+function toResolved(
+  place: GazetteerPlace,
+  source: ResolvedLocation['source'],
+  radius: number | undefined,
+  confidence: number,
+  reasoning: string
+): ResolvedLocation {
+  const resolved: ResolvedLocation = {
+    place,
+    name: place.kind === 'neighborhood' ? `${place.name}, ${place.city}` : place.name,
+    city: place.city || place.name,
+    country: place.country,
+    neighborhood: place.kind === 'neighborhood' ? place.name : undefined,
+    source,
+    confidence,
+    reasoning
+  };
+
+  // An explicit radius is always a circle; otherwise use the place outline when we have one
+  if (!radius && place.bbox) {
+    const [west, south, east, north] = place.bbox;
+    resolved.wkt = `POLYGON((${west} ${south}, ${east} ${south}, ${east} ${north}, ${west} ${north}, ${west} ${south}))`;
+  } else {
+    resolved.wkt = `POINT(${place.lon} ${place.lat})`;
+    resolved.radius = radius || place.radius;
   }
 
-  // Check for broader area requests
-  if (query.includes('nearby') || query.includes('around') || query.includes('surrounding')) {
-    radius = 25;
-    reasoning += ' (broader area requested)';
+  return resolved;
+}
+
+// Resolve the place a query is about: gazetteer names, "near me" and "within N km of X"
+export function resolveLocation(userQuery: string, options: ResolveLocationOptions = {}): ResolvedLocation | null {
+  const radius = extractRadius(userQuery);
+  const personaPlace = options.personaLocation ? pickPlace(findPlaces(options.personaLocation), undefined, false)?.place : undefined;
+  const personaCity = personaPlace ? personaPlace.city || personaPlace.name : undefined;
+
+  const match = pickPlace(findPlaces(userQuery), personaCity);
+  if (match) {
+    const reasoning = `Matched "${match.matched}" in the gazetteer${radius ? ` within ${radius}m` : ''}`;
+    return toResolved(match.place, 'query', radius, 0.9, reasoning);
   }
 
-  // Multiple localities detection
-  const multipleLocalityMatches = query.match(/\b(?:and|or|,\s*)\s*([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/gi);
-  if (multipleLocalityMatches && primaryLocation) {
-    for (const match of multipleLocalityMatches) {
-      const additionalLocation = match.replace(/\b(?:and|or|,)\s*/gi, '').trim();
-      if (additionalLocation && additionalLocation !== primaryLocation) {
-        localities.push(additionalLocation);
-        reasoning += ` + additional locality: "${additionalLocation}"`;
-      }
+  if (mentionsCurrentLocation(userQuery) || (radius && options.personaLocation)) {
+    if (personaPlace) {
+      return toResolved(personaPlace, 'persona', radius, 0.8, `Near the persona location "${options.personaLocation}"`);
+    }
+    if (options.personaLocation) {
+      return {
+        name: options.personaLocation,
+        city: options.personaLocation,
+        radius,
+        source: 'persona',
+        confidence: 0.6,
+        reasoning: `Near the persona location "${options.personaLocation}" (not in the gazetteer)`
+      };
     }
+    return null;
   }
 
-  // Fallback: try to extract any capitalized location-like terms
-  if (!primaryLocation) {
-    const potentialLocations = query.match(/\b[A-Z][a-z]+(?:\s+[A-Z][a-z]+)*/g);
-    if (potentialLocations) {
-      // Filter out common non-location words
-      const nonLocationWords = ['find', 'search', 'look', 'for', 'restaurants', 'places', 'food', 'pizza', 'coffee', 'bars'];
-      const filteredLocations = potentialLocations.filter(loc => 
-        !nonLocationWords.includes(loc.toLowerCase()) && loc.length > 2
-      );
-      
-      if (filteredLocations.length > 0) {
-        primaryLocation = filteredLocations[0];
-        localities = [primaryLocation];
-        confidence = 0.4;
-        reasoning = `Fallback location extraction: Found potential location "${primaryLocation}" (low confidence - using pattern matching)`;
-      }
-    }
+  // Not in the gazetteer: pass the name through for Qloo to geocode
+  const unknown = userQuery.match(UNKNOWN_PLACE_PATTERN);
+  if (unknown) {
+    return {
+      name: unknown[1],
+      city: unknown[1],
+      radius,
+      source: 'query',
+      confidence: 0.5,
+      reasoning: `Found location mention "${unknown[1]}" that is not in the gazetteer`
+    };
+  }
+
+  return null;
+}
+
+export function extractLocationFromQuery(userQuery: string, options: ResolveLocationOptions = {}): ExtractedLocation {
+  const resolved = resolveLocation(userQuery, options);
+
+  if (!resolved) {
+    return { primaryLocation: '', localities: [], radius: 0, confidence: 0.5, reasoning: 'No location detected' };
   }
 
   return {
-    primaryLocation,
-    localities: [...new Set(localities)], // Remove duplicates
-    radius,
-    confidence,
-    reasoning: reasoning || 'No location detected'
+    primaryLocation: resolved.name,
+    localities: [resolved.city],
+    radius: resolved.radius || 0,
+    confidence: resolved.confidence,
+    reasoning: resolved.reasoning,
+    resolved
   };
 }
 
+// Insights filter.location parameters: geometry when the place was resolved, the name otherwise
 export function buildLocationFilter(location: ExtractedLocation): Record<string, any> {
   const filter: Record<string, any> = {};
-  
-  if (!location.primaryLocation) {
-    return filter;
-  }
 
-  // Set location query
-  if (location.localities.length === 1) {
+  if (location.resolved?.wkt) {
+    filter['filter.location'] = location.resolved.wkt;
+  } else if (location.primaryLocation) {
     filter['filter.location.query'] = location.primaryLocation;
-  } else if (location.localities.length > 1) {
-    filter['filter.location.query'] = location.localities;
   }
 
-  // Set radius if not default
-  if (location.radius !== 10) {
+  if (location.radius) {
     filter['filter.location.radius'] = location.radius;
   }
 
@@ -220,14 +257,10 @@ export function validateLocation(location: string): boolean {
 }
 
 export function getLocationSuggestions(partialLocation: string): string[] {
-  const suggestions: string[] = [];
-  const partial = partialLocation.toLowerCase();
-  
-  for (const [alias, canonical] of Object.entries(LOCATION_ALIASES)) {
-    if (alias.includes(partial) || canonical.toLowerCase().includes(partial)) {
-      suggestions.push(canonical);
-    }
-  }
-  
-  return suggestions.slice(0, 5); // Limit to 5 suggestions
-} 
\ No newline at end of file
+  const partial = normalize(partialLocation);
+
+  return PLACES
+    .filter(place => [place.name, ...place.aliases].some(name => normalize(name).includes(partial)))
+    .map(place => place.kind === 'neighborhood' ? `${place.name}, ${place.city}` : place.name)
+    .slice(0, 5); // Limit to 5 suggestions
+}
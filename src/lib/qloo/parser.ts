@@ -1,3 +1,6 @@
+import { guessEntityType, normalizeEntityType } from './entity-types';
+import { parseExplainability, RecommendationExplanation } from './explainability';
+
 export type ParsingLevel = 'full' | 'summary' | 'tiny' | 'minimal';
 
 export interface ParsedEntity {
@@ -13,6 +16,8 @@ export interface ParsedEntity {
   imageUrl?: string;
   entityType?: string;
   properties?: any;
+  coordinates?: { lat: number; lon: number }; // Places only, from the entity's location
+  explanation?: RecommendationExplanation; // Which signals produced this result, when explainability was on
 }
 
 export interface ParsedResponse {
@@ -55,6 +60,8 @@ export function parseQlooResponse(
   }
   
   const originalCount = entities.length;
+  // Some responses explain results in one map keyed by entity ID instead of on each entity
+  const explanations = response?.data?.results?.explanations || response?.results?.explanations;
   
   console.log('🔍 Parser debug:', {
     hasResponse: !!response,
@@ -100,30 +107,23 @@ export function parseQlooResponse(
     
     // If the type is just "urn:entity", try to determine the proper type from context
     if (entityType === 'urn:entity' || entityType === 'unknown') {
-      // Try to determine type from entity properties or context
-      if (entity.properties?.cuisine || entity.properties?.address || 
-          entity.name?.toLowerCase().includes('park') || 
-          entity.name?.toLowerCase().includes('museum') ||
-          entity.name?.toLowerCase().includes('store') ||
-          entity.name?.toLowerCase().includes('cafe') ||
-          entity.name?.toLowerCase().includes('restaurant')) {
+      // Try to determine type from entity properties, then from the registry keywords in its name
+      if (entity.properties?.cuisine || entity.properties?.address) {
         entityType = 'urn:entity:place';
-      } else if (entity.properties?.genre || entity.properties?.director || 
-                 entity.name?.toLowerCase().includes('movie') ||
-                 entity.name?.toLowerCase().includes('film')) {
+      } else if (entity.properties?.genre || entity.properties?.director) {
         entityType = 'urn:entity:movie';
-      } else if (entity.properties?.artist || entity.properties?.album ||
-                 entity.name?.toLowerCase().includes('artist') ||
-                 entity.name?.toLowerCase().includes('band')) {
+      } else if (entity.properties?.artist || entity.properties?.album) {
         entityType = 'urn:entity:artist';
-      } else if (entity.properties?.author || entity.properties?.book ||
-                 entity.name?.toLowerCase().includes('book')) {
+      } else if (entity.properties?.author || entity.properties?.book) {
         entityType = 'urn:entity:book';
-      } else if (entity.properties?.brand || entity.properties?.company ||
-                 entity.name?.toLowerCase().includes('brand') ||
-                 entity.name?.toLowerCase().includes('company')) {
+      } else if (entity.properties?.brand || entity.properties?.company) {
         entityType = 'urn:entity:brand';
+      } else {
+        entityType = guessEntityType(entity.name) || entityType;
       }
+    } else {
+      // Canonical spelling, e.g. urn:entity:tvshow -> urn:entity:tv_show
+      entityType = normalizeEntityType(entityType) || entityType;
     }
     
     // Extract rich properties
@@ -155,7 +155,12 @@ export function parseQlooResponse(
       subtype: entity.subtype,
       entityType: entityType,
       imageUrl: imageUrl,
-      properties: properties
+      properties: properties,
+      // Responses parsed once already (see qlooApiCall) carry these over as they are
+      coordinates: typeof entity.location?.lat === 'number' && typeof entity.location?.lon === 'number'
+        ? { lat: entity.location.lat, lon: entity.location.lon }
+        : entity.coordinates,
+      explanation: parseExplainability(entity, explanations) || entity.explanation
     };
 
     switch (parsingLevel) {
@@ -0,0 +1,280 @@
+import { config } from '@/lib/config';
+import { withCassette } from '@/lib/utils/cassette';
+import insightsFixtures from './fixtures/insights.json';
+import searchFixture from './fixtures/search.json';
+import tagsFixture from './fixtures/tags.json';
+import tagTypesFixture from './fixtures/tag-types.json';
+import audiencesFixture from './fixtures/audiences.json';
+
+export interface QlooTransportRequest {
+  endpoint: string; // Path plus query string, e.g. /v2/insights?filter.type=...
+  method: 'GET' | 'POST';
+  body?: any;
+  signal?: AbortSignal;
+}
+
+export interface QlooTransportResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  url: string;
+  json(): Promise<any>;
+  text(): Promise<string>;
+}
+
+// Every Qloo request goes through a transport so the API layer never talks to fetch directly
+export interface QlooTransport {
+  readonly name: string;
+  request(request: QlooTransportRequest): Promise<QlooTransportResponse>;
+}
+
+export type QlooTransportMode = 'http' | 'mock';
+
+// HTTP transport against the real Qloo API
+export class HttpQlooTransport implements QlooTransport {
+  readonly name = 'http';
+
+  constructor(
+    private baseUrl: string = config.qlooApiUrl,
+    private apiKey: string = config.qlooApiKey
+  ) {}
+
+  async request({ endpoint, method, body, signal }: QlooTransportRequest): Promise<QlooTransportResponse> {
+    const url = `${this.baseUrl}${endpoint}`;
+    const headers: Record<string, string> = {
+      'accept': 'application/json',
+      'X-API-Key': this.apiKey,
+    };
+
+    if (method === 'POST') {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const response = await fetch(url, {
+      method,
+      headers,
+      body: body ? JSON.stringify(body) : undefined,
+      signal,
+    });
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      statusText: response.statusText,
+      url,
+      json: () => response.json(),
+      text: () => response.text(),
+    };
+  }
+}
+
+// In-process mock that serves recorded responses from ./fixtures
+export class MockQlooTransport implements QlooTransport {
+  readonly name = 'mock';
+
+  async request({ endpoint, method, signal }: QlooTransportRequest): Promise<QlooTransportResponse> {
+    if (signal?.aborted) {
+      const abortError = new Error('The operation was aborted');
+      abortError.name = 'AbortError';
+      throw abortError;
+    }
+
+    const [path, queryString = ''] = endpoint.split('?');
+    const params = new URLSearchParams(queryString);
+    const url = `mock://qloo${endpoint}`;
+
+    if (method !== 'GET') {
+      return jsonResponse(url, 405, { error: `Mock transport does not support ${method} ${path}` });
+    }
+
+    switch (path) {
+      case '/v2/insights':
+        return jsonResponse(url, 200, this.insights(params));
+      case '/search':
+        return jsonResponse(url, 200, this.search(params));
+      case '/v2/tags':
+        return jsonResponse(url, 200, this.tags(params));
+      case '/v2/tags/types':
+        return jsonResponse(url, 200, tagTypesFixture);
+      case '/v2/audiences':
+        return jsonResponse(url, 200, this.audiences(params));
+      case '/v2/audiences/types':
+        return jsonResponse(url, 200, audiencesFixture.types);
+      default:
+        console.log('⚠️ Mock Qloo transport has no fixture for:', path);
+        return jsonResponse(url, 404, { error: `No fixture for ${path}` });
+    }
+  }
+
+  private insights(params: URLSearchParams) {
+    const fixtures = insightsFixtures as Record<string, any>;
+    const filterType = params.get('filter.type') || config.defaultEntityType;
+    const take = parseInt(params.get('take') || String(config.defaultLimit), 10);
+    const fixture = fixtures[filterType] || fixtures[config.defaultEntityType];
+    const excludedEntities = (params.get('filter.exclude.entities') || '').split(',').filter(Boolean);
+    const excludedTags = (params.get('filter.exclude.tags') || '').split(',').filter(Boolean);
+    const filterTags = (params.get('filter.tags') || '').split(',').filter(tag => tag.startsWith('urn:tag:'));
+    const offset = params.has('offset')
+      ? parseInt(params.get('offset')!, 10)
+      : (parseInt(params.get('page') || '1', 10) - 1) * take;
+
+    if (!fixture.results?.entities) {
+      return fixture;
+    }
+
+    return {
+      ...fixture,
+      results: {
+        ...fixture.results,
+        entities: fixture.results.entities
+          .filter((entity: any) => !excludedEntities.includes(entity.entity_id))
+          .filter((entity: any) => !(entity.tags || []).some((tag: any) => excludedTags.includes(tag.id)))
+          // Any of the filter tags, a parent tag also matching its children (restaurant -> restaurant:italian)
+          .filter((entity: any) => filterTags.length === 0 || (entity.tags || []).some((tag: any) =>
+            filterTags.some(filterTag => tag.id === filterTag || tag.id.startsWith(`${filterTag}:`))
+          ))
+          .filter((entity: any) => inRange(params, 'filter.price_level', entity.properties?.price_level))
+          .filter((entity: any) => inRange(params, 'filter.popularity', entity.popularity))
+          .slice(offset, offset + take)
+          .map((entity: any) => params.get('feature.explainability') === 'true' ? withExplainability(entity, params) : entity)
+      }
+    };
+  }
+
+  private search(params: URLSearchParams) {
+    const query = (params.get('query') || '').toLowerCase();
+    const filterType = params.get('filter.type');
+    const take = parseInt(params.get('take') || String(config.defaultLimit), 10);
+
+    let results = searchFixture.results.filter(entity =>
+      !filterType || entity.types.includes(filterType)
+    );
+
+    const matches = results.filter(entity =>
+      query.split(/\s+/).some(word => word.length > 2 && entity.name.toLowerCase().includes(word))
+    );
+    if (matches.length > 0) {
+      results = matches;
+    }
+
+    return { results: results.slice(0, take) };
+  }
+
+  private tags(params: URLSearchParams) {
+    const query = (params.get('query') || params.get('filter.query') || '').toLowerCase();
+    const parentTypes = params.get('filter.parents.types')?.split(',') || [];
+    const take = parseInt(params.get('take') || '10', 10);
+
+    const results = tagsFixture.results.filter(tag =>
+      (parentTypes.length === 0 || parentTypes.some(parentType => tag.parents.includes(parentType))) &&
+      (!query || tag.name.toLowerCase().includes(query) || query.includes(tag.name.toLowerCase()))
+    );
+
+    return { success: true, results: results.slice(0, take) };
+  }
+
+  private audiences(params: URLSearchParams) {
+    const parentType = params.get('filter.parents.types') || '';
+    const audiences = audiencesFixture.audiences as Record<string, any>;
+    return audiences[parentType] || { success: true, results: { audiences: [] } };
+  }
+}
+
+// Wraps another transport so every request/response pair goes through the cassette (RECORD_MODE)
+export class CassetteQlooTransport implements QlooTransport {
+  readonly name: string;
+
+  constructor(private inner: QlooTransport) {
+    this.name = `cassette(${inner.name})`;
+  }
+
+  async request(request: QlooTransportRequest): Promise<QlooTransportResponse> {
+    const [path, queryString = ''] = request.endpoint.split('?');
+    const params = Object.fromEntries(new URLSearchParams(queryString).entries());
+
+    const recorded = await withCassette(
+      'qloo',
+      `${request.method} ${path}`,
+      { method: request.method, path, params, body: request.body },
+      async () => {
+        const response = await this.inner.request(request);
+        return {
+          status: response.status,
+          statusText: response.statusText,
+          url: response.url,
+          body: await response.text(),
+        };
+      }
+    );
+
+    return textResponse(recorded.url, recorded.status, recorded.statusText, recorded.body);
+  }
+}
+
+// Entities without the property pass; the mock only narrows what it can check
+// Signals the mock spreads each result's explanation over, keyed like Qloo's explainability
+const EXPLAINABLE_SIGNALS: Array<[string, string]> = [
+  ['signal.interests.entities', 'entity_id'],
+  ['signal.interests.tags', 'tag_id'],
+  ['signal.interests.audiences', 'audience_id']
+];
+
+// Deterministic explainability from the request's signals: the same entity and signal always score the same
+function withExplainability(entity: any, params: URLSearchParams): any {
+  const explainability: Record<string, Array<Record<string, string | number>>> = {};
+  for (const [param, idField] of EXPLAINABLE_SIGNALS) {
+    const ids = (params.get(param) || '').split(',').filter(Boolean);
+    if (ids.length > 0) {
+      explainability[param] = ids.map(id => ({ [idField]: id, score: mockScore(`${entity.entity_id}:${id}`) }));
+    }
+  }
+  return Object.keys(explainability).length > 0 ? { ...entity, query: { ...entity.query, explainability } } : entity;
+}
+
+function mockScore(key: string): number {
+  let hash = 0;
+  for (const char of key) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return Math.round((0.1 + (hash % 90) / 100) * 100) / 100;
+}
+
+function inRange(params: URLSearchParams, name: string, value?: number): boolean {
+  if (typeof value !== 'number') return true;
+  const min = params.get(`${name}.min`);
+  const max = params.get(`${name}.max`);
+  return (min === null || value >= parseFloat(min)) && (max === null || value <= parseFloat(max));
+}
+
+function jsonResponse(url: string, status: number, data: any): QlooTransportResponse {
+  return textResponse(url, status, status === 200 ? 'OK' : 'Mock Error', JSON.stringify(data));
+}
+
+function textResponse(url: string, status: number, statusText: string, text: string): QlooTransportResponse {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText,
+    url,
+    json: async () => JSON.parse(text),
+    text: async () => text,
+  };
+}
+
+let transport: QlooTransport | null = null;
+
+export function createQlooTransport(mode: QlooTransportMode = config.qlooTransport): QlooTransport {
+  const base = mode === 'mock' ? new MockQlooTransport() : new HttpQlooTransport();
+  return config.recordMode === 'off' ? base : new CassetteQlooTransport(base);
+}
+
+export function getQlooTransport(): QlooTransport {
+  if (!transport) {
+    transport = createQlooTransport();
+    console.log('🔌 Using Qloo transport:', transport.name);
+  }
+  return transport;
+}
+
+// Swap the transport at runtime (e.g. a test harness injecting its own fixtures)
+export function setQlooTransport(next: QlooTransport | null) {
+  transport = next;
+}
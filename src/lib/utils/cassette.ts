@@ -0,0 +1,246 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { generateText, generateObject, streamText, zodSchema, Schema } from 'ai';
+import { z } from 'zod';
+import { config } from '@/lib/config';
+import { QlooAgentError } from '@/types';
+import { trackTokenUsage } from './debug';
+
+// Cassettes capture external calls (Qloo + LLM) so a conversation can be replayed without keys
+export type RecordMode = 'record' | 'replay' | 'off';
+export type CassetteKind = 'qloo' | 'generateText' | 'generateObject';
+
+interface CassetteInteraction {
+  kind: CassetteKind;
+  label: string;
+  request: any;
+  response: any;
+  recordedAt: string;
+}
+
+interface CassetteFile {
+  version: 1;
+  interactions: Record<string, CassetteInteraction[]>;
+}
+
+class Cassette {
+  private data: CassetteFile | null = null;
+  private replayCursor = new Map<string, number>();
+
+  constructor(private filePath: string) {}
+
+  private load(): CassetteFile {
+    if (!this.data) {
+      if (fs.existsSync(this.filePath)) {
+        this.data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      } else {
+        this.data = { version: 1, interactions: {} };
+      }
+    }
+    return this.data;
+  }
+
+  // Identical requests are replayed in the order they were recorded
+  next(key: string): CassetteInteraction | undefined {
+    const recorded = this.load().interactions[key];
+    if (!recorded || recorded.length === 0) return undefined;
+
+    const cursor = this.replayCursor.get(key) || 0;
+    this.replayCursor.set(key, cursor + 1);
+    return recorded[Math.min(cursor, recorded.length - 1)];
+  }
+
+  append(key: string, interaction: CassetteInteraction) {
+    const data = this.load();
+    data.interactions[key] = data.interactions[key] || [];
+    data.interactions[key].push(interaction);
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2));
+  }
+}
+
+const cassettes = new Map<string, Cassette>();
+
+function getCassette(): Cassette {
+  const filePath = path.resolve(config.cassetteDir, `${config.cassetteName}.json`);
+  if (!cassettes.has(filePath)) {
+    cassettes.set(filePath, new Cassette(filePath));
+  }
+  return cassettes.get(filePath)!;
+}
+
+export function getRecordMode(): RecordMode {
+  return config.recordMode;
+}
+
+// Sort object keys and collapse whitespace so cosmetic differences don't change the key
+function normalize(value: any): any {
+  if (value === undefined || typeof value === 'function') return undefined;
+  if (typeof value === 'string') return value.replace(/\s+/g, ' ').trim();
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .reduce((acc, key) => {
+        const normalized = normalize(value[key]);
+        if (normalized !== undefined) acc[key] = normalized;
+        return acc;
+      }, {} as Record<string, any>);
+  }
+  return value;
+}
+
+export function cassetteKey(kind: CassetteKind, request: any): string {
+  const hash = createHash('sha256')
+    .update(JSON.stringify({ kind, request: normalize(request) }))
+    .digest('hex');
+  return `${kind}:${hash.slice(0, 16)}`;
+}
+
+// Run `perform` according to RECORD_MODE: pass through, record its result, or replay a recorded one
+export async function withCassette<T>(
+  kind: CassetteKind,
+  label: string,
+  request: any,
+  perform: () => Promise<T>
+): Promise<T> {
+  const mode = getRecordMode();
+  if (mode === 'off') {
+    return perform();
+  }
+
+  const cassette = getCassette();
+  const key = cassetteKey(kind, request);
+
+  if (mode === 'replay') {
+    const interaction = cassette.next(key);
+    if (!interaction) {
+      throw new QlooAgentError(
+        `No recorded ${kind} interaction for ${label} in cassette "${config.cassetteName}"`,
+        'CASSETTE_MISS',
+        { key, request: normalize(request) }
+      );
+    }
+    console.log('📼 Replayed', kind, 'interaction:', label);
+    return interaction.response as T;
+  }
+
+  const response = await perform();
+  cassette.append(key, {
+    kind,
+    label,
+    request: normalize(request),
+    response,
+    recordedAt: new Date().toISOString(),
+  });
+  console.log('📼 Recorded', kind, 'interaction:', label);
+  return response;
+}
+
+type GenerateTextOptions = Parameters<typeof generateText>[0];
+// Parameters<typeof generateObject> is the last, schema-less overload, so the schema overload's
+// options are spelled out on top of the call settings and prompt it shares with generateText
+type GenerateObjectOptions<T> = Omit<GenerateTextOptions, 'tools' | 'toolChoice' | 'maxSteps' | 'stopSequences' | 'experimental_output' | 'experimental_activeTools' | 'experimental_prepareStep' | 'experimental_repairToolCall' | 'experimental_transform' | 'experimental_continueSteps' | 'onStepFinish'> & {
+  schema: z.Schema<T, z.ZodTypeDef, any> | Schema<T>;
+  schemaName?: string;
+  schemaDescription?: string;
+  mode?: 'auto' | 'json' | 'tool';
+};
+
+function describeModel(model: GenerateTextOptions['model']): string {
+  return model.modelId;
+}
+
+// JSON Schema of a zod or AI SDK schema, so a changed schema changes the cassette key
+function describeSchema<T>(schema: GenerateObjectOptions<T>['schema']): unknown {
+  return 'jsonSchema' in schema ? schema.jsonSchema : zodSchema(schema).jsonSchema;
+}
+
+function reportUsage(label: string, usage?: { promptTokens?: number; completionTokens?: number; totalTokens?: number }) {
+  if (!usage) return;
+  trackTokenUsage({
+    promptTokens: usage.promptTokens || 0,
+    completionTokens: usage.completionTokens || 0,
+    totalTokens: usage.totalTokens || 0,
+  }, label);
+}
+
+// generateText that participates in cassettes; only the serializable part of the result is kept
+export async function generateTextWithCassette(label: string, options: GenerateTextOptions) {
+  const { model, prompt, system, messages, maxTokens, temperature } = options;
+
+  const result = await withCassette(
+    'generateText',
+    label,
+    { model: describeModel(model), prompt, system, messages, maxTokens, temperature },
+    async () => {
+      const result = await generateText(options);
+      return {
+        text: result.text,
+        usage: result.usage,
+        finishReason: result.finishReason,
+      };
+    }
+  );
+
+  reportUsage(label, result.usage);
+  return result;
+}
+
+// Streaming variant that shares generateText's cassette entries: deltas are forwarded live when
+// recording/off, and a replayed response arrives as a single delta
+export async function streamTextWithCassette(
+  label: string,
+  options: GenerateTextOptions,
+  onDelta: (delta: string) => void
+) {
+  const { model, prompt, system, messages, maxTokens, temperature } = options;
+  let streamed = false;
+
+  const result = await withCassette(
+    'generateText',
+    label,
+    { model: describeModel(model), prompt, system, messages, maxTokens, temperature },
+    async () => {
+      const stream = streamText(options);
+      for await (const delta of stream.textStream) {
+        streamed = true;
+        onDelta(delta);
+      }
+      return {
+        text: await stream.text,
+        usage: await stream.usage,
+        finishReason: await stream.finishReason,
+      };
+    }
+  );
+
+  if (!streamed && result.text) {
+    onDelta(result.text);
+  }
+  reportUsage(label, result.usage);
+  return result;
+}
+
+export async function generateObjectWithCassette<T = any>(label: string, options: GenerateObjectOptions<T>) {
+  const { model, prompt, system, messages, maxTokens, temperature, schemaName, schema } = options;
+
+  const result = await withCassette(
+    'generateObject',
+    label,
+    { model: describeModel(model), prompt, system, messages, maxTokens, temperature, schemaName, schema: describeSchema(schema) },
+    async () => {
+      const result = await generateObject<T>({ ...options, output: 'object' });
+      return {
+        object: result.object,
+        usage: result.usage,
+        finishReason: result.finishReason,
+      };
+    }
+  );
+
+  reportUsage(label, result.usage);
+  return result;
+}
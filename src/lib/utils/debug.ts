@@ -13,30 +13,41 @@ export interface TokenUsage {
   cost?: number;
 }
 
+// Server-side receiver for debug messages (registered by the trace bus in ./trace)
+type DebugSink = (type: DebugMessage['type'], data?: any, duration?: number) => void;
+let serverDebugSink: DebugSink | null = null;
+
+export function setServerDebugSink(sink: DebugSink | null) {
+  serverDebugSink = sink;
+}
+
 // Broadcast debug message to the debug panel
 export function broadcastDebugMessage(
   type: DebugMessage['type'],
   data?: any,
   duration?: number
 ) {
-  // Only dispatch events in browser environment
-  if (typeof window !== 'undefined') {
-    const debugEvent = new CustomEvent('debug-message', {
-      detail: {
-        type,
-        message: type,
-        data,
-        duration,
-        timestamp: new Date().toISOString(),
-      },
-    });
-
-    window.dispatchEvent(debugEvent);
+  // On the server, hand the message to the per-session trace bus
+  if (typeof window === 'undefined') {
+    serverDebugSink?.(type, data, duration);
+    return;
   }
+
+  const debugEvent = new CustomEvent('debug-message', {
+    detail: {
+      type,
+      message: type,
+      data,
+      duration,
+      timestamp: new Date().toISOString(),
+    },
+  });
+
+  window.dispatchEvent(debugEvent);
 }
 
 // Track token usage
-export function trackTokenUsage(usage: TokenUsage) {
+export function trackTokenUsage(usage: TokenUsage, source?: string) {
   // Calculate cost (approximate for Gemini 2.5 Flash)
   const costPer1KTokens = 0.00015; // $0.00015 per 1K tokens
   const cost = (usage.totalTokens / 1000) * costPer1KTokens;
@@ -44,6 +55,7 @@ export function trackTokenUsage(usage: TokenUsage) {
   broadcastDebugMessage('token', {
     ...usage,
     cost,
+    source,
   });
 }
 
@@ -77,7 +89,11 @@ export function trackAgentActivity(
 ) {
   broadcastDebugMessage(
     'info',
-    data,
+    {
+      agentName,
+      action,
+      data,
+    },
     duration
   );
 }
@@ -85,6 +101,7 @@ export function trackAgentActivity(
 // Error tracking
 export function trackError(error: Error, context?: any) {
   broadcastDebugMessage('error', {
+    message: error.message,
     stack: error.stack,
     context,
   });
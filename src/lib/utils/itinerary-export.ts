@@ -0,0 +1,65 @@
+import type { Itinerary, ItineraryStop } from '@/types';
+
+// Exports shared by the chat answer and the itinerary view; no server imports so the client can use them
+
+export function formatDistance(meters: number): string {
+  return meters < 1000 ? `${meters} m` : `${(meters / 1000).toFixed(1)} km`;
+}
+
+function stopLine(stop: ItineraryStop): string {
+  if (!stop.place) {
+    return `- ${stop.time} ${stop.icon} **${stop.label}:** no match found`;
+  }
+  const distance = stop.distanceFromPrevious !== undefined ? ` · ${formatDistance(stop.distanceFromPrevious)} from the last stop` : '';
+  const address = stop.place.address ? ` (${stop.place.address})` : '';
+  return `- ${stop.time} ${stop.icon} **${stop.label}:** ${stop.place.name}${address}${distance}`;
+}
+
+// Plain Markdown, one section per day, so the plan can be pasted into notes or a message
+export function itineraryToMarkdown(itinerary: Itinerary): string {
+  const lines = [`# ${itinerary.title}`, ''];
+
+  let offset = 0;
+  itinerary.legs.forEach(leg => {
+    itinerary.days.slice(offset, offset + leg.days).forEach(day => {
+      lines.push(`## Day ${day.day}${day.date ? ` (${day.date})` : ''} · ${day.city}`);
+      day.stops.forEach(stop => lines.push(stopLine(stop)));
+      lines.push('');
+    });
+    if (leg.dayTrips.length > 0) {
+      lines.push(`**Day trips from ${leg.city}:** ${leg.dayTrips.map(trip => trip.name).join(', ')}`, '');
+    }
+    offset += leg.days;
+  });
+
+  return lines.join('\n').trim();
+}
+
+function escapeICS(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
+}
+
+// iCalendar file with one event per stop; only possible when the trip has dates
+export function itineraryToICS(itinerary: Itinerary): string | null {
+  if (!itinerary.days.every(day => day.date)) return null;
+
+  const stamp = itinerary.generatedAt.replace(/[-:]/g, '').replace(/\.\d+/, '');
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//QLooTwin//Trip Planner//EN'];
+
+  itinerary.days.forEach(day => day.stops.filter(stop => stop.place).forEach(stop => {
+    const start = `${day.date!.replace(/-/g, '')}T${stop.time.replace(':', '')}00`;
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${stamp}-${day.day}-${stop.slot}@qlootwin`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${start}`,
+      'DURATION:PT1H30M',
+      `SUMMARY:${escapeICS(`${stop.label}: ${stop.place!.name}`)}`,
+      `LOCATION:${escapeICS(stop.place!.address || day.city)}`,
+      'END:VEVENT'
+    );
+  }));
+
+  lines.push('END:VCALENDAR');
+  return lines.join('\r\n');
+}
@@ -0,0 +1,57 @@
+// Server-sent events helpers shared by streaming routes (server) and ChatGPTInterface (browser)
+
+export interface SSEEvent<T = any> {
+  event: string;
+  data: T;
+}
+
+const encoder = new TextEncoder();
+
+export function encodeSSE(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+};
+
+// Read an SSE response body (fetch + POST/PUT, which EventSource can't do) and dispatch each event
+export async function readSSEStream(
+  response: Response,
+  onEvent: (event: SSEEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let event = 'message';
+      const dataLines: string[] = [];
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+      }
+
+      if (dataLines.length > 0) {
+        onEvent({ event, data: JSON.parse(dataLines.join('\n')) });
+      }
+    }
+  }
+}
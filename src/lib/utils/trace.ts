@@ -0,0 +1,93 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { setServerDebugSink, DebugMessage } from './debug';
+
+// Server-side trace bus: collects the debug events emitted while one chat request runs
+// (agent activity, Qloo calls, token usage, agent steps) and fans them out to SSE subscribers.
+// Subscribers live in this process only, so on multi-instance deployments the live feed covers
+// requests handled by the same instance; persisted traces are always available.
+
+export interface TraceEvent {
+  id: string;
+  traceId: string;
+  sessionId: string;
+  type: DebugMessage['type'];
+  data?: any;
+  duration?: number;
+  timestamp: string;
+}
+
+interface TraceContext {
+  traceId: string;
+  sessionId: string;
+  events: TraceEvent[];
+}
+
+type TraceListener = (event: TraceEvent) => void;
+
+const MAX_EVENTS_PER_TRACE = 500;
+
+const traceStorage = new AsyncLocalStorage<TraceContext>();
+const listeners = new Map<string, Set<TraceListener>>();
+
+function publish(event: TraceEvent) {
+  listeners.get(event.sessionId)?.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('❌ Trace listener failed:', error);
+    }
+  });
+}
+
+// Record an event on the trace of the request currently running (no-op outside a trace)
+export function recordTraceEvent(type: DebugMessage['type'], data?: any, duration?: number) {
+  const context = traceStorage.getStore();
+  if (!context) return;
+
+  const event: TraceEvent = {
+    id: `${context.traceId}_${context.events.length}`,
+    traceId: context.traceId,
+    sessionId: context.sessionId,
+    type,
+    data,
+    duration,
+    timestamp: new Date().toISOString(),
+  };
+
+  if (context.events.length < MAX_EVENTS_PER_TRACE) {
+    context.events.push(event);
+  }
+  publish(event);
+}
+
+// Run `fn` with a fresh trace; everything it (transitively) tracks lands in the returned events
+export async function runWithTrace<T>(
+  sessionId: string,
+  fn: () => Promise<T>
+): Promise<{ result: T; traceId: string; events: TraceEvent[] }> {
+  const context: TraceContext = {
+    traceId: `trace_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    sessionId,
+    events: [],
+  };
+
+  const result = await traceStorage.run(context, fn);
+  return { result, traceId: context.traceId, events: context.events };
+}
+
+export function subscribeToTrace(sessionId: string, listener: TraceListener): () => void {
+  if (!listeners.has(sessionId)) {
+    listeners.set(sessionId, new Set());
+  }
+  listeners.get(sessionId)!.add(listener);
+
+  return () => {
+    const sessionListeners = listeners.get(sessionId);
+    sessionListeners?.delete(listener);
+    if (sessionListeners && sessionListeners.size === 0) {
+      listeners.delete(sessionId);
+    }
+  };
+}
+
+setServerDebugSink(recordTraceEvent);
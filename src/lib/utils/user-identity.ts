@@ -0,0 +1,32 @@
+// Who is chatting: a long-lived cookie holding the user id. Only usable in route handlers / server code.
+import { cookies } from 'next/headers';
+import { getDatabaseService } from '../database/database';
+
+export const USER_COOKIE = 'qloo_user_id';
+const USER_COOKIE_MAX_AGE = 60 * 60 * 24 * 365; // One year, renewed on every visit
+
+// The current visitor's user; first visits (or unknown ids) get a new user and cookie
+export async function resolveCurrentUser() {
+  const cookieStore = await cookies();
+  const user = await getDatabaseService().resolveUser(cookieStore.get(USER_COOKIE)?.value);
+  await setCurrentUser(user.id);
+  return user;
+}
+
+export async function setCurrentUser(userId: string) {
+  const cookieStore = await cookies();
+  cookieStore.set(USER_COOKIE, userId, {
+    httpOnly: true,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: USER_COOKIE_MAX_AGE,
+  });
+}
+
+// Sessions belong to the user who started them; anyone else's session should read as missing (404)
+// so ids can't be probed. Sessions nobody owns yet (from before users existed) only pass with allowUnowned
+export async function currentUserOwnsSession(sessionId: string, { allowUnowned = false } = {}): Promise<boolean> {
+  const [user, summary] = await Promise.all([resolveCurrentUser(), getDatabaseService().getSessionSummary(sessionId)]);
+  if (!summary) return false;
+  return summary.userId ? summary.userId === user.id : allowUnowned;
+}
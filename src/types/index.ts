@@ -11,17 +11,36 @@ export interface QlooParameters {
   location?: {
     city?: string;
     country?: string;
+    neighborhood?: string; // Resolved from the gazetteer, for display; the geometry does the filtering
+    radius?: number;       // Meters around the location (filter.location.radius)
+    geohash?: string;      // filter.geohash
+    wkt?: string;          // WKT POINT/POLYGON (filter.location), wins over city and geohash
   };
   
   // Filter parameters
   filterTags?: string[];   // Specific tags to filter by
   excludeTags?: string[];  // Tags to exclude
+  excludeEntities?: string[]; // Entity IDs to exclude (dislikes, rejected recommendations)
+  priceLevel?: NumericRange;  // 1-4, places only
+  rating?: NumericRange;      // 0-5
+  releaseYear?: NumericRange; // Movies, TV shows, video games
+  popularity?: NumericRange;  // 0-1 percentile
+  biasTrends?: 'off' | 'low' | 'medium' | 'high'; // Lean results toward what is trending now
+  
+  // Demographic and audience signals
+  demographics?: {
+    age?: AgeBucket;
+    gender?: 'male' | 'female';
+  };
+  signalAudiences?: string[]; // Audience IDs for signal.interests.audiences
   
   // API selection
   targetAPI: 'GETINSIGHTS' | 'GETENTITY' | 'GETTAGS';
   
   // Additional parameters
   limit?: number;          // Number of results
+  page?: number;           // 1-based page of results
+  offset?: number;         // Results to skip, instead of page
   explainability?: boolean; // Whether to include explanations
   
   // Signal tags for enhanced recommendations
@@ -34,6 +53,13 @@ export interface QlooParameters {
   parsingLevel?: 'full' | 'summary' | 'tiny' | 'minimal'; // Response parsing level
 }
 
+export interface NumericRange {
+  min?: number;
+  max?: number;
+}
+
+export type AgeBucket = '35_and_younger' | '36_to_55' | '55_and_older';
+
 // Qloo API Response Types
 export interface QlooEntity {
   id: string;
@@ -159,6 +185,7 @@ export interface AgentContext {
       metadata?: Record<string, any>;
     }>;
     personaData?: any;
+    itinerary?: Itinerary; // Day-by-day plan from the trip planner
     intent?: string;
     source?: string;
     entityCount?: number;
@@ -166,6 +193,58 @@ export interface AgentContext {
   isNewSession?: boolean;
 }
 
+// Trip Planner Types
+export const ITINERARY_SLOTS = ['breakfast', 'museum', 'lunch', 'sight', 'dinner', 'bar'] as const;
+
+export type ItinerarySlot = typeof ITINERARY_SLOTS[number];
+
+export interface ItineraryPlace {
+  id: string;
+  name: string;
+  type: string;
+  score: number | null; // Qloo affinity for this persona
+  address?: string;
+  imageUrl?: string;
+  description?: string;
+  tags: string[];
+  coordinates?: { lat: number; lon: number };
+}
+
+export interface ItineraryStop {
+  slot: ItinerarySlot;
+  label: string;
+  time: string;
+  icon: string;
+  place: ItineraryPlace | null; // Null when Insights had nothing left for this slot
+  distanceFromPrevious?: number; // Meters from the previous stop that has coordinates
+}
+
+export interface ItineraryDay {
+  day: number; // 1-based across the whole trip
+  date?: string; // YYYY-MM-DD when the trip has a start date
+  city: string;
+  stops: ItineraryStop[];
+  center?: { lat: number; lon: number }; // Middle of the day's stops
+}
+
+export interface ItineraryLeg {
+  city: string;
+  country?: string;
+  days: number;
+  dayTrips: ItineraryPlace[]; // Destinations within reach of the city
+}
+
+export interface Itinerary {
+  title: string;
+  query: string;
+  startDate?: string;
+  slots: ItinerarySlot[];
+  legs: ItineraryLeg[];
+  days: ItineraryDay[];
+  personalized: boolean; // Whether persona signals shaped the picks
+  generatedAt: string;
+}
+
 // Tool Types
 export interface QlooTool {
   name: string;